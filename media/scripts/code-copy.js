@@ -68,8 +68,10 @@
                 const codeElement = wrapper.querySelector('pre code');
                 if (!codeElement) return;
 
-                // Extract code text
-                code = this.extractCode(codeElement);
+                // Extract code text (or the code after the change for diff blocks)
+                code = button.getAttribute('data-copy') === 'new-code'
+                    ? this.extractNewCode(codeElement)
+                    : this.extractCode(codeElement);
             }
 
             if (!code) {
@@ -99,6 +101,21 @@
             return codeElement.textContent || '';
         },
 
+        /**
+         * Extract the code after the change from a diff-<language> block
+         * Skips removed lines and hunk headers and strips the +/- markers
+         */
+        extractNewCode: function(codeElement) {
+            const lines = Array.from(codeElement.querySelectorAll('.diff-line'))
+                .filter((line) => !line.classList.contains('hljs-deletion'))
+                .map((line) => {
+                    const marker = line.querySelector('.diff-marker');
+                    const text = line.textContent || '';
+                    return marker ? text.slice(marker.textContent.length) : text;
+                });
+            return lines.length > 0 ? lines.join('\n') + '\n' : '';
+        },
+
         /**
          * Show success feedback
          */
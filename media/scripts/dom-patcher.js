@@ -0,0 +1,159 @@
+// Incremental preview updates
+// Receives rendered Markdown from the extension and patches only the changed
+// top-level blocks, so rendered diagrams, scroll position and the zoom modal survive edits.
+(function initializeDomPatcher() {
+    'use strict';
+
+    // Attributes that change between renders without the block content changing
+    const VOLATILE_ATTRIBUTES = ['data-line', 'id', 'data-diagram-id'];
+
+    /**
+     * DOM Patcher
+     * Diffs top-level blocks of #preview-container by their source HTML
+     */
+    const domPatcher = {
+        container: document.getElementById('preview-container'),
+        // Source HTML key for each top-level node, as sent by the extension (before client-side rendering)
+        blockKeys: new WeakMap(),
+
+        /**
+         * Record keys for the blocks delivered with the initial HTML.
+         * Runs when this script loads, before the renderer scripts loaded after it
+         * (Mermaid, Vega, …) replace the source blocks with their output.
+         */
+        recordInitialKeys: function() {
+            Array.from(this.container.children).forEach((node) => {
+                this.blockKeys.set(node, this.getKey(node));
+            });
+        },
+
+        init: function() {
+            window.addEventListener('message', this.handleMessage.bind(this));
+
+            // Tell the extension that incremental updates can be delivered from now on
+            window.vscodeApi.postMessage({ command: 'ready' });
+        },
+
+        /**
+         * Handle messages from the extension
+         */
+        handleMessage: function(event) {
+            const message = event.data;
+            if (!message || message.command !== 'updateContent') return;
+
+            this.patch(message.data.html);
+        },
+
+        /**
+         * Compute a comparison key for a block, ignoring volatile attributes
+         */
+        getKey: function(node) {
+            if (node.nodeType !== Node.ELEMENT_NODE) {
+                return node.textContent;
+            }
+
+            const clone = node.cloneNode(true);
+            [clone, ...clone.querySelectorAll('*')].forEach((element) => {
+                VOLATILE_ATTRIBUTES.forEach((attribute) => element.removeAttribute(attribute));
+            });
+            return clone.outerHTML;
+        },
+
+        /**
+         * Copy source line markers from a freshly rendered block onto a reused one
+         */
+        syncLineMarkers: function(oldNode, newNode) {
+            if (oldNode.nodeType !== Node.ELEMENT_NODE) return;
+
+            const newLine = newNode.getAttribute('data-line');
+            if (newLine !== null) {
+                oldNode.setAttribute('data-line', newLine);
+            }
+
+            const oldMarked = oldNode.querySelectorAll('[data-line]');
+            const newMarked = newNode.querySelectorAll('[data-line]');
+            if (oldMarked.length !== newMarked.length) return;
+
+            oldMarked.forEach((element, index) => {
+                element.setAttribute('data-line', newMarked[index].getAttribute('data-line'));
+            });
+        },
+
+        /**
+         * Patch the preview container to match the new HTML
+         */
+        patch: function(html) {
+            const template = document.createElement('template');
+            template.innerHTML = html;
+
+            // Ignore whitespace-only text nodes between blocks
+            const newNodes = Array.from(template.content.childNodes).filter(
+                (node) => node.nodeType === Node.ELEMENT_NODE || node.textContent.trim() !== ''
+            );
+            const newKeys = newNodes.map((node) => this.getKey(node));
+
+            const oldNodes = Array.from(this.container.childNodes).filter(
+                (node) => node.nodeType === Node.ELEMENT_NODE || node.textContent.trim() !== ''
+            );
+            const oldKeys = oldNodes.map((node) => this.blockKeys.get(node) ?? this.getKey(node));
+
+            // Index old blocks by key so unchanged blocks (e.g. rendered diagrams) can be reused
+            const reusable = new Map();
+            oldNodes.forEach((node, index) => {
+                const key = oldKeys[index];
+                if (!reusable.has(key)) {
+                    reusable.set(key, []);
+                }
+                reusable.get(key).push(node);
+            });
+
+            let changed = 0;
+            const resultNodes = newNodes.map((newNode, index) => {
+                const candidates = reusable.get(newKeys[index]);
+                if (candidates && candidates.length > 0) {
+                    const oldNode = candidates.shift();
+                    this.syncLineMarkers(oldNode, newNode);
+                    return oldNode;
+                }
+
+                changed++;
+                this.blockKeys.set(newNode, newKeys[index]);
+                return newNode;
+            });
+
+            // Remove blocks that are no longer present
+            const kept = new Set(resultNodes);
+            Array.from(this.container.childNodes).forEach((node) => {
+                if (!kept.has(node)) {
+                    node.remove();
+                }
+            });
+
+            // Insert or move nodes so the container order matches the new document
+            let cursor = this.container.firstChild;
+            resultNodes.forEach((node) => {
+                if (node === cursor) {
+                    cursor = cursor.nextSibling;
+                } else {
+                    this.container.insertBefore(node, cursor);
+                }
+            });
+
+            if (changed > 0) {
+                document.dispatchEvent(new CustomEvent('preview:content-updated'));
+            }
+        }
+    };
+
+    // Expose to window for testing
+    window.domPatcher = domPatcher;
+
+    // The preview container precedes the scripts, so it is already parsed
+    domPatcher.recordInitialKeys();
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => domPatcher.init());
+    } else {
+        domPatcher.init();
+    }
+})();
@@ -0,0 +1,82 @@
+// Link handling: in-page anchors scroll the preview, other links go to the extension
+(function initializeLinkHandler() {
+    'use strict';
+
+    /**
+     * Link Handler
+     * Intercepts link clicks, which would otherwise try to navigate the webview
+     */
+    const linkHandler = {
+        init: function() {
+            document.addEventListener('click', this.handleClick.bind(this));
+            window.addEventListener('message', this.handleMessage.bind(this));
+        },
+
+        /**
+         * Handle messages from the extension
+         */
+        handleMessage: function(event) {
+            const message = event.data;
+            if (!message || message.command !== 'scrollToFragment') return;
+
+            this.scrollToFragment(message.data.fragment);
+        },
+
+        /**
+         * Handle clicks on links in the preview content
+         */
+        handleClick: function(event) {
+            if (event.defaultPrevented || event.button !== 0) return;
+
+            const link = event.target.closest('a[href]');
+            if (!link || !link.closest('#preview-container')) return;
+
+            const href = link.getAttribute('href');
+            event.preventDefault();
+
+            if (href.startsWith('#')) {
+                this.scrollToFragment(this.decode(href.slice(1)));
+                return;
+            }
+
+            // Relative files, other documents and external URLs are opened by the extension
+            window.vscodeApi.postMessage({ command: 'openLink', data: { href } });
+        },
+
+        /**
+         * Scroll to the element a fragment points to (heading id or named anchor)
+         */
+        scrollToFragment: function(fragment) {
+            if (!fragment) {
+                window.scrollTo(0, 0);
+                return;
+            }
+
+            const target = document.getElementById(fragment)
+                || document.getElementsByName(fragment)[0]
+                || document.getElementById(fragment.toLowerCase());
+            if (target) {
+                // Footnotes and footnote references are centered so the surrounding text stays visible
+                const isHeading = /^H[1-6]$/.test(target.tagName);
+                target.scrollIntoView({ block: isHeading ? 'start' : 'center' });
+            }
+        },
+
+        decode: function(value) {
+            try {
+                return decodeURIComponent(value);
+            } catch (error) {
+                return value;
+            }
+        }
+    };
+
+    // Expose to window for testing
+    window.linkHandler = linkHandler;
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => linkHandler.init());
+    } else {
+        linkHandler.init();
+    }
+})();
@@ -1,24 +1,24 @@
 // Initialize Mermaid diagrams
 (function initializeMermaid() {
-    try {
-        // Configure Mermaid
-        mermaid.initialize({
-            startOnLoad: false,
-            theme: 'default',
-            securityLevel: 'loose',
-            fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
-            suppressErrorRendering: true
-        });
+    // Output counter shared across incremental updates so container IDs stay unique
+    let outputCounter = 0;
 
+    // Render all Mermaid diagrams that have not been rendered yet
+    function renderPendingDiagrams() {
         // Find all Mermaid diagram containers
         const mermaidElements = document.querySelectorAll('pre.mermaid');
 
         // Render each diagram with error isolation
-        mermaidElements.forEach((element, index) => {
+        mermaidElements.forEach((element) => {
             try {
+                const index = outputCounter++;
                 const diagramId = element.id || `mermaid-${index}`;
                 const diagramDefinition = element.textContent;
 
+                // Claim the element so a concurrent update does not render it twice
+                element.classList.remove('mermaid');
+                element.classList.add('mermaid-rendering');
+
                 // Create a container for the rendered diagram
                 const container = document.createElement('div');
                 container.id = `mermaid-output-${index}`;
@@ -30,6 +30,12 @@
                     return mermaid.render(diagramId + '-svg', diagramDefinition);
                 }).then(result => {
                     container.innerHTML = result.svg;
+
+                    // Let the extension cache the SVG so unchanged diagrams are not rendered again
+                    window.vscodeApi.postMessage({
+                        command: 'diagramRendered',
+                        data: { source: diagramDefinition, svg: result.svg, svgId: diagramId + '-svg' }
+                    });
                     // CRITICAL: Add .diagram-clickable class for modal zoom functionality
                     // Without this class, the click event handler cannot detect diagram clicks
                     // Server-side MermaidRenderer adds this, but client-side rendering bypasses that wrapper
@@ -112,6 +118,44 @@
                 // Leave the element as-is if there's an error
             }
         });
+    }
+
+    try {
+        // Configure Mermaid
+        mermaid.initialize({
+            startOnLoad: false,
+            theme: 'default',
+            securityLevel: 'loose',
+            fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+            suppressErrorRendering: true
+        });
+
+        renderPendingDiagrams();
+
+        // Render diagrams inserted by incremental content updates
+        document.addEventListener('preview:content-updated', renderPendingDiagrams);
+
+        // Render diagram sources to SVG on request (used by HTML/PDF export)
+        window.addEventListener('message', async (event) => {
+            const message = event.data;
+            if (!message || message.command !== 'renderMermaid') return;
+
+            const { requestId, sources } = message.data;
+            const results = [];
+
+            // Render sequentially: concurrent mermaid.render() calls share global state
+            for (let index = 0; index < sources.length; index++) {
+                try {
+                    await mermaid.parse(sources[index]);
+                    const result = await mermaid.render(`export-${requestId}-${index}`, sources[index]);
+                    results.push({ svg: result.svg });
+                } catch (error) {
+                    results.push({ error: (error && error.message) || 'Failed to render diagram' });
+                }
+            }
+
+            window.vscodeApi.postMessage({ command: 'mermaidRendered', data: { requestId, results } });
+        });
     } catch (error) {
         console.error('Failed to initialize Mermaid:', error);
     }
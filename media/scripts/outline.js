@@ -0,0 +1,155 @@
+// Floating outline sidebar listing the document's headings
+(function initializeOutline() {
+    'use strict';
+
+    // A heading is the current section once its top is above this offset (pixels)
+    const ACTIVE_OFFSET = 80;
+
+    /**
+     * Outline Manager
+     * Builds the sidebar from heading ids and highlights the section being read
+     */
+    const outlineManager = {
+        sidebar: null,
+        list: null,
+        toggle: null,
+        headings: [],
+        activeIndex: -1,
+        scrollPending: false,
+
+        init: function() {
+            if (document.body.getAttribute('data-outline') !== 'true') return;
+
+            this.toggle = document.createElement('button');
+            this.toggle.id = 'outline-toggle';
+            this.toggle.title = 'Toggle outline';
+            this.toggle.setAttribute('aria-label', 'Toggle outline');
+            this.toggle.setAttribute('aria-controls', 'outline-sidebar');
+            this.toggle.textContent = '☰';
+
+            this.sidebar = document.createElement('nav');
+            this.sidebar.id = 'outline-sidebar';
+            this.sidebar.setAttribute('aria-label', 'Outline');
+            const title = document.createElement('div');
+            title.className = 'outline-title';
+            title.textContent = 'Outline';
+            this.list = document.createElement('ul');
+            this.sidebar.append(title, this.list);
+
+            document.body.append(this.toggle, this.sidebar);
+
+            const state = window.previewState.get();
+            this.setOpen(state.outlineOpen !== false);
+
+            this.toggle.addEventListener('click', () => {
+                this.setOpen(!document.body.classList.contains('outline-open'));
+            });
+            this.list.addEventListener('click', this.handleClick.bind(this));
+            window.addEventListener('scroll', this.handleScroll.bind(this), { passive: true });
+            document.addEventListener('preview:content-updated', () => this.refresh());
+
+            this.refresh();
+        },
+
+        /**
+         * Show or hide the sidebar and persist the choice
+         */
+        setOpen: function(open) {
+            document.body.classList.toggle('outline-open', open);
+            this.toggle.setAttribute('aria-expanded', String(open));
+            window.previewState.update({ outlineOpen: open });
+        },
+
+        /**
+         * Rebuild the outline from the headings in the preview
+         */
+        refresh: function() {
+            this.headings = Array.from(
+                document.querySelectorAll('#preview-container :is(h1, h2, h3, h4, h5, h6)[id]')
+            );
+            document.body.classList.toggle('outline-empty', this.headings.length === 0);
+
+            const topLevel = Math.min(...this.headings.map((heading) => Number(heading.tagName[1])));
+            this.list.replaceChildren(...this.headings.map((heading, index) => {
+                const item = document.createElement('li');
+                item.className = `outline-level-${Number(heading.tagName[1]) - topLevel + 1}`;
+
+                const link = document.createElement('a');
+                link.href = `#${heading.id}`;
+                link.textContent = heading.textContent;
+                link.setAttribute('data-index', String(index));
+                item.append(link);
+                return item;
+            }));
+
+            this.activeIndex = -1;
+            this.updateActive();
+        },
+
+        /**
+         * Scroll to the heading of a clicked outline entry
+         */
+        handleClick: function(event) {
+            const link = event.target.closest('a[data-index]');
+            if (!link) return;
+
+            event.preventDefault();
+            const heading = this.headings[Number(link.getAttribute('data-index'))];
+            if (heading) {
+                heading.scrollIntoView({ block: 'start' });
+            }
+        },
+
+        handleScroll: function() {
+            if (this.scrollPending) return;
+
+            this.scrollPending = true;
+            requestAnimationFrame(() => {
+                this.scrollPending = false;
+                this.updateActive();
+            });
+        },
+
+        /**
+         * Highlight the last heading scrolled past the top of the preview
+         */
+        updateActive: function() {
+            let activeIndex = this.headings.length > 0 ? 0 : -1;
+            this.headings.forEach((heading, index) => {
+                if (heading.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+                    activeIndex = index;
+                }
+            });
+            if (activeIndex === this.activeIndex) return;
+
+            this.activeIndex = activeIndex;
+            this.list.querySelectorAll('a[data-index]').forEach((link) => {
+                const isActive = Number(link.getAttribute('data-index')) === activeIndex;
+                link.classList.toggle('active', isActive);
+                if (isActive) {
+                    this.revealInSidebar(link);
+                }
+            });
+        },
+
+        /**
+         * Scroll the sidebar (not the preview) so that an entry is visible
+         */
+        revealInSidebar: function(link) {
+            const top = link.offsetTop;
+            const bottom = top + link.offsetHeight;
+            if (top < this.sidebar.scrollTop || bottom > this.sidebar.scrollTop + this.sidebar.clientHeight) {
+                this.sidebar.scrollTop = top - this.sidebar.clientHeight / 2;
+            }
+        }
+    };
+
+    // Expose to window for testing
+    window.outlineManager = outlineManager;
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => outlineManager.init());
+    } else {
+        outlineManager.init();
+    }
+})();
@@ -0,0 +1,98 @@
+// Persistent preview state (document, lock, scroll line, zoom)
+// Stored with vscodeApi.setState() so the extension's WebviewPanelSerializer
+// can restore the preview after a window reload.
+(function initializePreviewState() {
+    'use strict';
+
+    const MIN_ZOOM = 10;
+    const MAX_ZOOM = 1000;
+    const ZOOM_STEP = 10;
+
+    /**
+     * Preview State Manager
+     */
+    const previewState = {
+        state: window.vscodeApi.getState() || {},
+
+        init: function() {
+            const body = document.body;
+            // The zoom persisted by this webview survives full HTML rebuilds (theme or settings
+            // changes, reloads); data-zoom only provides the initial or restored level
+            const zoom = typeof this.state.zoom === 'number'
+                ? this.state.zoom
+                : parseInt(body.getAttribute('data-zoom') || '100', 10);
+
+            this.update({
+                documentUri: body.getAttribute('data-document-uri'),
+                locked: body.getAttribute('data-locked') === 'true'
+            });
+            this.setZoom(isNaN(zoom) ? 100 : zoom);
+
+            window.addEventListener('message', this.handleMessage.bind(this));
+            document.addEventListener('keydown', this.handleKeydown.bind(this));
+        },
+
+        /**
+         * Handle messages from the extension
+         */
+        handleMessage: function(event) {
+            const message = event.data;
+            if (!message || message.command !== 'setPanelState') return;
+
+            this.update(message.data);
+        },
+
+        /**
+         * Merge values into the persisted state
+         */
+        update: function(partial) {
+            this.state = Object.assign({}, this.state, partial);
+            window.vscodeApi.setState(this.state);
+        },
+
+        get: function() {
+            return this.state;
+        },
+
+        /**
+         * Apply a preview zoom level (percentage) and persist it
+         */
+        setZoom: function(zoom) {
+            const clamped = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+            const container = document.getElementById('preview-container');
+            if (container) {
+                container.style.zoom = `${clamped}%`;
+            }
+            this.update({ zoom: clamped });
+        },
+
+        /**
+         * Ctrl/Cmd +, -, 0 zoom the preview while the diagram modal is closed
+         */
+        handleKeydown: function(event) {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            if (window.modalZoomManager && window.modalZoomManager.isOpen()) return;
+
+            const zoom = this.state.zoom || 100;
+            if (event.key === '+' || event.key === '=') {
+                event.preventDefault();
+                this.setZoom(zoom + ZOOM_STEP);
+            } else if (event.key === '-') {
+                event.preventDefault();
+                this.setZoom(zoom - ZOOM_STEP);
+            } else if (event.key === '0') {
+                event.preventDefault();
+                this.setZoom(100);
+            }
+        }
+    };
+
+    // Expose to window for other preview scripts and testing
+    window.previewState = previewState;
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => previewState.init());
+    } else {
+        previewState.init();
+    }
+})();
@@ -0,0 +1,164 @@
+// Scroll synchronization between the editor and the preview
+(function initializeScrollSync() {
+    'use strict';
+
+    // Ignore scroll events caused by our own programmatic scrolling for this long
+    const PROGRAMMATIC_SCROLL_GRACE_MS = 100;
+    // Minimum interval between revealLine messages sent to the extension
+    const POST_THROTTLE_MS = 50;
+
+    /**
+     * Scroll Sync Manager
+     * Maps editor line numbers to preview offsets using data-line markers
+     */
+    const scrollSyncManager = {
+        suppressUntil: 0,
+        postTimer: null,
+
+        init: function() {
+            window.addEventListener('message', this.handleMessage.bind(this));
+            window.addEventListener('scroll', this.handleScroll.bind(this), { passive: true });
+
+            // Restore the editor position the extension embedded when generating the HTML
+            const initialLine = parseFloat(document.body.getAttribute('data-initial-line') || '');
+            if (!isNaN(initialLine)) {
+                this.scrollToLine(initialLine);
+            }
+        },
+
+        /**
+         * Handle messages from the extension
+         */
+        handleMessage: function(event) {
+            const message = event.data;
+            if (!message || message.command !== 'scrollToLine') return;
+
+            this.scrollToLine(message.data.line);
+        },
+
+        /**
+         * Collect all elements carrying a source line marker, in document order
+         */
+        getLineElements: function() {
+            const elements = [];
+            document.querySelectorAll('#preview-container [data-line]').forEach((element) => {
+                const line = parseInt(element.getAttribute('data-line'), 10);
+                if (!isNaN(line)) {
+                    elements.push({ element, line });
+                }
+            });
+            return elements;
+        },
+
+        /**
+         * Find the marked elements immediately before and after a source line
+         */
+        getElementsForLine: function(targetLine) {
+            const lineElements = this.getLineElements();
+            let previous = null;
+            for (const entry of lineElements) {
+                if (entry.line === targetLine) {
+                    return { previous: entry, next: null };
+                }
+                if (entry.line > targetLine) {
+                    return { previous, next: entry };
+                }
+                previous = entry;
+            }
+            return { previous, next: null };
+        },
+
+        /**
+         * Get the absolute vertical offset of an element in the document
+         */
+        getTop: function(element) {
+            return element.getBoundingClientRect().top + window.scrollY;
+        },
+
+        /**
+         * Scroll the preview so that the given (possibly fractional) source line is at the top
+         */
+        scrollToLine: function(line) {
+            if (line <= 0) {
+                this.scrollTo(0);
+                return;
+            }
+
+            const { previous, next } = this.getElementsForLine(Math.floor(line));
+            if (!previous) return;
+
+            const previousTop = this.getTop(previous.element);
+            let offset = previousTop;
+
+            if (next) {
+                // Interpolate between the two surrounding blocks
+                const progress = (line - previous.line) / (next.line - previous.line);
+                offset = previousTop + progress * (this.getTop(next.element) - previousTop);
+            } else {
+                // Interpolate within the block itself using its height
+                const fraction = line - Math.floor(line);
+                offset = previousTop + fraction * previous.element.getBoundingClientRect().height;
+            }
+
+            this.scrollTo(offset);
+        },
+
+        scrollTo: function(offset) {
+            this.suppressUntil = Date.now() + PROGRAMMATIC_SCROLL_GRACE_MS;
+            window.scrollTo(0, Math.max(0, offset));
+        },
+
+        /**
+         * Compute the (fractional) source line displayed at the top of the preview
+         */
+        getLineAtScrollTop: function() {
+            const scrollTop = window.scrollY;
+            const lineElements = this.getLineElements();
+            if (lineElements.length === 0) return null;
+
+            let previous = null;
+            for (const entry of lineElements) {
+                const top = this.getTop(entry.element);
+                if (top > scrollTop) {
+                    if (!previous) return entry.line;
+
+                    const previousTop = this.getTop(previous.element);
+                    const progress = top === previousTop ? 0 : (scrollTop - previousTop) / (top - previousTop);
+                    return previous.line + progress * (entry.line - previous.line);
+                }
+                previous = entry;
+            }
+            return previous.line;
+        },
+
+        /**
+         * Persist the preview scroll position and report it to the extension (throttled)
+         */
+        handleScroll: function() {
+            if (this.postTimer) return;
+
+            // Programmatic scrolls are persisted but not echoed back to the editor
+            const isProgrammatic = Date.now() < this.suppressUntil;
+
+            this.postTimer = setTimeout(() => {
+                this.postTimer = null;
+                const line = this.getLineAtScrollTop();
+                if (line === null) return;
+
+                window.previewState.update({ line });
+                if (!isProgrammatic) {
+                    window.vscodeApi.postMessage({ command: 'revealLine', data: { line } });
+                }
+            }, POST_THROTTLE_MS);
+        }
+    };
+
+    // Expose to window for testing
+    window.scrollSyncManager = scrollSyncManager;
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => scrollSyncManager.init());
+    } else {
+        scrollSyncManager.init();
+    }
+})();
@@ -0,0 +1,125 @@
+// Initialize Vega and Vega-Lite charts
+(function initializeVega() {
+    'use strict';
+
+    // Rendered Vega views by chart container, used to export charts
+    const views = new WeakMap();
+
+    // Escape HTML in error messages
+    const escapeHtml = (text) => {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    };
+
+    /**
+     * Compile a chart spec to a Vega runtime dataflow
+     */
+    function parseChart(mode, specJson) {
+        const spec = JSON.parse(specJson);
+        const vegaSpec = mode === 'vega-lite' ? vegaLite.compile(spec).spec : spec;
+        return vega.parse(vegaSpec);
+    }
+
+    /**
+     * Render one chart container into SVG
+     */
+    async function renderChart(container, specElement) {
+        // Claim the container so a concurrent update does not render it twice.
+        // dom-patcher has already recorded the block with its spec, so the block still
+        // matches the extension's HTML on the next update and the chart is kept.
+        specElement.remove();
+        const mode = container.getAttribute('data-diagram-type');
+
+        try {
+            const output = document.createElement('div');
+            output.className = 'vega-output';
+            container.appendChild(output);
+
+            const view = new vega.View(parseChart(mode, specElement.textContent), {
+                renderer: 'svg',
+                container: output,
+                hover: true
+            });
+            await view.runAsync();
+            views.set(container, view);
+        } catch (error) {
+            const errorDiv = document.createElement('div');
+            errorDiv.className = 'diagram-error vega-error';
+            errorDiv.style.cssText = 'border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;';
+            errorDiv.innerHTML = `
+                <strong style="color: #f85149;">Vega Chart Error</strong>
+                <p style="margin: 8px 0; color: #57606a;">${escapeHtml((error && error.message) || 'Failed to render chart')}</p>
+            `;
+            container.closest('.diagram-wrapper').replaceWith(errorDiv);
+        }
+    }
+
+    /**
+     * Render all charts that have not been rendered yet
+     */
+    function renderPendingCharts() {
+        document.querySelectorAll('.vega-container > script.vega-spec').forEach((specElement) => {
+            renderChart(specElement.parentElement, specElement);
+        });
+    }
+
+    /**
+     * Export a rendered chart through the extension (webviews cannot download files)
+     */
+    async function exportChart(button) {
+        const wrapper = button.closest('.diagram-wrapper');
+        const container = wrapper && wrapper.querySelector('.vega-container');
+        const view = container && views.get(container);
+        if (!view) return;
+
+        const format = button.getAttribute('data-format');
+        const content = format === 'png'
+            ? await view.toImageURL('png', 2)
+            : await view.toSVG();
+
+        window.vscodeApi.postMessage({
+            command: 'exportChart',
+            data: { format, content }
+        });
+    }
+
+    try {
+        renderPendingCharts();
+
+        // Render charts inserted by incremental content updates
+        document.addEventListener('preview:content-updated', renderPendingCharts);
+
+        document.addEventListener('click', (event) => {
+            const button = event.target.closest('.chart-export-button');
+            if (!button) return;
+
+            event.preventDefault();
+            event.stopPropagation();
+            exportChart(button).catch((error) => console.error('Failed to export chart:', error));
+        });
+
+        // Render chart specs to SVG on request (used by HTML/PDF export)
+        window.addEventListener('message', async (event) => {
+            const message = event.data;
+            if (!message || message.command !== 'renderVega') return;
+
+            const { requestId, charts } = message.data;
+            const results = [];
+
+            for (const chart of charts) {
+                try {
+                    const view = new vega.View(parseChart(chart.mode, chart.spec), { renderer: 'none' });
+                    results.push({ svg: await view.toSVG() });
+                    view.finalize();
+                } catch (error) {
+                    results.push({ error: (error && error.message) || 'Failed to render chart' });
+                }
+            }
+
+            window.vscodeApi.postMessage({ command: 'vegaRendered', data: { requestId, results } });
+        });
+    } catch (error) {
+        console.error('Failed to initialize Vega:', error);
+    }
+})();
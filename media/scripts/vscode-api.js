@@ -0,0 +1,11 @@
+// VS Code webview API handle
+// acquireVsCodeApi() may only be called once per webview, so it is acquired here
+// and shared with the other preview scripts through window.vscodeApi.
+(function acquireVsCodeApiHandle() {
+    try {
+        window.vscodeApi = acquireVsCodeApi();
+    } catch (error) {
+        console.error('Failed to acquire VS Code API:', error);
+        window.vscodeApi = { postMessage: () => {}, getState: () => undefined, setState: () => {} };
+    }
+})();
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+/**
+ * Copy third-party browser assets into media/vendor
+ * The webview loads these from the extension instead of a CDN so the preview works offline
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const rootDir = path.join(__dirname, '..');
+const vendorDir = path.join(rootDir, 'media', 'vendor');
+
+// [source in node_modules, destination path in media/vendor]
+const assets = [
+  ['mermaid/dist/mermaid.min.js', 'mermaid.min.js'],
+  ['katex/dist/katex.min.css', 'katex/katex.min.css'],
+  ['vega/build/vega.min.js', 'vega/vega.min.js'],
+  ['vega-lite/build/vega-lite.min.js', 'vega/vega-lite.min.js'],
+];
+
+// [package, directory in the package, destination directory in media/vendor, file filter]
+// Only WOFF2 fonts are copied: the webview picks the first format in each @font-face
+const directories = [['katex', 'dist/fonts', 'katex/fonts', (file) => file.endsWith('.woff2')]];
+
+/**
+ * Find an installed package's directory
+ * Resolved through the module search paths rather than require.resolve(), since
+ * packages with an "exports" map (e.g. vega) do not export their browser builds
+ */
+function getPackageDir(packageName) {
+  const searchPaths = require.resolve.paths(packageName) || [];
+  const packageDir = searchPaths
+    .map((searchPath) => path.join(searchPath, packageName))
+    .find((candidate) => fs.existsSync(path.join(candidate, 'package.json')));
+  if (!packageDir) {
+    throw new Error(`Cannot find package ${packageName}`);
+  }
+  return packageDir;
+}
+
+fs.mkdirSync(vendorDir, { recursive: true });
+
+for (const [source, destination] of assets) {
+  const [packageName, ...file] = source.split('/');
+  const sourcePath = path.join(getPackageDir(packageName), ...file);
+  const destinationPath = path.join(vendorDir, destination);
+  fs.mkdirSync(path.dirname(destinationPath), { recursive: true });
+  fs.copyFileSync(sourcePath, destinationPath);
+  console.log(`✓ Copied ${source} to media/vendor/${destination}`);
+}
+
+for (const [packageName, directory, destination, filter] of directories) {
+  const sourceDir = path.join(getPackageDir(packageName), directory);
+  const destinationDir = path.join(vendorDir, destination);
+  fs.mkdirSync(destinationDir, { recursive: true });
+
+  const files = fs.readdirSync(sourceDir).filter(filter);
+  for (const file of files) {
+    fs.copyFileSync(path.join(sourceDir, file), path.join(destinationDir, file));
+  }
+  console.log(`✓ Copied ${files.length} files from ${packageName}/${directory} to media/vendor/${destination}`);
+}
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+
+/**
+ * Generate src/markdown/highlightLanguages.ts
+ * highlight.js only knows a language's aliases after the language is loaded, so
+ * SyntaxHighlighter uses this index to load a language on demand from an alias.
+ * Each language gets its own require() because webpack cannot bundle a dynamic
+ * require of highlight.js/lib/languages (the path is hidden by the package exports)
+ * Run again after upgrading highlight.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const hljs = require('highlight.js/lib/core');
+
+const rootDir = path.join(__dirname, '..');
+const languagesDir = path.join(path.dirname(require.resolve('highlight.js/lib/core')), 'languages');
+const outputPath = path.join(rootDir, 'src', 'markdown', 'highlightLanguages.ts');
+const version = require('highlight.js/package.json').version;
+
+// Language modules, without the deprecated "*.js.js" re-exports
+const languages = fs
+  .readdirSync(languagesDir)
+  .filter((file) => /^[\w-]+\.js$/.test(file))
+  .map((file) => file.slice(0, -'.js'.length))
+  .sort();
+
+// Later languages win on conflicts, as when highlight.js registers every language
+const aliases = {};
+for (const language of languages) {
+  const definition = require(path.join(languagesDir, language))(hljs);
+  for (const alias of definition.aliases || []) {
+    const normalized = alias.toLowerCase();
+    if (!languages.includes(normalized)) {
+      aliases[normalized] = language;
+    }
+  }
+}
+
+const quoteKey = (key) => (/^[a-z_]\w*$/.test(key) ? key : `'${key}'`);
+
+const entries = Object.keys(aliases)
+  .sort()
+  .map((alias) => `  ${quoteKey(alias)}: '${aliases[alias]}',`);
+
+const loaders = languages.map(
+  (language) => `  ${quoteKey(language)}: () => require('highlight.js/lib/languages/${language}'),`
+);
+
+const content = `// Generated by scripts/generate-highlight-languages.js from highlight.js ${version}. Do not edit.
+/* eslint-disable @typescript-eslint/no-var-requires */
+import type { LanguageFn } from 'highlight.js';
+
+/**
+ * highlight.js languages by name, each loaded on first call.
+ */
+export const HIGHLIGHT_LANGUAGES: { readonly [name: string]: () => LanguageFn } = {
+${loaders.join('\n')}
+};
+
+/**
+ * Fence aliases of highlight.js languages, mapped to the language name.
+ */
+export const HIGHLIGHT_LANGUAGE_ALIASES: { readonly [alias: string]: string } = {
+${entries.join('\n')}
+};
+`;
+
+fs.writeFileSync(outputPath, content);
+console.log(`✓ Wrote ${languages.length} languages and ${entries.length} aliases to ${path.relative(rootDir, outputPath)}`);
@@ -22,6 +22,7 @@ jest.mock('vscode', () => ({
         return defaultValue;
       }),
     })),
+    openTextDocument: jest.fn(),
   },
   window: {
     activeColorTheme: {
@@ -36,5 +37,6 @@ jest.mock('vscode', () => ({
   },
   Uri: {
     file: jest.fn((path: string) => ({ fsPath: path })),
+    parse: jest.fn((value: string) => ({ toString: (): string => value })),
   },
 }), { virtual: true });
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { DiagramRenderer } from './renderers/DiagramRenderer';
+
+export type {
+  DiagramCachePolicy,
+  DiagramRenderContext,
+  DiagramRenderer,
+  DiagramRendererAssets,
+  DiagramRuntime,
+} from './renderers/DiagramRenderer';
+
+/**
+ * Public API returned from activate().
+ *
+ * Other extensions obtain it with
+ * `vscode.extensions.getExtension('MasanaoOhbaAzurePublisher.md-previewer')?.activate()`.
+ */
+export interface MarkdownPreviewerApi {
+  /**
+   * Register a renderer for diagram fences, e.g. ```` ```vega ```` or ```` ```d2 ````.
+   *
+   * Open previews are rebuilt so the new renderer and its webview assets take effect.
+   *
+   * @param renderer - Renderer to register
+   * @returns Disposable that unregisters the renderer
+   */
+  registerDiagramRenderer(renderer: DiagramRenderer): vscode.Disposable;
+}
@@ -0,0 +1,311 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { MarkdownProcessor } from '../markdown/MarkdownProcessor';
+import { FrontMatter } from '../markdown/FrontMatter';
+import { MarkdownExtensions } from '../markdown/MarkdownExtensions';
+import { MermaidRenderer, MermaidSvgResult } from '../renderers/MermaidRenderer';
+import { PlantUMLRenderer } from '../renderers/PlantUMLRenderer';
+import { VegaChartSpec, VegaMode, VegaRenderer, VegaSvgResult } from '../renderers/VegaRenderer';
+import { ThemeManager } from '../themes/ThemeManager';
+
+/**
+ * Options for exporting a Markdown document to standalone HTML.
+ */
+export interface HtmlExportOptions {
+  /** Document title used for the <title> element */
+  title: string;
+  /** Theme name (see ThemeManager.AVAILABLE_THEMES), unless the front matter sets a theme */
+  themeName: string;
+  /** How front matter is shown (see ProcessOptions.frontMatter) */
+  frontMatter?: 'table' | 'hide';
+  /** Absolute path of the source Markdown file, for resolving local includes and images */
+  documentPath?: string;
+  /** Absolute paths of the workspace folders, for image paths starting with `/` */
+  workspaceRoots?: string[];
+  /**
+   * Render Mermaid sources to SVG.
+   *
+   * Mermaid needs a browser DOM, so the extension delegates this to the preview webview.
+   */
+  renderMermaid: (sources: string[]) => Promise<MermaidSvgResult[]>;
+  /**
+   * Render Vega and Vega-Lite charts to SVG.
+   *
+   * Charts are drawn by the preview webview's Vega instance, like Mermaid diagrams.
+   */
+  renderVega: (charts: VegaChartSpec[]) => Promise<VegaSvgResult[]>;
+}
+
+/**
+ * Exports Markdown documents to self-contained HTML files.
+ *
+ * The exported file uses the same MarkdownProcessor output as the preview, with
+ * the active theme CSS inlined and all Mermaid and PlantUML diagrams and Vega charts
+ * pre-rendered into inline SVG, so it can be opened without VS Code or network access. Local
+ * images are embedded as data URIs, and documents with math also get the KaTeX stylesheet with
+ * its fonts embedded.
+ */
+export class HtmlExporter {
+  private readonly processor: MarkdownProcessor;
+  private readonly context: vscode.ExtensionContext;
+
+  // MIME types of embedded local images
+  private static readonly IMAGE_TYPES: { [extension: string]: string } = {
+    '.apng': 'image/apng',
+    '.avif': 'image/avif',
+    '.bmp': 'image/bmp',
+    '.gif': 'image/gif',
+    '.ico': 'image/x-icon',
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.png': 'image/png',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+  };
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+    this.processor = new MarkdownProcessor({ extensions: MarkdownExtensions.getSettings() });
+  }
+
+  /**
+   * Render a Markdown document to a complete standalone HTML document.
+   *
+   * @param markdown - Source Markdown text
+   * @param options - Export options
+   * @returns Promise resolving to the full HTML document
+   */
+  public async export(markdown: string, options: HtmlExportOptions): Promise<string> {
+    const result = await this.processor.process(markdown, {
+      documentPath: options.documentPath,
+      frontMatter: options.frontMatter,
+      workspaceRoots: options.workspaceRoots,
+      // Embedded, so images still show when the file is saved elsewhere or printed to PDF
+      resourceUrl: (filePath) => this.toDataUri(filePath),
+    });
+
+    let html = await this.inlineMermaidDiagrams(result.html, options.renderMermaid);
+    html = await this.inlinePlantUMLDiagrams(html);
+    html = await this.inlineVegaCharts(html, options.renderVega);
+    html = this.removeInteractiveElements(html);
+
+    const frontMatterTheme = FrontMatter.getPreviewOptions(result.frontMatter).theme;
+    const themeName =
+      frontMatterTheme && ThemeManager.isValidTheme(frontMatterTheme) ? frontMatterTheme : options.themeName;
+    const themeContent = ThemeManager.getThemeContent(this.context, themeName);
+    return this.wrapDocument(html, themeContent + this.getMathStyles(html), options.title);
+  }
+
+  /**
+   * Replace Mermaid source containers with SVG rendered by the given renderer.
+   *
+   * @param html - Processed HTML
+   * @param renderMermaid - Mermaid SVG renderer
+   * @returns HTML with inline Mermaid SVGs (or error boxes for failed diagrams)
+   */
+  private async inlineMermaidDiagrams(
+    html: string,
+    renderMermaid: HtmlExportOptions['renderMermaid']
+  ): Promise<string> {
+    const mermaidPattern = /<pre class="mermaid" id="[^"]*">([\s\S]*?)<\/pre>/g;
+
+    const sources = Array.from(html.matchAll(mermaidPattern), (match) =>
+      this.unescapeHtml(match[1])
+    );
+    if (sources.length === 0) {
+      return html;
+    }
+
+    const results = await renderMermaid(sources);
+
+    let index = 0;
+    return html.replace(mermaidPattern, () => {
+      const source = sources[index];
+      const result = results[index++];
+      if (result && result.svg) {
+        return result.svg;
+      }
+      return MermaidRenderer.renderError(result?.error ?? 'Failed to render diagram', source);
+    });
+  }
+
+  /**
+   * Replace Vega chart specs with SVG rendered by the given renderer.
+   *
+   * @param html - Processed HTML
+   * @param renderVega - Vega SVG renderer
+   * @returns HTML with inline chart SVGs (or error boxes for failed charts)
+   */
+  private async inlineVegaCharts(html: string, renderVega: HtmlExportOptions['renderVega']): Promise<string> {
+    const chartPattern =
+      /(<div class="diagram-clickable vega-container"[^>]*data-diagram-type="(vega|vega-lite)">)\s*<script type="application\/json" class="vega-spec">([\s\S]*?)<\/script>/g;
+
+    const charts = Array.from(html.matchAll(chartPattern), (match) => ({
+      mode: match[2] as VegaMode,
+      spec: match[3],
+    }));
+    if (charts.length === 0) {
+      return html;
+    }
+
+    const results = await renderVega(charts);
+
+    let index = 0;
+    return html.replace(chartPattern, (_match, containerStart: string) => {
+      const result = results[index++];
+      if (result && result.svg) {
+        return containerStart + result.svg;
+      }
+      return containerStart + VegaRenderer.renderError(result?.error ?? 'Failed to render chart');
+    });
+  }
+
+  /**
+   * Replace PlantUML online images with the SVG fetched from the server.
+   *
+   * Local mode output is already inline SVG and is left untouched. If a diagram
+   * cannot be fetched, the image reference is kept as a fallback.
+   *
+   * @param html - Processed HTML
+   * @returns HTML with inline PlantUML SVGs
+   */
+  private async inlinePlantUMLDiagrams(html: string): Promise<string> {
+    const imagePattern = /<img\s+id="plantuml-\d+"\s+src="([^"]+)"[\s\S]*?\/>/g;
+
+    const urls = Array.from(html.matchAll(imagePattern), (match) => match[1]);
+    if (urls.length === 0) {
+      return html;
+    }
+
+    const svgs = await Promise.all(urls.map((url) => PlantUMLRenderer.fetchOnlineSvg(url)));
+
+    let index = 0;
+    return html.replace(imagePattern, (match) => {
+      const svg = svgs[index++];
+      return svg ?? match;
+    });
+  }
+
+  /**
+   * Read a local image into a data URI.
+   *
+   * @param filePath - Absolute path of the image
+   * @returns Data URI, or a file URL if the image cannot be read
+   */
+  private toDataUri(filePath: string): string {
+    const type = HtmlExporter.IMAGE_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+    try {
+      return `data:${type};base64,${fs.readFileSync(filePath).toString('base64')}`;
+    } catch (error) {
+      console.warn(`[HtmlExporter] Cannot embed image ${filePath}:`, error);
+      return pathToFileURL(filePath).href;
+    }
+  }
+
+  /**
+   * Get the KaTeX stylesheet with its fonts embedded as data URIs.
+   *
+   * Only the WOFF2 fonts are embedded; the other font formats are dropped from
+   * the @font-face rules.
+   *
+   * @param html - Processed HTML
+   * @returns KaTeX CSS, or an empty string if the document has no math
+   */
+  private getMathStyles(html: string): string {
+    if (!html.includes('class="katex')) {
+      return '';
+    }
+
+    const katexDir = path.join(this.context.extensionPath, 'media', 'vendor', 'katex');
+    try {
+      const css = fs.readFileSync(path.join(katexDir, 'katex.min.css'), 'utf-8');
+      const inlined = css.replace(
+        /src:url\(fonts\/([^)]+\.woff2)\) format\("woff2"\)[^;}]*/g,
+        (_match, file: string) => {
+          const font = fs.readFileSync(path.join(katexDir, 'fonts', file)).toString('base64');
+          return `src:url(data:font/woff2;base64,${font}) format("woff2")`;
+        }
+      );
+      return `\n${inlined}`;
+    } catch (error) {
+      console.warn('[HtmlExporter] KaTeX styles not found, math is exported without them:', error);
+      return '';
+    }
+  }
+
+  /**
+   * Remove preview-only controls (copy and chart export buttons) that need the webview scripts.
+   *
+   * @param html - Processed HTML
+   * @returns HTML without interactive controls
+   */
+  private removeInteractiveElements(html: string): string {
+    return html
+      .replace(/<button class="copy-code-button"[\s\S]*?<\/button>/g, '')
+      .replace(/<div class="code-copy-buttons"><\/div>/g, '')
+      .replace(/<div class="chart-export-buttons">[\s\S]*?<\/div>/g, '');
+  }
+
+  /**
+   * Wrap rendered content in a complete HTML document.
+   *
+   * @param contentHtml - Rendered body HTML
+   * @param themeContent - Theme CSS
+   * @param title - Document title
+   * @returns Complete HTML document
+   */
+  private wrapDocument(contentHtml: string, themeContent: string, title: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${this.escapeHtml(title)}</title>
+    <style>
+        ${themeContent}
+    </style>
+</head>
+<body>
+    <div id="preview-container">
+        ${contentHtml}
+    </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Decode the HTML entities produced by escapeHtml.
+   *
+   * @param text - Escaped text
+   * @returns Original text
+   */
+  private unescapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&amp;': '&',
+      '&lt;': '<',
+      '&gt;': '>',
+      '&quot;': '"',
+      '&#039;': "'",
+    };
+    return text.replace(/&(amp|lt|gt|quot|#039);/g, (entity) => map[entity]);
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (char) => map[char]);
+  }
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import type { PaperFormat } from 'puppeteer-core';
+import { HtmlExporter, HtmlExportOptions } from './HtmlExporter';
+import { BrowserDetector } from '../utils/BrowserDetector';
+
+/**
+ * Page margins for PDF export (CSS lengths, e.g. "20mm").
+ */
+export interface PdfMargins {
+  top: string;
+  right: string;
+  bottom: string;
+  left: string;
+}
+
+/**
+ * Options for exporting a Markdown document to PDF.
+ */
+export interface PdfExportOptions extends HtmlExportOptions {
+  /** Absolute path of the PDF file to write */
+  outputPath: string;
+  /** Page size, e.g. "A4" or "Letter" */
+  format: string;
+  margin: PdfMargins;
+  /** Show header and footer templates on every page */
+  displayHeaderFooter: boolean;
+  /** Chromium header template (supports pageNumber, totalPages, title, date classes) */
+  headerTemplate: string;
+  /** Chromium footer template (supports pageNumber, totalPages, title, date classes) */
+  footerTemplate: string;
+  /** Insert a table of contents built from the document headings */
+  tableOfContents: boolean;
+  /** Browser executable path (empty = auto-detect) */
+  executablePath: string;
+}
+
+/**
+ * Heading collected for the table of contents.
+ */
+interface TocHeading {
+  level: number;
+  id: string;
+  text: string;
+}
+
+/**
+ * Exports Markdown documents to PDF using a headless Chromium-based browser.
+ *
+ * The PDF is printed from the same standalone HTML produced by HtmlExporter,
+ * so theme, syntax highlighting and diagrams match the preview.
+ */
+export class PdfExporter {
+  private readonly htmlExporter: HtmlExporter;
+
+  // Print-only CSS: avoid splitting code blocks and diagrams across pages
+  private static readonly PRINT_CSS = `
+    @media print {
+      body { max-width: none; }
+      pre, .code-block-wrapper, .diagram-wrapper, table, img, svg { page-break-inside: avoid; }
+      h1, h2, h3, h4, h5, h6 { page-break-after: avoid; }
+      .pdf-toc { page-break-after: always; }
+    }`;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.htmlExporter = new HtmlExporter(context);
+  }
+
+  /**
+   * Render a Markdown document and write it to a PDF file.
+   *
+   * @param markdown - Source Markdown text
+   * @param options - PDF export options
+   */
+  public async export(markdown: string, options: PdfExportOptions): Promise<void> {
+    const executablePath = BrowserDetector.findExecutable(options.executablePath);
+    if (!executablePath) {
+      throw new Error(
+        options.executablePath
+          ? `Browser executable not found: ${options.executablePath}`
+          : 'No Chrome, Edge or Chromium installation found. Set "markdownPreviewer.pdf.executablePath".'
+      );
+    }
+
+    let html = await this.htmlExporter.export(markdown, options);
+    html = html.replace('</head>', `<style>${PdfExporter.PRINT_CSS}</style>\n</head>`);
+    if (options.tableOfContents) {
+      html = this.insertTableOfContents(html);
+    }
+
+    // Loaded lazily: puppeteer-core is only needed when a PDF is actually exported
+    const puppeteer = await import('puppeteer-core');
+    const browser = await puppeteer.launch({ executablePath, headless: true });
+
+    try {
+      const page = await browser.newPage();
+      await page.setContent(html, { waitUntil: 'networkidle0' });
+      await page.pdf({
+        path: options.outputPath,
+        format: options.format as PaperFormat,
+        margin: options.margin,
+        printBackground: true,
+        displayHeaderFooter: options.displayHeaderFooter,
+        headerTemplate: options.headerTemplate,
+        footerTemplate: options.footerTemplate,
+      });
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Insert a nested table of contents at the top of the document.
+   *
+   * Headings receive generated IDs so the entries link to them in the PDF.
+   *
+   * @param html - Complete HTML document
+   * @returns HTML with the table of contents inserted
+   */
+  public insertTableOfContents(html: string): string {
+    const headings: TocHeading[] = [];
+    let counter = 0;
+
+    const withIds = html.replace(
+      /<h([1-6])([^>]*)>([\s\S]*?)<\/h\1>/g,
+      (match, level: string, attributes: string, content: string) => {
+        if (/\sid="/.test(attributes)) {
+          const existingId = attributes.match(/\sid="([^"]*)"/)?.[1] ?? '';
+          headings.push({ level: Number(level), id: existingId, text: this.stripTags(content) });
+          return match;
+        }
+
+        const id = `pdf-heading-${counter++}`;
+        headings.push({ level: Number(level), id, text: this.stripTags(content) });
+        return `<h${level}${attributes} id="${id}">${content}</h${level}>`;
+      }
+    );
+
+    if (headings.length === 0) {
+      return html;
+    }
+
+    const toc = `<nav class="pdf-toc">\n<h1>Table of Contents</h1>\n${this.renderTocList(headings)}\n</nav>`;
+    return withIds.replace(/(<div id="preview-container">)/, `$1\n${toc}`);
+  }
+
+  /**
+   * Render headings as nested unordered lists.
+   *
+   * @param headings - Headings in document order
+   * @returns HTML list markup
+   */
+  private renderTocList(headings: TocHeading[]): string {
+    const minLevel = Math.min(...headings.map((heading) => heading.level));
+    let depth = 0;
+    let result = '';
+
+    headings.forEach((heading) => {
+      const targetDepth = heading.level - minLevel + 1;
+      while (depth < targetDepth) {
+        result += '<ul>';
+        depth++;
+      }
+      while (depth > targetDepth) {
+        result += '</ul>';
+        depth--;
+      }
+      result += `<li><a href="#${heading.id}">${heading.text}</a></li>`;
+    });
+
+    while (depth > 0) {
+      result += '</ul>';
+      depth--;
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove HTML tags from heading content, keeping the (already escaped) text.
+   *
+   * @param html - Heading inner HTML
+   * @returns Text content
+   */
+  private stripTags(html: string): string {
+    return html.replace(/<[^>]+>/g, '').trim();
+  }
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HtmlExporter } from '../HtmlExporter';
+
+/**
+ * Test suite for HtmlExporter.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Exported HTML is a complete document with the theme CSS inlined
+ * - Mermaid and PlantUML diagrams and Vega charts are replaced with inline SVG
+ * - Failed diagrams degrade to visible errors or image references
+ * - Preview-only controls are stripped from the export
+ */
+describe('HtmlExporter', () => {
+  const mockContext = {
+    extensionPath: path.join(__dirname, '../../..'),
+  } as unknown as ConstructorParameters<typeof HtmlExporter>[0];
+
+  let exporter: HtmlExporter;
+  let renderMermaid: jest.Mock;
+  let renderVega: jest.Mock;
+  let fetchSpy: jest.SpyInstance<Promise<Response>, Parameters<typeof fetch>>;
+
+  beforeEach(() => {
+    exporter = new HtmlExporter(mockContext);
+    renderMermaid = jest.fn(async (sources: string[]) =>
+      sources.map((_source, index) => ({ svg: `<svg id="rendered-${index}"></svg>` }))
+    );
+    renderVega = jest.fn(async (charts: unknown[]) =>
+      charts.map((_chart, index) => ({ svg: `<svg id="chart-${index}"></svg>` }))
+    );
+    fetchSpy = jest
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response('<?xml version="1.0"?><svg id="plantuml-svg"></svg>'));
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  const exportMarkdown = (markdown: string): Promise<string> =>
+    exporter.export(markdown, { title: 'doc.md', themeName: 'github-light', renderMermaid, renderVega });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The export is a standalone document with inlined theme CSS
+   */
+  test('should produce a complete HTML document with theme CSS', async () => {
+    const html = await exportMarkdown('# Title');
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>doc.md</title>');
+    expect(html).toContain('GitHub Light Theme');
+    expect(html).toContain('<h1 id="title">Title</h1>');
+    expect(html).not.toContain('<script');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Mermaid sources are passed unescaped to the renderer
+   * - Rendered SVG replaces the Mermaid source container
+   */
+  test('should inline rendered Mermaid SVG', async () => {
+    const html = await exportMarkdown('```mermaid\ngraph TD\n  A --> B\n```');
+
+    expect(renderMermaid).toHaveBeenCalledWith(['graph TD\n  A --> B\n']);
+    expect(html).toContain('<svg id="rendered-0"></svg>');
+    expect(html).not.toContain('<pre class="mermaid"');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A failed Mermaid diagram shows an error instead of breaking the export
+   */
+  test('should render Mermaid errors inline', async () => {
+    renderMermaid.mockResolvedValueOnce([{ error: 'Parse error on line 2' }]);
+
+    const html = await exportMarkdown('```mermaid\ngraph TD\n  A -->\n```');
+
+    expect(html).toContain('Mermaid Diagram Error');
+    expect(html).toContain('Parse error on line 2');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Vega-Lite and Vega specs are passed to the renderer with their grammar
+   * - Rendered SVG replaces the spec, failed charts show an error
+   * - Chart export buttons, which need the webview scripts, are not exported
+   */
+  test('should inline rendered Vega charts', async () => {
+    renderVega.mockResolvedValueOnce([{ svg: '<svg id="chart-0"></svg>' }, { error: 'Unknown mark' }]);
+
+    const html = await exportMarkdown(
+      '```vega-lite\n{"mark": "bar"}\n```\n\n```vega\n{"marks": [{"type": "sparkle"}]}\n```'
+    );
+
+    expect(renderVega).toHaveBeenCalledWith([
+      { mode: 'vega-lite', spec: '{"mark":"bar"}' },
+      { mode: 'vega', spec: '{"marks":[{"type":"sparkle"}]}' },
+    ]);
+    expect(html).toContain('<svg id="chart-0"></svg>');
+    expect(html).toContain('Vega Chart Error');
+    expect(html).toContain('Unknown mark');
+    expect(html).not.toContain('vega-spec');
+    expect(html).not.toContain('<div class="chart-export-buttons">');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Online PlantUML images are replaced with the fetched SVG
+   */
+  test('should inline PlantUML SVG fetched from the server', async () => {
+    const html = await exportMarkdown('```plantuml\n@startuml\nA -> B\n@enduml\n```');
+
+    expect(fetchSpy).toHaveBeenCalledWith(
+      expect.stringContaining('https://www.plantuml.com/plantuml/svg/'),
+      expect.anything()
+    );
+    expect(html).toContain('<svg id="plantuml-svg"></svg>');
+    expect(html).not.toContain('<?xml');
+    expect(html).not.toMatch(/<img\s+id="plantuml-/);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - An unreachable PlantUML server does not fail the whole export
+   */
+  test('should keep the PlantUML image when fetching fails', async () => {
+    fetchSpy.mockRejectedValueOnce(new Error('offline'));
+
+    const html = await exportMarkdown('```plantuml\n@startuml\nA -> B\n@enduml\n```');
+
+    expect(html).toMatch(/<img\s+id="plantuml-\d+"/);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Copy buttons, which need the webview scripts, are not exported
+   * - The button container of diff blocks is removed with them
+   */
+  test('should remove copy buttons', async () => {
+    const html = await exportMarkdown('```js\nconst x = 1;\n```\n\n```diff-js\n+const y = 2;\n```');
+
+    expect(html).not.toContain('<button class="copy-code-button"');
+    expect(html).not.toContain('<div class="code-copy-buttons">');
+    expect(html).toContain('code-block-wrapper');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Relative and workspace-relative images are embedded, so the export (and the PDF
+   *   printed from it) shows them wherever the file is saved
+   */
+  test('should embed local images as data URIs', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'md-export-images-'));
+    fs.mkdirSync(path.join(workspace, 'docs', 'assets'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'docs', 'assets', 'x.png'), 'png-data');
+
+    try {
+      const html = await exporter.export('![Shot](assets/x.png)\n\n<img src="/docs/assets/x.png">', {
+        title: 'guide.md',
+        themeName: 'github-light',
+        documentPath: path.join(workspace, 'docs', 'guide.md'),
+        workspaceRoots: [workspace],
+        renderMermaid,
+        renderVega,
+      });
+
+      const dataUri = `data:image/png;base64,${Buffer.from('png-data').toString('base64')}`;
+      expect(html).toContain(`<img src="${dataUri}" alt="Shot">`);
+      expect(html).toContain(`<img src="${dataUri}">`);
+      expect(html).not.toContain('assets/x.png');
+    } finally {
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Documents with math get the KaTeX stylesheet with WOFF2 fonts as data URIs
+   * - Documents without math do not carry the KaTeX stylesheet
+   */
+  test('should embed KaTeX styles and fonts only for documents with math', async () => {
+    const extensionPath = fs.mkdtempSync(path.join(os.tmpdir(), 'md-export-katex-'));
+    const fontsDir = path.join(extensionPath, 'media', 'vendor', 'katex', 'fonts');
+    fs.mkdirSync(fontsDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(extensionPath, 'media', 'vendor', 'katex', 'katex.min.css'),
+      '@font-face{font-family:KaTeX_Main;src:url(fonts/KaTeX_Main-Regular.woff2) format("woff2"),url(fonts/KaTeX_Main-Regular.woff) format("woff")}.katex{font:normal 1.21em KaTeX_Main}'
+    );
+    fs.writeFileSync(path.join(fontsDir, 'KaTeX_Main-Regular.woff2'), 'font-data');
+
+    try {
+      const mathExporter = new HtmlExporter(
+        { extensionPath } as unknown as ConstructorParameters<typeof HtmlExporter>[0]
+      );
+      const options = { title: 'doc.md', themeName: 'github-light', renderMermaid, renderVega };
+
+      const html = await mathExporter.export('Area: $\\pi r^2$', options);
+      expect(html).toContain(
+        `src:url(data:font/woff2;base64,${Buffer.from('font-data').toString('base64')}) format("woff2")}`
+      );
+      expect(html).not.toContain('url(fonts/');
+
+      const plain = await mathExporter.export('No formulas here', options);
+      expect(plain).not.toContain('KaTeX_Main');
+    } finally {
+      fs.rmSync(extensionPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import * as path from 'path';
+import { PdfExporter, PdfExportOptions } from '../PdfExporter';
+import { BrowserDetector } from '../../utils/BrowserDetector';
+
+/**
+ * The parts of a puppeteer page used by PdfExporter.
+ */
+interface FakePage {
+  setContent: jest.Mock;
+  pdf: jest.Mock;
+}
+
+/**
+ * The parts of a puppeteer browser used by PdfExporter.
+ */
+interface FakeBrowser {
+  newPage: () => Promise<FakePage>;
+  close: jest.Mock;
+}
+
+const mockPdf = jest.fn();
+const mockSetContent = jest.fn();
+const mockClose = jest.fn();
+const mockLaunch = jest.fn(
+  async (): Promise<FakeBrowser> => ({
+    newPage: async (): Promise<FakePage> => ({ setContent: mockSetContent, pdf: mockPdf }),
+    close: mockClose,
+  })
+);
+
+jest.mock('puppeteer-core', () => ({ launch: mockLaunch }));
+
+/**
+ * Test suite for PdfExporter.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - The exported HTML is printed with the configured page settings
+ * - The browser is always closed, even when printing fails
+ * - A missing browser produces an actionable error
+ * - The table of contents links to the document headings
+ */
+describe('PdfExporter', () => {
+  const mockContext = {
+    extensionPath: path.join(__dirname, '../../..'),
+  } as unknown as ConstructorParameters<typeof PdfExporter>[0];
+
+  const baseOptions: PdfExportOptions = {
+    title: 'doc.md',
+    themeName: 'github-light',
+    renderMermaid: async (sources) => sources.map(() => ({ svg: '<svg></svg>' })),
+    renderVega: async (charts) => charts.map(() => ({ svg: '<svg></svg>' })),
+    outputPath: '/tmp/doc.pdf',
+    format: 'Letter',
+    margin: { top: '1in', right: '1in', bottom: '1in', left: '1in' },
+    displayHeaderFooter: true,
+    headerTemplate: '<span class="title"></span>',
+    footerTemplate: '<span class="pageNumber"></span>',
+    tableOfContents: false,
+    executablePath: '',
+  };
+
+  let exporter: PdfExporter;
+
+  beforeEach(() => {
+    exporter = new PdfExporter(mockContext);
+    jest.clearAllMocks();
+    jest.spyOn(BrowserDetector, 'findExecutable').mockReturnValue('/usr/bin/chromium');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Page size, margins and header/footer settings reach the browser
+   */
+  test('should print the exported HTML with the configured page settings', async () => {
+    await exporter.export('# Title', baseOptions);
+
+    expect(mockLaunch).toHaveBeenCalledWith({ executablePath: '/usr/bin/chromium', headless: true });
+    expect(mockSetContent).toHaveBeenCalledWith(expect.stringContaining('<h1 id="title">Title</h1>'), {
+      waitUntil: 'networkidle0',
+    });
+    expect(mockPdf).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: '/tmp/doc.pdf',
+        format: 'Letter',
+        margin: baseOptions.margin,
+        displayHeaderFooter: true,
+        footerTemplate: '<span class="pageNumber"></span>',
+      })
+    );
+    expect(mockClose).toHaveBeenCalled();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The headless browser process is not leaked on failure
+   */
+  test('should close the browser when printing fails', async () => {
+    mockPdf.mockRejectedValueOnce(new Error('print failed'));
+
+    await expect(exporter.export('# Title', baseOptions)).rejects.toThrow('print failed');
+    expect(mockClose).toHaveBeenCalled();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Users without a browser get a message pointing at the setting
+   */
+  test('should fail with a helpful message when no browser is found', async () => {
+    (BrowserDetector.findExecutable as jest.Mock).mockReturnValue(null);
+
+    await expect(exporter.export('# Title', baseOptions)).rejects.toThrow(
+      'markdownPreviewer.pdf.executablePath'
+    );
+    expect(mockLaunch).not.toHaveBeenCalled();
+  });
+
+  describe('insertTableOfContents', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - TOC entries are nested by heading level and link to heading IDs
+     */
+    test('should insert a nested table of contents linked to headings', () => {
+      const html = exporter.insertTableOfContents(
+        '<div id="preview-container">\n<h1>Intro</h1><h2>Design <code>A</code></h2><h1>End</h1></div>'
+      );
+
+      expect(html).toContain('<h1 id="pdf-heading-0">Intro</h1>');
+      expect(html).toContain('<h2 id="pdf-heading-1">Design <code>A</code></h2>');
+      expect(html).toContain(
+        '<ul><li><a href="#pdf-heading-0">Intro</a></li><ul><li><a href="#pdf-heading-1">Design A</a></li></ul><li><a href="#pdf-heading-2">End</a></li></ul>'
+      );
+      expect(html.indexOf('pdf-toc')).toBeLessThan(html.indexOf('<h1 id="pdf-heading-0">'));
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Documents without headings are left unchanged
+     */
+    test('should leave documents without headings unchanged', () => {
+      const input = '<div id="preview-container"><p>Text</p></div>';
+
+      expect(exporter.insertTableOfContents(input)).toBe(input);
+    });
+  });
+});
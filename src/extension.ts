@@ -1,21 +1,44 @@
 import * as vscode from 'vscode';
-import { PreviewPanel } from './preview/PreviewPanel';
+import * as path from 'path';
+import { PreviewPanel, PreviewPanelState } from './preview/PreviewPanel';
+import { PreviewManager } from './preview/PreviewManager';
+import { HtmlExporter } from './export/HtmlExporter';
+import { PdfExporter, PdfMargins } from './export/PdfExporter';
 import { PlantUMLServer } from './services/PlantUMLServer';
 import { PlantUMLRenderer } from './renderers/PlantUMLRenderer';
+import { MermaidRenderer } from './renderers/MermaidRenderer';
+import { GraphvizRenderer } from './renderers/GraphvizRenderer';
+import { DiagramRendererRegistry } from './renderers/DiagramRendererRegistry';
+import { DiagramCache } from './services/DiagramCache';
 import { JavaDetector } from './utils/JavaDetector';
+import { MarkdownPreviewerApi } from './api';
 
-let currentPanel: PreviewPanel | undefined;
+let previewManager: PreviewManager | undefined;
 let plantUMLServer: PlantUMLServer | undefined;
+let diagramCache: DiagramCache | undefined;
 
 /**
  * Extension activation entry point.
  * Called when the extension is activated (on opening a Markdown file).
  *
  * @param context - Extension context provided by VSCode
+ * @returns Public API for other extensions
  */
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<MarkdownPreviewerApi> {
   console.log('Markdown Preview Enhanced extension activated');
 
+  const manager = new PreviewManager(context);
+  previewManager = manager;
+
+  // Share one rendered-diagram cache between the PlantUML and Mermaid renderers
+  initializeDiagramCache(context);
+
+  // Restore preview panels that were open before the window reloaded
+  const previewSerializer = vscode.window.registerWebviewPanelSerializer('markdownPreview', {
+    deserializeWebviewPanel: (panel: vscode.WebviewPanel, state: PreviewPanelState | undefined) =>
+      manager.restorePreview(panel, state),
+  });
+
   // Initialize PlantUML server if local mode is enabled
   try {
     console.log('[Extension] Calling initializePlantUMLServer...');
@@ -44,7 +67,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         return;
       }
 
-      openOrUpdatePreview(context, editor, vscode.ViewColumn.Active);
+      manager.openPreview(editor, vscode.ViewColumn.Active);
     }
   );
 
@@ -63,21 +86,98 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         return;
       }
 
-      openOrUpdatePreview(context, editor, vscode.ViewColumn.Beside);
+      manager.openPreview(editor, vscode.ViewColumn.Beside);
+    }
+  );
+
+  // Register command: Open Locked Preview to the Side
+  const openLockedPreviewToSideCommand = vscode.commands.registerCommand(
+    'markdownPreviewer.openLockedPreviewToSide',
+    () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        vscode.window.showErrorMessage('No active Markdown editor found');
+        return;
+      }
+
+      if (editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a Markdown file to preview');
+        return;
+      }
+
+      manager.openPreview(editor, vscode.ViewColumn.Beside, true);
+    }
+  );
+
+  // Register command: Toggle Preview Lock
+  const togglePreviewLockCommand = vscode.commands.registerCommand(
+    'markdownPreviewer.togglePreviewLock',
+    () => {
+      const panel = manager.getActivePanel();
+      if (!panel) {
+        vscode.window.showWarningMessage('No active Markdown preview found');
+        return;
+      }
+
+      manager.toggleLock(panel);
+    }
+  );
+
+  // Register command: Export to HTML
+  const exportHtmlCommand = vscode.commands.registerCommand(
+    'markdownPreviewer.exportHtml',
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a Markdown file to export');
+        return;
+      }
+
+      await exportToHtml(context, editor);
+    }
+  );
+
+  // Register command: Export to PDF
+  const exportPdfCommand = vscode.commands.registerCommand(
+    'markdownPreviewer.exportPdf',
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('Please open a Markdown file to export');
+        return;
+      }
+
+      await exportToPdf(context, editor);
+    }
+  );
+
+  // Register command: Clear Diagram Cache
+  const clearDiagramCacheCommand = vscode.commands.registerCommand(
+    'markdownPreviewer.clearDiagramCache',
+    async () => {
+      await diagramCache?.clear();
+      vscode.window.showInformationMessage('Diagram cache cleared');
     }
   );
 
   // Watch for text document changes to update preview
   const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument((event) => {
-    if (event.document.languageId === 'markdown' && currentPanel) {
-      currentPanel.update(event.document);
+    if (event.document.languageId === 'markdown') {
+      manager.onDocumentChanged(event.document);
     }
   });
 
   // Watch for active editor changes
   const changeEditorSubscription = vscode.window.onDidChangeActiveTextEditor((editor) => {
-    if (editor && editor.document.languageId === 'markdown' && currentPanel) {
-      currentPanel.update(editor.document);
+    if (editor && editor.document.languageId === 'markdown') {
+      manager.onActiveEditorChanged(editor);
+    }
+  });
+
+  // Watch for editor scrolling to keep the preview in sync
+  const visibleRangesSubscription = vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+    if (event.textEditor.document.languageId === 'markdown') {
+      manager.onEditorScrolled(event.textEditor);
     }
   });
 
@@ -85,12 +185,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   if (vscode.workspace.getConfiguration('markdownPreviewer').get('preview.autoOpen')) {
     const editor = vscode.window.activeTextEditor;
     if (editor && editor.document.languageId === 'markdown') {
-      openOrUpdatePreview(context, editor, vscode.ViewColumn.Beside);
+      manager.openPreview(editor, vscode.ViewColumn.Beside);
     }
   }
 
   // Watch for configuration changes to restart PlantUML server
   const configChangeSubscription = vscode.workspace.onDidChangeConfiguration(async (event) => {
+    if (event.affectsConfiguration('markdownPreviewer.diagramCache')) {
+      initializeDiagramCache(context);
+    }
+
+    if (
+      event.affectsConfiguration('markdownPreviewer.highlight') ||
+      event.affectsConfiguration('markdownPreviewer.frontMatter') ||
+      event.affectsConfiguration('markdownPreviewer.preview.outline') ||
+      event.affectsConfiguration('markdownPreviewer.markdown')
+    ) {
+      // Re-render previews with the new fence language aliases, front matter display, outline or syntax extensions
+      manager.reloadAll();
+    }
+
     if (event.affectsConfiguration('markdownPreviewer.plantuml')) {
       console.log('[PlantUML] Configuration changed, restarting server...');
 
@@ -106,39 +220,170 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     }
   });
 
+  // Rebuild previews when another extension registers or removes a diagram renderer
+  const rendererChangeSubscription = DiagramRendererRegistry.onDidChange(() => manager.reloadAll());
+
   context.subscriptions.push(
     openPreviewCommand,
     openPreviewToSideCommand,
+    openLockedPreviewToSideCommand,
+    togglePreviewLockCommand,
+    exportHtmlCommand,
+    exportPdfCommand,
+    clearDiagramCacheCommand,
+    previewSerializer,
     changeDocumentSubscription,
     changeEditorSubscription,
-    configChangeSubscription
+    visibleRangesSubscription,
+    configChangeSubscription,
+    rendererChangeSubscription
   );
+
+  return {
+    registerDiagramRenderer: (renderer) => DiagramRendererRegistry.register(renderer),
+  };
 }
 
 /**
- * Open a new preview panel or update existing one.
+ * Get a preview panel showing the editor's document, opening one if needed.
+ *
+ * Exporters need a live webview to render Mermaid diagrams.
+ *
+ * @param editor - Editor whose document should be previewed
+ * @returns Preview panel for the document
+ */
+function getPreviewForEditor(editor: vscode.TextEditor): PreviewPanel {
+  const manager = previewManager as PreviewManager;
+  return (
+    manager.getPanel(editor.document.uri) ??
+    manager.openPreview(editor, vscode.ViewColumn.Beside)
+  );
+}
+
+/**
+ * Get the default export target next to the source document.
+ *
+ * @param document - Source Markdown document
+ * @param extension - Target file extension (without dot)
+ * @returns Default target URI, or undefined for untitled documents
+ */
+function getDefaultExportUri(
+  document: vscode.TextDocument,
+  extension: string
+): vscode.Uri | undefined {
+  if (document.isUntitled) {
+    return undefined;
+  }
+
+  return vscode.Uri.file(
+    path.join(
+      path.dirname(document.fileName),
+      `${path.basename(document.fileName, path.extname(document.fileName))}.${extension}`
+    )
+  );
+}
+
+/**
+ * Export the editor's document to a standalone HTML file.
+ *
+ * @param context - Extension context
+ * @param editor - Editor containing the Markdown document
+ */
+async function exportToHtml(
+  context: vscode.ExtensionContext,
+  editor: vscode.TextEditor
+): Promise<void> {
+  const document = editor.document;
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: getDefaultExportUri(document, 'html'),
+    filters: { HTML: ['html'] },
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  const panel = getPreviewForEditor(editor);
+  const config = vscode.workspace.getConfiguration('markdownPreviewer');
+
+  try {
+    const html = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Exporting to HTML...' },
+      () =>
+        new HtmlExporter(context).export(document.getText(), {
+          title: path.basename(document.fileName),
+          themeName: config.get('preview.theme', 'github-light'),
+          frontMatter: config.get<'table' | 'hide'>('frontMatter.display', 'table'),
+          documentPath: document.isUntitled ? undefined : document.fileName,
+          workspaceRoots: (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+          renderMermaid: (sources) => panel.renderMermaid(sources),
+          renderVega: (charts) => panel.renderVega(charts),
+        })
+    );
+
+    await vscode.workspace.fs.writeFile(targetUri, Buffer.from(html, 'utf-8'));
+    vscode.window.showInformationMessage(`Exported HTML to ${targetUri.fsPath}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Export] HTML export failed:', errorMessage);
+    vscode.window.showErrorMessage(`Failed to export HTML: ${errorMessage}`);
+  }
+}
+
+/**
+ * Export the editor's document to a PDF file using a headless browser.
  *
  * @param context - Extension context
- * @param editor - Active text editor
- * @param column - View column for the panel
+ * @param editor - Editor containing the Markdown document
  */
-function openOrUpdatePreview(
+async function exportToPdf(
   context: vscode.ExtensionContext,
-  editor: vscode.TextEditor,
-  column: vscode.ViewColumn
-): void {
-  if (currentPanel && !currentPanel.isDisposedPanel()) {
-    // Panel exists and is not disposed - reuse it
-    currentPanel.reveal(column);
-    currentPanel.update(editor.document);
-  } else {
-    // Panel doesn't exist or is disposed - create new one
-    currentPanel = PreviewPanel.create(context, editor.document, column);
-
-    // Listen for panel disposal
-    currentPanel.onDispose(() => {
-      currentPanel = undefined;
-    });
+  editor: vscode.TextEditor
+): Promise<void> {
+  const document = editor.document;
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: getDefaultExportUri(document, 'pdf'),
+    filters: { PDF: ['pdf'] },
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  const panel = getPreviewForEditor(editor);
+  const config = vscode.workspace.getConfiguration('markdownPreviewer');
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Exporting to PDF...' },
+      () =>
+        new PdfExporter(context).export(document.getText(), {
+          title: path.basename(document.fileName),
+          themeName: config.get('preview.theme', 'github-light'),
+          frontMatter: config.get<'table' | 'hide'>('frontMatter.display', 'table'),
+          documentPath: document.isUntitled ? undefined : document.fileName,
+          workspaceRoots: (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+          renderMermaid: (sources) => panel.renderMermaid(sources),
+          renderVega: (charts) => panel.renderVega(charts),
+          outputPath: targetUri.fsPath,
+          format: config.get<string>('pdf.format', 'A4'),
+          margin: config.get<PdfMargins>('pdf.margin', {
+            top: '20mm',
+            right: '15mm',
+            bottom: '20mm',
+            left: '15mm',
+          }),
+          displayHeaderFooter: config.get<boolean>('pdf.displayHeaderFooter', false),
+          headerTemplate: config.get<string>('pdf.headerTemplate', '<span></span>'),
+          footerTemplate: config.get<string>('pdf.footerTemplate', ''),
+          tableOfContents: config.get<boolean>('pdf.tableOfContents', false),
+          executablePath: config.get<string>('pdf.executablePath', ''),
+        })
+    );
+
+    vscode.window.showInformationMessage(`Exported PDF to ${targetUri.fsPath}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[Export] PDF export failed:', errorMessage);
+    vscode.window.showErrorMessage(`Failed to export PDF: ${errorMessage}`);
   }
 }
 
@@ -180,7 +425,7 @@ async function initializePlantUMLServer(context: vscode.ExtensionContext): Promi
   }
 
   console.log('[PlantUML] Checking Java installation...');
-  if (!JavaDetector.isJavaInstalledSync()) {
+  if (!(await JavaDetector.isJavaInstalled())) {
     const errorMsg = 'Java not installed. Please install Java and ensure it is in your PATH.';
     console.error('[PlantUML]', errorMsg);
     throw new Error(errorMsg);
@@ -221,15 +466,45 @@ async function initializePlantUMLServer(context: vscode.ExtensionContext): Promi
   });
 }
 
+/**
+ * Create the rendered-diagram cache from settings and hand it to the renderers.
+ *
+ * The in-memory tier is always enabled; the on-disk tier lives in the
+ * extension's global storage when `diagramCache.persistToDisk` is on.
+ *
+ * @param context - Extension context
+ */
+function initializeDiagramCache(context: vscode.ExtensionContext): void {
+  const config = vscode.workspace.getConfiguration('markdownPreviewer');
+  const persistToDisk = config.get<boolean>('diagramCache.persistToDisk', true);
+
+  diagramCache = new DiagramCache({
+    storageDir: persistToDisk
+      ? vscode.Uri.joinPath(context.globalStorageUri, 'diagram-cache').fsPath
+      : undefined,
+  });
+  PlantUMLRenderer.setCache(diagramCache);
+  MermaidRenderer.setCache(diagramCache);
+  GraphvizRenderer.setCache(diagramCache);
+  DiagramRendererRegistry.setCache(diagramCache);
+}
+
 /**
  * Extension deactivation.
  * Called when the extension is deactivated.
  */
 export function deactivate(): void {
-  if (currentPanel) {
-    currentPanel.dispose();
+  if (previewManager) {
+    previewManager.dispose();
+    previewManager = undefined;
   }
 
+  PlantUMLRenderer.setCache(null);
+  MermaidRenderer.setCache(null);
+  GraphvizRenderer.setCache(null);
+  DiagramRendererRegistry.setCache(null);
+  diagramCache = undefined;
+
   if (plantUMLServer) {
     plantUMLServer.stop();
     PlantUMLRenderer.setServerInstance(null);
@@ -0,0 +1,114 @@
+/**
+ * Type definitions for the markdown-it syntax plugins without bundled types
+ * (footnotes, definition lists, sub/superscript, mark, abbreviations, emoji)
+ */
+
+declare module 'markdown-it-footnote' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for `[^1]` footnotes
+   * @param md - markdown-it instance
+   */
+  function footnote(md: MarkdownIt): void;
+
+  export = footnote;
+}
+
+declare module 'markdown-it-deflist' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for definition lists
+   * @param md - markdown-it instance
+   */
+  function deflist(md: MarkdownIt): void;
+
+  export = deflist;
+}
+
+declare module 'markdown-it-sub' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for `~subscript~`
+   * @param md - markdown-it instance
+   */
+  function sub(md: MarkdownIt): void;
+
+  export = sub;
+}
+
+declare module 'markdown-it-sup' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for `^superscript^`
+   * @param md - markdown-it instance
+   */
+  function sup(md: MarkdownIt): void;
+
+  export = sup;
+}
+
+declare module 'markdown-it-mark' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for `==marked==` text
+   * @param md - markdown-it instance
+   */
+  function mark(md: MarkdownIt): void;
+
+  export = mark;
+}
+
+declare module 'markdown-it-abbr' {
+  import MarkdownIt from 'markdown-it';
+
+  /**
+   * markdown-it plugin for `*[abbr]: title` abbreviations
+   * @param md - markdown-it instance
+   */
+  function abbr(md: MarkdownIt): void;
+
+  export = abbr;
+}
+
+declare module 'markdown-it-emoji' {
+  import MarkdownIt from 'markdown-it';
+
+  interface EmojiOptions {
+    /**
+     * Emoji names to enable (all if empty)
+     */
+    enabled?: string[];
+
+    /**
+     * Additional emoji, by name
+     */
+    defs?: { [name: string]: string };
+
+    /**
+     * Text shortcuts such as `:)`, by emoji name
+     */
+    shortcuts?: { [name: string]: string | string[] };
+  }
+
+  type EmojiPlugin = (md: MarkdownIt, options?: EmojiOptions) => void;
+
+  /**
+   * Plugin without emoji definitions
+   */
+  export const bare: EmojiPlugin;
+
+  /**
+   * Plugin with all GitHub emoji
+   */
+  export const full: EmojiPlugin;
+
+  /**
+   * Plugin with the most common emoji
+   */
+  export const light: EmojiPlugin;
+}
@@ -0,0 +1,190 @@
+import MarkdownIt from 'markdown-it';
+
+/**
+ * Alert types supported by GitHub, with their title and Octicon path.
+ */
+const ALERT_TYPES: { [type: string]: { title: string; icon: string } } = {
+  note: {
+    title: 'Note',
+    icon: 'M0 8a8 8 0 1 1 16 0A8 8 0 0 1 0 8Zm8-6.5a6.5 6.5 0 1 0 0 13 6.5 6.5 0 0 0 0-13ZM6.5 7.75A.75.75 0 0 1 7.25 7h1a.75.75 0 0 1 .75.75v2.75h.25a.75.75 0 0 1 0 1.5h-2a.75.75 0 0 1 0-1.5h.25v-2h-.25a.75.75 0 0 1-.75-.75ZM8 6a1 1 0 1 1 0-2 1 1 0 0 1 0 2Z',
+  },
+  tip: {
+    title: 'Tip',
+    icon: 'M8 1.5c-2.363 0-4 1.69-4 3.75 0 .984.424 1.625.984 2.304l.214.253c.223.264.47.556.673.848.284.411.537.896.621 1.49a.75.75 0 0 1-1.484.211c-.04-.282-.163-.547-.37-.847a8.456 8.456 0 0 0-.542-.68c-.084-.1-.173-.205-.268-.32C3.201 7.75 2.5 6.766 2.5 5.25 2.5 2.31 4.863 0 8 0s5.5 2.31 5.5 5.25c0 1.516-.701 2.5-1.328 3.259-.095.115-.184.22-.268.319-.207.245-.383.453-.541.681-.208.3-.33.565-.37.847a.751.751 0 0 1-1.485-.212c.084-.593.337-1.078.621-1.489.203-.292.45-.584.673-.848.075-.088.147-.173.213-.253.561-.679.985-1.32.985-2.304 0-2.06-1.637-3.75-4-3.75ZM5.75 12h4.5a.75.75 0 0 1 0 1.5h-4.5a.75.75 0 0 1 0-1.5ZM6 15.25a.75.75 0 0 1 .75-.75h2.5a.75.75 0 0 1 0 1.5h-2.5a.75.75 0 0 1-.75-.75Z',
+  },
+  important: {
+    title: 'Important',
+    icon: 'M0 1.75C0 .784.784 0 1.75 0h12.5C15.216 0 16 .784 16 1.75v9.5A1.75 1.75 0 0 1 14.25 13H8.06l-2.573 2.573A1.458 1.458 0 0 1 3 14.543V13H1.75A1.75 1.75 0 0 1 0 11.25Zm1.75-.25a.25.25 0 0 0-.25.25v9.5c0 .138.112.25.25.25h2a.75.75 0 0 1 .75.75v2.19l2.72-2.72a.749.749 0 0 1 .53-.22h6.5a.25.25 0 0 0 .25-.25v-9.5a.25.25 0 0 0-.25-.25Zm7 2.25v2.5a.75.75 0 0 1-1.5 0v-2.5a.75.75 0 0 1 1.5 0ZM9 9a1 1 0 1 1-2 0 1 1 0 0 1 2 0Z',
+  },
+  warning: {
+    title: 'Warning',
+    icon: 'M6.457 1.047c.659-1.234 2.427-1.234 3.086 0l6.082 11.378A1.75 1.75 0 0 1 14.082 15H1.918a1.75 1.75 0 0 1-1.543-2.575Zm1.763.707a.25.25 0 0 0-.44 0L1.698 13.132a.25.25 0 0 0 .22.368h12.164a.25.25 0 0 0 .22-.368Zm.53 3.996v2.5a.75.75 0 0 1-1.5 0v-2.5a.75.75 0 0 1 1.5 0ZM9 11a1 1 0 1 1-2 0 1 1 0 0 1 2 0Z',
+  },
+  caution: {
+    title: 'Caution',
+    icon: 'M4.47.22A.749.749 0 0 1 5 0h6c.199 0 .389.079.53.22l4.25 4.25c.141.14.22.331.22.53v6a.749.749 0 0 1-.22.53l-4.25 4.25A.749.749 0 0 1 11 16H5a.749.749 0 0 1-.53-.22L.22 11.53A.749.749 0 0 1 0 11V5c0-.199.079-.389.22-.53Zm.84 1.28L1.5 5.31v5.38l3.81 3.81h5.38l3.81-3.81V5.31L10.69 1.5ZM8 4a.75.75 0 0 1 .75.75v3.5a.75.75 0 0 1-1.5 0v-3.5A.75.75 0 0 1 8 4Zm0 8a1 1 0 1 1 0-2 1 1 0 0 1 0 2Z',
+  },
+};
+
+/**
+ * `[!NOTE]` marker on the first line of a blockquote.
+ */
+const ALERT_MARKER = /^\[!(note|tip|important|warning|caution)\][ \t]*(?:\n|$)/i;
+
+/**
+ * Opening line of a `:::` container, e.g. `::: warning Custom title`.
+ */
+const CONTAINER_OPEN = /^(:{3,})[ \t]*(note|tip|important|warning|caution)(?:[ \t]+(.*))?$/i;
+
+/**
+ * markdown-it plugin for GitHub-style alerts.
+ *
+ * Renders `> [!NOTE]`, `> [!TIP]`, `> [!IMPORTANT]`, `> [!WARNING]` and
+ * `> [!CAUTION]` blockquotes, and `:::note` … `:::` containers (which may set a
+ * custom title: `::: warning Heads up`), with the same markup as GitHub:
+ * `<div class="markdown-alert markdown-alert-note">` with a title paragraph.
+ */
+export class AlertsPlugin {
+  /**
+   * Install the plugin.
+   *
+   * @param md - markdown-it instance
+   */
+  public static install(md: MarkdownIt): void {
+    // Runs before inline parsing so the marker is removed from the paragraph source
+    md.core.ruler.before('inline', 'github_alerts', (state) =>
+      AlertsPlugin.convertBlockquotes(state)
+    );
+    md.block.ruler.before('fence', 'alert_container', AlertsPlugin.parseContainer, {
+      alt: ['paragraph', 'reference', 'blockquote', 'list'],
+    });
+
+    md.renderer.rules.alert_open = (tokens, idx, _options, _env, self): string => {
+      const token = tokens[idx];
+      const alert = ALERT_TYPES[token.info];
+      const title = md.utils.escapeHtml(token.meta?.title || alert.title);
+      return (
+        `<div class="markdown-alert markdown-alert-${token.info}"${self.renderAttrs(token)}>\n` +
+        `<p class="markdown-alert-title"><svg class="octicon" viewBox="0 0 16 16" width="16" height="16" aria-hidden="true"><path d="${alert.icon}"></path></svg>${title}</p>\n`
+      );
+    };
+    md.renderer.rules.alert_close = (): string => '</div>\n';
+  }
+
+  /**
+   * Turn top-level blockquotes that start with an alert marker into alerts.
+   *
+   * GitHub only renders alerts that are not nested in other elements.
+   *
+   * @param state - Core parser state
+   */
+  private static convertBlockquotes(state: MarkdownIt.StateCore): void {
+    const tokens = state.tokens;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const open = tokens[i];
+      const inline = tokens[i + 2];
+      if (
+        open.type !== 'blockquote_open' ||
+        open.level !== 0 ||
+        tokens[i + 1]?.type !== 'paragraph_open' ||
+        !inline
+      ) {
+        continue;
+      }
+
+      const marker = ALERT_MARKER.exec(inline.content);
+      if (!marker) {
+        continue;
+      }
+
+      const closeIndex = tokens.findIndex(
+        (token, index) => index > i && token.type === 'blockquote_close' && token.level === 0
+      );
+      open.type = 'alert_open';
+      open.tag = 'div';
+      open.info = marker[1].toLowerCase();
+      tokens[closeIndex].type = 'alert_close';
+      tokens[closeIndex].tag = 'div';
+
+      inline.content = inline.content.slice(marker[0].length);
+      if (inline.content.trim() === '') {
+        // The marker was the whole paragraph
+        tokens.splice(i + 1, 3);
+      } else if (tokens[i + 1].map) {
+        // Keep the paragraph's source line (used for scroll sync) on its first text line
+        const map = tokens[i + 1].map as [number, number];
+        map[0] += 1;
+      }
+    }
+  }
+
+  /**
+   * Block rule for `:::type [title]` … `:::` containers.
+   *
+   * The closing line needs at least as many colons as the opening line, so
+   * containers can be nested by using more colons for the outer one.
+   *
+   * @param state - Block parser state
+   * @param startLine - Line to start at
+   * @param endLine - Last line of the parent block
+   * @param silent - Only validate, do not emit tokens
+   * @returns True if a container was found
+   */
+  private static parseContainer(
+    state: MarkdownIt.StateBlock,
+    startLine: number,
+    endLine: number,
+    silent: boolean
+  ): boolean {
+    if (state.sCount[startLine] - state.blkIndent >= 4) {
+      return false; // Indented code
+    }
+
+    const start = state.bMarks[startLine] + state.tShift[startLine];
+    const match = CONTAINER_OPEN.exec(state.src.slice(start, state.eMarks[startLine]).trim());
+    if (!match) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+
+    const closePattern = new RegExp(`^:{${match[1].length},}\\s*$`);
+    let nextLine = startLine + 1;
+    let closed = false;
+    for (; nextLine < endLine; nextLine++) {
+      const lineStart = state.bMarks[nextLine] + state.tShift[nextLine];
+      const lineEnd = state.eMarks[nextLine];
+      if (lineStart < lineEnd && state.sCount[nextLine] < state.blkIndent) {
+        break; // Less indented than the container: the parent block ended
+      }
+      if (
+        state.sCount[nextLine] - state.blkIndent < 4 &&
+        closePattern.test(state.src.slice(lineStart, lineEnd))
+      ) {
+        closed = true;
+        break;
+      }
+    }
+
+    const open = state.push('alert_open', 'div', 1);
+    open.block = true;
+    open.markup = match[1];
+    open.info = match[2].toLowerCase();
+    open.meta = { title: match[3]?.trim() };
+    open.map = [startLine, nextLine];
+
+    const oldLineMax = state.lineMax;
+    state.lineMax = nextLine;
+    state.md.block.tokenize(state, startLine + 1, nextLine);
+    state.lineMax = oldLineMax;
+
+    const close = state.push('alert_close', 'div', -1);
+    close.block = true;
+    close.markup = match[1];
+
+    state.line = nextLine + (closed ? 1 : 0);
+    return true;
+  }
+}
@@ -0,0 +1,142 @@
+import * as yaml from 'js-yaml';
+import { parse as parseToml } from 'smol-toml';
+
+/**
+ * Parsed front matter keys and values.
+ */
+export type FrontMatterData = Record<string, unknown>;
+
+/**
+ * Front matter block at the start of a document.
+ */
+export interface FrontMatterBlock {
+  /** `---` delimited YAML or `+++` delimited TOML */
+  format: 'yaml' | 'toml';
+  /** Text between the delimiters */
+  raw: string;
+  /** Number of source lines, including both delimiters */
+  lineCount: number;
+  /** Parsed data (empty when parsing failed) */
+  data: FrontMatterData;
+  /** Parse error message */
+  error?: string;
+}
+
+/**
+ * Front matter keys that change how the preview renders the document.
+ */
+export interface FrontMatterPreviewOptions {
+  /** Preview theme, overriding `markdownPreviewer.preview.theme` */
+  theme?: string;
+  /** Mermaid configuration applied to every Mermaid diagram */
+  mermaid?: Record<string, unknown>;
+  /** PlantUML rendering mode, overriding `markdownPreviewer.plantuml.mode` */
+  plantumlMode?: 'online' | 'local';
+  /** Show the outline sidebar, overriding `markdownPreviewer.preview.outline` */
+  toc?: boolean;
+}
+
+/**
+ * Front matter parser.
+ *
+ * Recognizes a YAML block delimited by `---` lines or a TOML block delimited by
+ * `+++` lines at the very start of a document, as used by Jekyll, Hugo and most
+ * static site generators.
+ */
+export class FrontMatter {
+  private static readonly BLOCK_PATTERN = /^\uFEFF?(---|\+\+\+)[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?\1[ \t]*(?:\r?\n|$)/;
+
+  /**
+   * Find and parse the front matter of a document.
+   *
+   * A `---` block whose content is plain text rather than YAML mappings (e.g. a
+   * horizontal rule followed by a setext heading) is not front matter.
+   *
+   * @param markdown - Source Markdown text
+   * @returns Front matter block, or null if the document has none
+   */
+  public static extract(markdown: string): FrontMatterBlock | null {
+    const match = this.BLOCK_PATTERN.exec(markdown);
+    if (!match) {
+      return null;
+    }
+
+    const format = match[1] === '+++' ? 'toml' : 'yaml';
+    const raw = match[2] ?? '';
+    const lineCount = match[0].split('\n').length - (match[0].endsWith('\n') ? 1 : 0);
+
+    let parsed: unknown;
+    try {
+      parsed = format === 'toml' ? parseToml(raw) : yaml.load(raw);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { format, raw, lineCount, data: {}, error: errorMessage };
+    }
+
+    if (parsed === undefined || parsed === null) {
+      return { format, raw, lineCount, data: {} };
+    }
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+    return { format, raw, lineCount, data: parsed as FrontMatterData };
+  }
+
+  /**
+   * Read the keys that control the preview.
+   *
+   * Invalid values are ignored, so the settings apply instead.
+   *
+   * @param data - Parsed front matter
+   * @returns Preview options set by the front matter
+   */
+  public static getPreviewOptions(data: FrontMatterData): FrontMatterPreviewOptions {
+    const options: FrontMatterPreviewOptions = {};
+
+    if (typeof data.theme === 'string') {
+      options.theme = data.theme;
+    }
+    if (this.isObject(data.mermaid)) {
+      options.mermaid = data.mermaid;
+    }
+    const plantuml = data.plantuml;
+    if (this.isObject(plantuml) && (plantuml.mode === 'online' || plantuml.mode === 'local')) {
+      options.plantumlMode = plantuml.mode;
+    }
+    if (typeof data.toc === 'boolean') {
+      options.toc = data.toc;
+    }
+
+    return options;
+  }
+
+  /**
+   * Format a front matter value for display.
+   *
+   * @param value - Parsed value
+   * @returns Plain text (dates as ISO dates, lists comma-separated, objects as JSON)
+   */
+  public static formatValue(value: unknown): string {
+    if (value instanceof Date) {
+      const iso = value.toISOString();
+      return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+    }
+    if (Array.isArray(value) && value.every((item) => !this.isObject(item) && !Array.isArray(item))) {
+      return value.map((item) => this.formatValue(item)).join(', ');
+    }
+    if (this.isObject(value) || Array.isArray(value)) {
+      return JSON.stringify(value);
+    }
+    return String(value ?? '');
+  }
+
+  /**
+   * Check whether a value is a key-value mapping.
+   *
+   * @param value - Value to check
+   * @returns True for plain objects (not arrays or dates)
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
@@ -0,0 +1,78 @@
+import MarkdownIt from 'markdown-it';
+import * as vscode from 'vscode';
+import footnote from 'markdown-it-footnote';
+import deflist from 'markdown-it-deflist';
+import sub from 'markdown-it-sub';
+import sup from 'markdown-it-sup';
+import mark from 'markdown-it-mark';
+import abbr from 'markdown-it-abbr';
+import { full as emoji } from 'markdown-it-emoji';
+
+/**
+ * Syntax extensions beyond CommonMark and GitHub Flavored Markdown.
+ * Each one is enabled unless it is set to false.
+ */
+export interface MarkdownExtensionOptions {
+  /** `[^1]` footnote references and `[^1]: …` footnotes */
+  footnotes?: boolean;
+  /** Term lines followed by `: definition` lines */
+  definitionLists?: boolean;
+  /** `~sub~` and `^sup^` */
+  subSuperscript?: boolean;
+  /** `==highlighted text==` */
+  mark?: boolean;
+  /** `*[HTML]: Hyper Text Markup Language` definitions */
+  abbreviations?: boolean;
+  /** `:smile:` shortcodes */
+  emoji?: boolean;
+}
+
+/**
+ * Installs the standard markdown-it syntax extensions selected in the settings.
+ */
+export class MarkdownExtensions {
+  /**
+   * Install the enabled extensions.
+   *
+   * @param md - markdown-it instance
+   * @param options - Extensions to enable
+   */
+  public static install(md: MarkdownIt, options: MarkdownExtensionOptions = {}): void {
+    if (options.footnotes !== false) {
+      md.use(footnote);
+    }
+    if (options.definitionLists !== false) {
+      md.use(deflist);
+    }
+    if (options.subSuperscript !== false) {
+      md.use(sub).use(sup);
+    }
+    if (options.mark !== false) {
+      md.use(mark);
+    }
+    if (options.abbreviations !== false) {
+      md.use(abbr);
+    }
+    if (options.emoji !== false) {
+      // Only :shortcodes:, not text smileys such as :) which GitHub leaves alone
+      md.use(emoji, { shortcuts: {} });
+    }
+  }
+
+  /**
+   * Read the enabled extensions from the `markdownPreviewer.markdown.*` settings.
+   *
+   * @returns Extension options
+   */
+  public static getSettings(): MarkdownExtensionOptions {
+    const config = vscode.workspace.getConfiguration('markdownPreviewer');
+    return {
+      footnotes: config.get<boolean>('markdown.footnotes', true),
+      definitionLists: config.get<boolean>('markdown.definitionLists', true),
+      subSuperscript: config.get<boolean>('markdown.subSuperscript', true),
+      mark: config.get<boolean>('markdown.mark', true),
+      abbreviations: config.get<boolean>('markdown.abbreviations', true),
+      emoji: config.get<boolean>('markdown.emoji', true),
+    };
+  }
+}
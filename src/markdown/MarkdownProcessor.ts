@@ -1,68 +1,129 @@
 import MarkdownIt from 'markdown-it';
 import taskLists from 'markdown-it-task-lists';
-import { MermaidRenderer } from '../renderers/MermaidRenderer';
-import { PlantUMLRenderer } from '../renderers/PlantUMLRenderer';
-import hljs from 'highlight.js/lib/core';
-import javascript from 'highlight.js/lib/languages/javascript';
-import xml from 'highlight.js/lib/languages/xml'; // HTML
-import css from 'highlight.js/lib/languages/css';
-import php from 'highlight.js/lib/languages/php';
-import python from 'highlight.js/lib/languages/python';
-import ruby from 'highlight.js/lib/languages/ruby';
-import java from 'highlight.js/lib/languages/java';
-import yaml from 'highlight.js/lib/languages/yaml';
-import json from 'highlight.js/lib/languages/json';
-import diff from 'highlight.js/lib/languages/diff';
-import bash from 'highlight.js/lib/languages/bash';
-import scss from 'highlight.js/lib/languages/scss';
-import sql from 'highlight.js/lib/languages/sql';
-import * as vscode from 'vscode';
+import { MathRenderer } from '../renderers/MathRenderer';
+import { DiagramRenderer } from '../renderers/DiagramRenderer';
+import { DiagramRendererRegistry } from '../renderers/DiagramRendererRegistry';
+import { SyntaxHighlighter } from './SyntaxHighlighter';
+import { AlertsPlugin } from './AlertsPlugin';
+import { TableOfContentsPlugin } from './TableOfContentsPlugin';
+import { MarkdownExtensionOptions, MarkdownExtensions } from './MarkdownExtensions';
+import { FrontMatter, FrontMatterBlock, FrontMatterData } from './FrontMatter';
+import { LinkResolver } from '../preview/LinkResolver';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
 
 /**
- * Supported languages for syntax highlighting.
- * Each language has a name, optional aliases, and highlight.js module.
+ * Options controlling how the processor renders Markdown.
  */
-interface LanguageDefinition {
-  name: string;
-  aliases: string[];
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  module: any;
+export interface MarkdownProcessorOptions {
+  /**
+   * Add `data-line` attributes with the 0-based source line to block elements.
+   * Used by the preview webview to synchronize scrolling with the editor.
+   * @default false
+   */
+  lineMarkers?: boolean;
+  /**
+   * Syntax extensions to enable (footnotes, definition lists, emoji, …).
+   * All are enabled unless set to false.
+   */
+  extensions?: MarkdownExtensionOptions;
 }
 
-const SUPPORTED_LANGUAGES: LanguageDefinition[] = [
-  { name: 'javascript', aliases: ['js'], module: javascript },
-  { name: 'html', aliases: ['htm'], module: xml },
-  { name: 'css', aliases: [], module: css },
-  { name: 'php', aliases: [], module: php },
-  { name: 'python', aliases: ['py'], module: python },
-  { name: 'ruby', aliases: ['rb'], module: ruby },
-  { name: 'java', aliases: [], module: java },
-  { name: 'yaml', aliases: ['yml'], module: yaml },
-  { name: 'json', aliases: [], module: json },
-  { name: 'diff', aliases: ['patch'], module: diff },
-  { name: 'bash', aliases: ['sh', 'shell'], module: bash },
-  { name: 'scss', aliases: ['sass'], module: scss },
-  { name: 'sql', aliases: [], module: sql },
-  { name: 'jsonl', aliases: [], module: json }, // JSONL uses JSON syntax
-];
-
-// Register all languages with highlight.js
-SUPPORTED_LANGUAGES.forEach((lang) => {
-  hljs.registerLanguage(lang.name, lang.module);
-});
+/**
+ * Per-document options for a single process() call.
+ */
+export interface ProcessOptions {
+  /**
+   * Absolute path of the Markdown file being rendered.
+   * Local files referenced by the document (e.g. PlantUML includes) are resolved relative to it.
+   */
+  documentPath?: string;
+  /**
+   * How front matter is shown: as a collapsible metadata table, or not at all.
+   * @default 'table'
+   */
+  frontMatter?: 'table' | 'hide';
+  /**
+   * Absolute paths of the workspace folders.
+   * Image paths starting with `/` are resolved against the folder containing the document.
+   */
+  workspaceRoots?: string[];
+  /**
+   * Map a local image file to the URL it is loaded from (e.g. a webview resource URI).
+   * Without it, image sources are kept as written.
+   */
+  resourceUrl?: (filePath: string) => string;
+}
+
+/**
+ * Result of a single process() call.
+ */
+export interface ProcessResult {
+  /** Rendered HTML */
+  html: string;
+  /** Absolute paths of local files the document depends on; the preview watches them */
+  dependencies: string[];
+  /** Parsed front matter, or an empty object if the document has none */
+  frontMatter: FrontMatterData;
+}
+
+/**
+ * A diagram whose rendering was deferred until after markdown-it finished.
+ */
+interface PendingDiagram {
+  placeholder: string;
+  render: () => Promise<string>;
+}
+
+/**
+ * Per-render environment passed through markdown-it to the fence renderer.
+ */
+interface RenderEnv {
+  pendingDiagrams: PendingDiagram[];
+  /** Random per-render part of diagram placeholders, so document content cannot match them */
+  placeholderNonce: string;
+  documentPath?: string;
+  /** Local files read while rendering */
+  dependencies: Set<string>;
+  /** Front matter at the start of the document */
+  frontMatter?: FrontMatterBlock;
+  frontMatterDisplay: 'table' | 'hide';
+  workspaceRoots: string[];
+  resourceUrl?: (filePath: string) => string;
+}
+
+/**
+ * Parsed fence info string, e.g. ```` ```ts {3-5,9} title="server.ts" showLineNumbers ````.
+ */
+interface FenceInfo {
+  /** Lowercased language (first word) */
+  language: string;
+  /** `key=value` attributes */
+  attributes: Record<string, string>;
+  /** Bare words after the language, e.g. `showLineNumbers` */
+  flags: Set<string>;
+  /** Inclusive 1-based line ranges from `{…}` */
+  highlightedLines: Array<[number, number]>;
+}
 
 /**
  * Processes Markdown text and converts it to HTML.
  *
  * This class wraps the markdown-it library and provides a clean interface
  * for Markdown processing. It extends the default renderer to detect and
- * render diagram code blocks (Mermaid and PlantUML) with error isolation.
+ * render diagram code blocks with the renderers in DiagramRendererRegistry,
+ * with error isolation.
  */
 export class MarkdownProcessor {
   private readonly md: MarkdownIt;
   private readonly defaultFenceRenderer: MarkdownIt.Renderer.RenderRule;
+  private readonly defaultImageRenderer: MarkdownIt.Renderer.RenderRule;
+  private readonly options: MarkdownProcessorOptions;
+
+  constructor(options: MarkdownProcessorOptions = {}) {
+    this.options = options;
 
-  constructor() {
     // Initialize markdown-it with sensible defaults
     this.md = new MarkdownIt({
       html: true, // Enable HTML tags in source
@@ -80,42 +141,112 @@ export class MarkdownProcessor {
       labelAfter: true, // Place label after checkbox
     });
 
+    // Footnotes, definition lists, sub/superscript, mark, abbreviations and emoji
+    MarkdownExtensions.install(this.md, this.options.extensions);
+
+    // GitHub-style alerts: > [!NOTE] blockquotes and :::note containers
+    this.md.use(AlertsPlugin.install);
+
+    // GitHub-compatible heading ids, and [[toc]] / <!-- toc --> placeholders
+    this.md.use(TableOfContentsPlugin.install);
+
+    // Front matter: consumed as one block so source line numbers stay intact
+    this.md.block.ruler.before('table', 'front_matter', this.parseFrontMatter.bind(this));
+    this.md.renderer.rules.front_matter = (tokens, idx, _options, env, self): string =>
+      this.renderFrontMatter(tokens[idx], env as RenderEnv, self);
+
     // Store the default fence renderer before overriding
     this.defaultFenceRenderer = this.md.renderer.rules.fence || this.md.renderer.renderToken.bind(this.md.renderer);
 
     // Add custom renderer for code blocks to detect mermaid/plantuml
     this.md.renderer.rules.fence = this.renderCodeBlock.bind(this);
+
+    // Render images that reference .mmd/.puml files as diagrams
+    this.defaultImageRenderer = this.md.renderer.rules.image || this.md.renderer.renderToken.bind(this.md.renderer);
+    this.md.renderer.rules.image = this.renderImage.bind(this);
+
+    // Local images in raw HTML are resolved like Markdown images
+    this.md.renderer.rules.html_block = (tokens, idx, _options, env): string =>
+      this.resolveHtmlImages(tokens[idx].content, env as RenderEnv);
+    this.md.renderer.rules.html_inline = (tokens, idx, _options, env): string =>
+      this.resolveHtmlImages(tokens[idx].content, env as RenderEnv);
+
+    // Math: $…$ and $$…$$ rendered with KaTeX (```math fences are handled by renderCodeBlock)
+    this.md.inline.ruler.after('escape', 'math_inline', this.parseInlineMath.bind(this));
+    this.md.block.ruler.before('fence', 'math_block', this.parseBlockMath.bind(this), {
+      alt: ['paragraph', 'reference', 'blockquote', 'list'],
+    });
+    this.md.renderer.rules.math_inline = (tokens, idx): string =>
+      MathRenderer.renderInline(tokens[idx].content, tokens[idx].markup === '$$');
+    this.md.renderer.rules.math_block = (tokens, idx): string =>
+      this.addLineMarker(MathRenderer.renderBlock(tokens[idx].content), tokens[idx]);
+
+    // Annotate block tokens with their source line for scroll synchronization
+    if (this.options.lineMarkers) {
+      this.md.core.ruler.push('source_line_markers', (state) => {
+        state.tokens.forEach((token) => {
+          if (token.block && token.map && token.nesting !== -1) {
+            token.attrSet('data-line', String(token.map[0]));
+          }
+        });
+      });
+    }
+
+    // Runs after source_line_markers so that paragraph line markers can be moved onto diagram images
+    this.md.core.ruler.push('diagram_file_images', (state) => this.markDiagramFileImages(state));
   }
 
   /**
    * Process Markdown text and return HTML.
    *
    * This method converts Markdown to HTML with async diagram rendering support.
-   * PlantUML local mode requires async processing.
+   * markdown-it renders synchronously, so diagram fences are emitted as
+   * placeholders first; the diagrams are then rendered concurrently and
+   * spliced into the output.
+   *
+   * Each call returns its own dependencies and front matter, so overlapping
+   * calls (e.g. a slow render superseded by a newer one) never mix results.
    *
    * @param markdown - Source Markdown text
-   * @returns Promise resolving to rendered HTML
+   * @param options - Per-document options
+   * @returns Promise resolving to the rendered HTML, dependencies and front matter
    */
-  public async process(markdown: string): Promise<string> {
+  public async process(markdown: string, options: ProcessOptions = {}): Promise<ProcessResult> {
     if (!markdown || markdown.trim() === '') {
-      return '<p><em>Empty document</em></p>';
+      return { html: '<p><em>Empty document</em></p>', dependencies: [], frontMatter: {} };
     }
 
+    const frontMatter = FrontMatter.extract(markdown) ?? undefined;
+    const env: RenderEnv = {
+      pendingDiagrams: [],
+      placeholderNonce: randomBytes(8).toString('hex'),
+      documentPath: options.documentPath,
+      dependencies: new Set(),
+      frontMatter,
+      frontMatterDisplay: options.frontMatter ?? 'table',
+      workspaceRoots: options.workspaceRoots ?? [],
+      resourceUrl: options.resourceUrl,
+    };
+
     try {
       // Render markdown with diagram support
-      let html = this.md.render(markdown);
+      let html = this.md.render(markdown, env);
+
+      // Render deferred diagrams concurrently and splice them in
+      html = await this.renderPendingDiagrams(html, env.pendingDiagrams);
 
       // Add copy buttons to code blocks
       html = this.addCopyButtons(html);
 
-      return html;
+      return { html, dependencies: Array.from(env.dependencies), frontMatter: frontMatter?.data ?? {} };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Markdown processing error:', errorMessage);
-      return `<div style="color: red; padding: 20px; border: 1px solid red; border-radius: 4px;">
+      const html = `<div style="color: red; padding: 20px; border: 1px solid red; border-radius: 4px;">
         <h3>Markdown Processing Error</h3>
         <p>${this.escapeHtml(errorMessage)}</p>
       </div>`;
+      return { html, dependencies: Array.from(env.dependencies), frontMatter: frontMatter?.data ?? {} };
     }
   }
 
@@ -137,36 +268,67 @@ export class MarkdownProcessor {
   }
 
   /**
-   * Detect if a code block contains a Mermaid diagram.
+   * Split a fence info string into its language, `key=value` attributes,
+   * `{…}` line ranges and bare flags.
    *
-   * @param info - Language info from code fence
-   * @returns True if this is a Mermaid block
+   * Values may be quoted to contain spaces, e.g. ```` ```plantuml file="my diagram.puml" ````.
+   *
+   * @param info - Info string from the code fence
+   * @returns Parsed fence info
    */
-  private isMermaidBlock(info: string): boolean {
-    return info.trim().toLowerCase() === 'mermaid';
+  private parseFenceInfo(info: string): FenceInfo {
+    const [language = '', ...rest] = info.trim().split(/\s+/);
+    const attributes: Record<string, string> = {};
+    const flags = new Set<string>();
+    const highlightedLines: Array<[number, number]> = [];
+    const partPattern = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|(\S+))|\{([\d\s,-]*)\}|(\S+)/g;
+
+    for (const match of rest.join(' ').matchAll(partPattern)) {
+      if (match[1]) {
+        attributes[match[1]] = match[2] ?? match[3] ?? match[4];
+      } else if (match[5] !== undefined) {
+        for (const range of match[5].split(',')) {
+          const [start, end = start] = range.split('-').map((bound) => parseInt(bound, 10));
+          if (start > 0 && end >= start) {
+            highlightedLines.push([start, end]);
+          }
+        }
+      } else {
+        flags.add(match[6]);
+      }
+    }
+
+    return { language: language.toLowerCase(), attributes, flags, highlightedLines };
   }
 
   /**
-   * Detect if a code block contains a PlantUML diagram.
+   * Get the diagram renderer for a referenced diagram file from its extension.
    *
-   * @param info - Language info from code fence
-   * @returns True if this is a PlantUML block
+   * @param file - File reference from an image or fence attribute
+   * @returns Registered renderer, or undefined for URLs and other files
    */
-  private isPlantUMLBlock(info: string): boolean {
-    return info.trim().toLowerCase() === 'plantuml';
+  private getDiagramFileRenderer(file: string): DiagramRenderer | undefined {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(file)) {
+      return undefined; // URLs and other schemes are left to the default image renderer
+    }
+
+    return DiagramRendererRegistry.getForFile(file.split(/[?#]/)[0]);
   }
 
   /**
    * Custom renderer for code blocks with diagram detection.
    *
-   * This method intercepts the rendering of fenced code blocks to detect
-   * Mermaid and PlantUML diagrams. When detected, it delegates to the
-   * appropriate renderer. Error isolation is handled by the renderers.
+   * This method intercepts the rendering of fenced code blocks and looks up
+   * the diagram renderer registered for the fence language (Mermaid, PlantUML,
+   * Graphviz, or one contributed by another extension). Error isolation is
+   * handled by DiagramRendererRegistry.render().
+   * A `file=` attribute in the info string loads the diagram from that file
+   * instead of the fence body.
    *
    * @param tokens - Token array
    * @param idx - Current token index
    * @param options - Markdown-it options
-   * @param env - Environment (unused)
+   * @param env - Render environment
    * @param self - Renderer instance
    * @returns Rendered HTML
    */
@@ -179,43 +341,529 @@ export class MarkdownProcessor {
   ): string {
     const token = tokens[idx];
     const info = token.info.trim();
-    const content = token.content;
+    const fenceInfo = this.parseFenceInfo(info);
+    const { language, attributes } = fenceInfo;
+    const renderEnv = env as RenderEnv;
 
-    try {
-      if (this.isMermaidBlock(info)) {
-        return MermaidRenderer.render(content);
-      } else if (this.isPlantUMLBlock(info)) {
-        // Read PlantUML configuration from settings
-        const config = vscode.workspace.getConfiguration('markdownPreviewer');
-        const mode = config.get<'online' | 'local'>('plantuml.mode', 'online');
-        const jarPath = config.get<string>('plantuml.jarPath', '');
-
-        // Call the appropriate renderer based on mode
-        if (mode === 'local') {
-          return PlantUMLRenderer.renderLocal(content, jarPath);
-        } else {
-          return PlantUMLRenderer.renderOnline(content);
+    if (language === 'math') {
+      return this.addLineMarker(MathRenderer.renderBlock(token.content), token);
+    }
+
+    const renderer = DiagramRendererRegistry.getForLanguage(language);
+    if (!renderer) {
+      // Default code block rendering
+      return this.decorateCodeBlock(this.defaultFenceRenderer(tokens, idx, options, env, self), fenceInfo);
+    }
+
+    // Defer rendering so that all diagrams are rendered concurrently in process()
+    return this.deferDiagram(renderEnv, async () => {
+      const html = attributes.file
+        ? await this.renderDiagramFile(renderer, attributes.file, renderEnv)
+        : await DiagramRendererRegistry.render(renderer, token.content, {
+            baseDir: renderEnv.documentPath ? path.dirname(renderEnv.documentPath) : undefined,
+            dependencies: renderEnv.dependencies,
+            frontMatter: renderEnv.frontMatter?.data,
+          });
+      return this.addLineMarker(html, token);
+    });
+  }
+
+  /**
+   * Inline rule for `$…$` math (and `$$…$$` within a line).
+   *
+   * Follows the Pandoc rules so that prices like "$5 and $10" stay text: the
+   * opening `$` must not be followed by whitespace, and the first unescaped
+   * closing `$` must not be preceded by whitespace or followed by a digit.
+   *
+   * @param state - Inline parser state
+   * @param silent - Only validate, do not emit tokens
+   * @returns True if math was found at the current position
+   */
+  private parseInlineMath(state: MarkdownIt.StateInline, silent: boolean): boolean {
+    const src = state.src;
+    const start = state.pos;
+    if (src[start] !== '$') {
+      return false;
+    }
+
+    const delimiter = src[start + 1] === '$' ? '$$' : '$';
+    const contentStart = start + delimiter.length;
+    if (delimiter === '$' && (contentStart >= state.posMax || /\s/.test(src[contentStart]))) {
+      return false;
+    }
+
+    // Find the first closing delimiter that is not escaped
+    let end = src.indexOf(delimiter, contentStart);
+    while (end !== -1 && src[end - 1] === '\\') {
+      end = src.indexOf(delimiter, end + 1);
+    }
+    if (end === -1 || end >= state.posMax || end === contentStart) {
+      return false;
+    }
+    if (delimiter === '$' && (/\s/.test(src[end - 1]) || /\d/.test(src[end + 1] ?? ''))) {
+      return false;
+    }
+
+    if (!silent) {
+      const token = state.push('math_inline', 'math', 0);
+      token.content = src.slice(contentStart, end);
+      token.markup = delimiter;
+    }
+
+    state.pos = end + delimiter.length;
+    return true;
+  }
+
+  /**
+   * Block rule for front matter.
+   *
+   * FrontMatter.extract() runs before markdown-it, so this rule only consumes
+   * the lines of the block found there (instead of rendering `---` as a rule).
+   *
+   * @param state - Block parser state
+   * @param startLine - Line to start parsing at
+   * @param _endLine - Last line of the current block container
+   * @param silent - Only validate, do not emit tokens
+   * @returns True if the front matter starts at this line
+   */
+  private parseFrontMatter(
+    state: MarkdownIt.StateBlock,
+    startLine: number,
+    _endLine: number,
+    silent: boolean
+  ): boolean {
+    const frontMatter = (state.env as RenderEnv).frontMatter;
+    if (!frontMatter || startLine !== 0 || state.level !== 0) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+
+    const token = state.push('front_matter', '', 0);
+    token.block = true;
+    token.map = [0, frontMatter.lineCount];
+    state.line = frontMatter.lineCount;
+    return true;
+  }
+
+  /**
+   * Render front matter as a collapsible metadata table (or nothing when hidden).
+   *
+   * Parse errors are always shown, so a broken front matter does not silently
+   * stop applying its preview options.
+   *
+   * @param token - front_matter token
+   * @param env - Render environment holding the parsed front matter
+   * @param self - Renderer instance
+   * @returns Rendered HTML
+   */
+  private renderFrontMatter(token: MarkdownIt.Token, env: RenderEnv, self: MarkdownIt.Renderer): string {
+    const frontMatter = env.frontMatter;
+    if (!frontMatter) {
+      return '';
+    }
+
+    if (frontMatter.error) {
+      return `<div class="front-matter-error"${self.renderAttrs(token)} style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
+  <strong style="color: #f85149;">Front Matter Error</strong>
+  <p style="margin: 8px 0; color: #57606a;">${this.escapeHtml(frontMatter.error)}</p>
+  <pre style="margin: 0;"><code>${this.escapeHtml(frontMatter.raw)}</code></pre>
+</div>\n`;
+    }
+
+    const entries = Object.entries(frontMatter.data);
+    if (env.frontMatterDisplay === 'hide' || entries.length === 0) {
+      return '';
+    }
+
+    const rows = entries
+      .map(([key, value]) => `<tr><th>${this.escapeHtml(key)}</th><td>${this.escapeHtml(FrontMatter.formatValue(value))}</td></tr>`)
+      .join('\n');
+    return `<details class="front-matter"${self.renderAttrs(token)}>
+<summary>Front Matter</summary>
+<table>
+<tbody>
+${rows}
+</tbody>
+</table>
+</details>\n`;
+  }
+
+  /**
+   * Block rule for `$$` display math.
+   *
+   * The formula starts with a line beginning with `$$` and ends with the first
+   * line ending in `$$`; both may be on the same line.
+   *
+   * @param state - Block parser state
+   * @param startLine - Line to start parsing at
+   * @param endLine - Last line of the current block container
+   * @param silent - Only validate, do not emit tokens
+   * @returns True if a math block was found
+   */
+  private parseBlockMath(
+    state: MarkdownIt.StateBlock,
+    startLine: number,
+    endLine: number,
+    silent: boolean
+  ): boolean {
+    // Indented code blocks take precedence
+    if (state.sCount[startLine] - state.blkIndent >= 4) {
+      return false;
+    }
+
+    const getLine = (line: number): string =>
+      state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]);
+
+    const firstLine = getLine(startLine).trimEnd();
+    if (!firstLine.startsWith('$$')) {
+      return false;
+    }
+
+    const lines: string[] = [];
+    let lastLine = startLine;
+    const rest = firstLine.slice(2);
+
+    if (rest.length >= 2 && rest.endsWith('$$')) {
+      lines.push(rest.slice(0, -2));
+    } else {
+      lines.push(rest);
+      let closed = false;
+      while (!closed) {
+        lastLine++;
+        // Stop at the end of the container or at a line that left it
+        if (lastLine >= endLine || (state.sCount[lastLine] < state.blkIndent && !state.isEmpty(lastLine))) {
+          return false;
         }
-      } else {
-        // Default code block rendering
-        return this.defaultFenceRenderer(tokens, idx, options, env, self);
+        const line = getLine(lastLine).trimEnd();
+        closed = line.endsWith('$$');
+        lines.push(closed ? line.slice(0, -2) : line);
       }
-    } catch (error) {
-      // If rendering fails, show error but continue document rendering
-      const errorMessage = error instanceof Error ? error.message : 'Unknown rendering error';
-      console.error(`Error rendering ${info} diagram:`, errorMessage);
+    }
+
+    if (silent) {
+      return true;
+    }
+
+    const token = state.push('math_block', 'math', 0);
+    token.block = true;
+    token.content = lines.join('\n').trim();
+    token.markup = '$$';
+    token.map = [startLine, lastLine + 1];
+    state.line = lastLine + 1;
+    return true;
+  }
+
+  /**
+   * Custom renderer for images that reference diagram files.
+   *
+   * `![](flow.mmd)`, `![](arch.puml)` and `![](deps.dot)` are rendered as diagrams when the image
+   * is the only content of its paragraph (see the diagram_file_images rule);
+   * all other images use the default renderer, with local files mapped through
+   * `resourceUrl` and missing files replaced by a placeholder.
+   *
+   * @param tokens - Token array
+   * @param idx - Current token index
+   * @param options - Markdown-it options
+   * @param env - Render environment
+   * @param self - Renderer instance
+   * @returns Rendered HTML
+   */
+  private renderImage(
+    tokens: MarkdownIt.Token[],
+    idx: number,
+    options: MarkdownIt.Options,
+    env: unknown,
+    self: MarkdownIt.Renderer
+  ): string {
+    const token = tokens[idx];
+    const renderEnv = env as RenderEnv;
+    const renderer = token.meta?.diagramRenderer as DiagramRenderer | undefined;
+    if (!renderer) {
+      const src = token.attrGet('src') ?? '';
+      const image = this.resolveLocalImage(src, renderEnv);
+      if (image && !image.exists) {
+        return this.renderMissingImage(src, self.renderInlineAsText(token.children ?? [], options, env));
+      }
+      if (image && renderEnv.resourceUrl) {
+        token.attrSet('src', renderEnv.resourceUrl(image.filePath));
+      }
+      return this.defaultImageRenderer(tokens, idx, options, env, self);
+    }
+
+    const file = this.decodeFileReference(token.attrGet('src') ?? '');
+    return this.deferDiagram(renderEnv, async () =>
+      this.addLineMarker(await this.renderDiagramFile(renderer, file, renderEnv), token)
+    );
+  }
+
+  /**
+   * Resolve the `src` of `<img>` tags in raw HTML to local files.
+   *
+   * @param html - HTML block or inline HTML from the document
+   * @param env - Render environment
+   * @returns HTML with local image sources rewritten and missing images replaced by placeholders
+   */
+  private resolveHtmlImages(html: string, env: RenderEnv): string {
+    return html.replace(/<img\b[^>]*>/gi, (tag) => {
+      const match = /(\ssrc\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i.exec(tag);
+      const src = match ? (match[2] ?? match[3] ?? match[4]) : undefined;
+      const image = src ? this.resolveLocalImage(src, env) : undefined;
+      if (!match || !src || !image) {
+        return tag;
+      }
+      if (!image.exists) {
+        return this.renderMissingImage(src, '');
+      }
+      if (!env.resourceUrl) {
+        return tag;
+      }
+
+      const attribute = `${match[1]}"${this.escapeHtml(env.resourceUrl(image.filePath))}"`;
+      return tag.slice(0, match.index) + attribute + tag.slice(match.index + match[0].length);
+    });
+  }
+
+  /**
+   * Resolve an image source that points to a local file.
+   *
+   * Sources are resolved like links (relative to the document, or to its
+   * workspace folder when they start with `/`). Missing files are recorded as
+   * dependencies, so the preview refreshes once they are created.
+   *
+   * @param src - Image source as written in the document
+   * @param env - Render environment
+   * @returns Absolute path and whether the file exists, or undefined for remote, data and unresolvable sources
+   */
+  private resolveLocalImage(src: string, env: RenderEnv): { filePath: string; exists: boolean } | undefined {
+    if (!env.documentPath || src.trim().startsWith('//')) {
+      return undefined;
+    }
+
+    const target = LinkResolver.resolve(src, env.documentPath, env.workspaceRoots);
+    if (target?.kind !== 'file') {
+      return undefined;
+    }
+
+    const exists = fs.existsSync(target.path);
+    if (!exists) {
+      env.dependencies.add(target.path);
+    }
+    return { filePath: target.path, exists };
+  }
+
+  /**
+   * Render a placeholder for an image whose file does not exist.
+   *
+   * @param src - Image source as written in the document
+   * @param alt - Alternative text of the image
+   * @returns Placeholder HTML
+   */
+  private renderMissingImage(src: string, alt: string): string {
+    const label = alt ? ` aria-label="${this.escapeHtml(alt)}"` : '';
+    return `<span class="missing-image" role="img"${label} style="display: inline-block; padding: 4px 8px; border: 1px dashed #f85149; border-radius: 6px; color: #f85149; font-size: 0.9em;">Image not found: <code>${this.escapeHtml(this.decodeFileReference(src))}</code></span>`;
+  }
+
+  /**
+   * Mark images that reference diagram files and stand alone in a paragraph.
+   *
+   * The surrounding paragraph is hidden so that the diagram's block markup is not
+   * nested inside a `<p>`, and its source line marker is moved onto the image.
+   *
+   * @param state - Core rule state
+   */
+  private markDiagramFileImages(state: MarkdownIt.StateCore): void {
+    const tokens = state.tokens;
+
+    for (let i = 1; i < tokens.length - 1; i++) {
+      const inline = tokens[i];
+      const paragraphOpen = tokens[i - 1];
+      const paragraphClose = tokens[i + 1];
+      if (
+        inline.type !== 'inline' ||
+        paragraphOpen.type !== 'paragraph_open' ||
+        paragraphClose.type !== 'paragraph_close'
+      ) {
+        continue;
+      }
+
+      const children = (inline.children ?? []).filter(
+        (child) => !(child.type === 'text' && child.content.trim() === '')
+      );
+      if (children.length !== 1 || children[0].type !== 'image') {
+        continue;
+      }
+
+      const image = children[0];
+      const renderer = this.getDiagramFileRenderer(
+        this.decodeFileReference(image.attrGet('src') ?? '')
+      );
+      if (!renderer) {
+        continue;
+      }
+
+      image.meta = { ...image.meta, diagramRenderer: renderer };
+      paragraphOpen.hidden = true;
+      paragraphClose.hidden = true;
+
+      const line = paragraphOpen.attrGet('data-line');
+      if (line !== null) {
+        image.attrSet('data-line', line);
+      }
+    }
+  }
+
+  /**
+   * Decode a file reference that markdown-it has percent-encoded.
+   *
+   * @param reference - Link destination from the token
+   * @returns Decoded reference (unchanged if it is not valid percent-encoding)
+   */
+  private decodeFileReference(reference: string): string {
+    try {
+      return decodeURIComponent(reference);
+    } catch {
+      return reference;
+    }
+  }
+
+  /**
+   * Load a diagram from a file next to the document and render it.
+   *
+   * The file is recorded as a dependency even when it cannot be read, so the
+   * preview refreshes once it is created. Relative references inside the
+   * diagram (e.g. PlantUML includes) resolve against the diagram file.
+   *
+   * @param renderer - Renderer for the diagram
+   * @param file - File reference, relative to the Markdown document
+   * @param env - Render environment
+   * @returns Promise resolving to diagram HTML or an error box
+   */
+  private async renderDiagramFile(
+    renderer: DiagramRenderer,
+    file: string,
+    env: RenderEnv
+  ): Promise<string> {
+    if (!path.isAbsolute(file) && !env.documentPath) {
+      return DiagramRendererRegistry.renderError(
+        renderer,
+        `Cannot resolve diagram file without a saved document: ${file}`
+      );
+    }
 
-      // Return error message in a visible format
-      return `<div class="diagram-error" style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
-  <strong style="color: #f85149;">Diagram Rendering Error (${this.escapeHtml(info)})</strong>
-  <p style="margin: 8px 0; color: #57606a;">${this.escapeHtml(errorMessage)}</p>
-</div>`;
+    const filePath = path.resolve(env.documentPath ? path.dirname(env.documentPath) : '', file);
+    env.dependencies.add(filePath);
+
+    let content: string;
+    try {
+      content = (await fs.promises.readFile(filePath, 'utf-8')).replace(/\r\n/g, '\n');
+    } catch {
+      return DiagramRendererRegistry.renderError(renderer, `Cannot read diagram file: ${file}`);
+    }
+
+    return DiagramRendererRegistry.render(renderer, content, {
+      baseDir: path.dirname(filePath),
+      dependencies: env.dependencies,
+      frontMatter: env.frontMatter?.data,
+    });
+  }
+
+  /**
+   * Queue an asynchronous diagram render and return its placeholder.
+   *
+   * @param env - Render environment collecting pending diagrams
+   * @param render - Function producing the diagram HTML
+   * @returns Placeholder to emit in place of the diagram
+   */
+  private deferDiagram(env: RenderEnv, render: () => Promise<string>): string {
+    const placeholder = `<!--pending-diagram-${env.placeholderNonce}-${env.pendingDiagrams.length}-->`;
+    env.pendingDiagrams.push({ placeholder, render });
+    return placeholder;
+  }
+
+  /**
+   * Render all deferred diagrams concurrently and replace their placeholders.
+   *
+   * Renderers report failures as error HTML, so one failing diagram never
+   * prevents the others from being inserted.
+   *
+   * @param html - Rendered HTML containing placeholders
+   * @param pendingDiagrams - Diagrams queued during rendering
+   * @returns HTML with all placeholders replaced
+   */
+  private async renderPendingDiagrams(
+    html: string,
+    pendingDiagrams: PendingDiagram[]
+  ): Promise<string> {
+    const results = await Promise.all(pendingDiagrams.map((diagram) => diagram.render()));
+
+    return pendingDiagrams.reduce(
+      (output, diagram, index) => output.replace(diagram.placeholder, () => results[index]),
+      html
+    );
+  }
+
+  /**
+   * Add the token's source line marker to the outermost element of rendered diagram HTML.
+   *
+   * Diagram renderers produce their own markup, so the `data-line` attribute set by
+   * the source_line_markers rule has to be transferred onto the wrapper manually.
+   *
+   * @param html - Rendered diagram HTML
+   * @param token - Fence token the HTML was rendered from
+   * @returns HTML with the line marker applied (unchanged if markers are disabled)
+   */
+  private addLineMarker(html: string, token: MarkdownIt.Token): string {
+    const line = token.attrGet('data-line');
+    if (line === null) {
+      return html;
+    }
+    return html.replace(/^(\s*<div)/, `$1 data-line="${line}"`);
+  }
+
+  /**
+   * Apply line numbers, highlighted lines and a title from the fence info to a code block.
+   *
+   * Each line is wrapped in a `code-line` span (re-opening highlight.js spans that
+   * cross line breaks). Line numbers are drawn by CSS from `data-line-number`, so
+   * the code element's text, which the copy button copies, stays unchanged.
+   *
+   * @param html - Code block HTML from the default fence renderer
+   * @param fenceInfo - Parsed fence info string
+   * @returns Decorated code block HTML (unchanged if the fence has no such options)
+   */
+  private decorateCodeBlock(html: string, fenceInfo: FenceInfo): string {
+    const { attributes, flags, highlightedLines } = fenceInfo;
+    const showLineNumbers = flags.has('showLineNumbers');
+    const title = attributes.title;
+    if (!showLineNumbers && highlightedLines.length === 0 && !title) {
+      return html;
+    }
+
+    const match = html.match(/^<pre><code([^>]*)>([\s\S]*)<\/code><\/pre>(\s*)$/);
+    if (!match) {
+      return html;
     }
+
+    const lines = SyntaxHighlighter.splitLines(match[2]).map((line, index) => {
+      const lineNumber = index + 1;
+      const highlighted = highlightedLines.some(([start, end]) => lineNumber >= start && lineNumber <= end);
+      const className = highlighted ? 'code-line highlighted' : 'code-line';
+      const numberAttribute = showLineNumbers ? ` data-line-number="${lineNumber}"` : '';
+      return `<span class="${className}"${numberAttribute}>${line}</span>`;
+    });
+
+    const titleAttribute = title ? ` data-title="${this.escapeHtml(title)}"` : '';
+    return `<pre class="code-lines"${titleAttribute}><code${match[1]}>${lines.join('\n')}\n</code></pre>${match[3]}`;
   }
 
   /**
    * Wrap code blocks with copy button container.
    * This is called as a post-processing step after markdown-it renders the HTML.
+   * A `data-title` on the `<pre>` (from a `title=` fence attribute) is rendered as
+   * a filename header above the code. `diff-<language>` blocks get a second button
+   * that copies the code after the change, without diff markers.
    *
    * @param html - Rendered HTML from markdown-it
    * @returns HTML with copy buttons added
@@ -223,23 +871,40 @@ export class MarkdownProcessor {
   private addCopyButtons(html: string): string {
     // Regular expression to find <pre><code> blocks
     // This matches standard code blocks but NOT diagram containers
-    const codeBlockRegex = /<pre><code([^>]*)>([\s\S]*?)<\/code><\/pre>/g;
+    const codeBlockRegex = /<pre([^>]*)><code([^>]*)>([\s\S]*?)<\/code><\/pre>/g;
 
-    // Copy button HTML with SVG icon
-    const copyButtonHtml = `
-    <button class="copy-code-button" aria-label="Copy code to clipboard" title="Copy code">
+    const copyButtonHtml = this.renderCopyButton('Copy code', 'Copy');
+    const copyNewCodeButtonHtml = this.renderCopyButton('Copy code after the change', 'Copy new', ' data-copy="new-code"');
+
+    // Replace each code block with wrapped version
+    return html.replace(codeBlockRegex, (_match, preAttributes, attributes, code) => {
+      const title = /\sdata-title="([^"]*)"/.exec(preAttributes);
+      const titleHtml = title ? `<div class="code-block-title">${title[1]}</div>` : '';
+      const buttonsHtml = /class="[^"]*\blanguage-diff-/.test(attributes)
+        ? `<div class="code-copy-buttons">${copyNewCodeButtonHtml}${copyButtonHtml}</div>`
+        : copyButtonHtml;
+      return `<div class="code-block-wrapper">${titleHtml}${buttonsHtml}<pre${preAttributes}><code${attributes}>${code}</code></pre></div>`;
+    });
+  }
+
+  /**
+   * Render a code copy button.
+   *
+   * @param title - Tooltip; also used for the accessible label
+   * @param text - Button text
+   * @param attributes - Extra attributes for the button element
+   * @returns Copy button HTML with SVG icon
+   */
+  private renderCopyButton(title: string, text: string, attributes = ''): string {
+    return `
+    <button class="copy-code-button"${attributes} aria-label="${title} to clipboard" title="${title}">
       <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
         <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
       </svg>
-      <span class="button-text">Copy</span>
+      <span class="button-text">${text}</span>
       <span class="button-feedback" role="status" aria-live="polite"></span>
     </button>
   `.trim();
-
-    // Replace each code block with wrapped version
-    return html.replace(codeBlockRegex, (_match, attributes, code) => {
-      return `<div class="code-block-wrapper">${copyButtonHtml}<pre><code${attributes}>${code}</code></pre></div>`;
-    });
   }
 
   /**
@@ -258,44 +923,6 @@ export class MarkdownProcessor {
       return ''; // No language specified, use default
     }
 
-    // Normalize language (handle aliases)
-    const normalizedLang = this.normalizeLanguage(lang);
-    if (!normalizedLang) {
-      console.warn(`Syntax highlighting not supported for language: ${lang}`);
-      return ''; // Unsupported language, use default escaping
-    }
-
-    try {
-      const result = hljs.highlight(code, { language: normalizedLang });
-      return result.value;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`Error highlighting ${lang} code:`, errorMessage);
-      return ''; // Fall back to default escaping on error
-    }
-  }
-
-  /**
-   * Normalize language identifier to handle aliases.
-   *
-   * @param lang - Language identifier from fence
-   * @returns Normalized language name or null if unsupported
-   */
-  private normalizeLanguage(lang: string): string | null {
-    const lowercased = lang.toLowerCase();
-
-    // Check if it's a direct match
-    const direct = SUPPORTED_LANGUAGES.find((l) => l.name === lowercased);
-    if (direct) {
-      return direct.name;
-    }
-
-    // Check aliases
-    const aliased = SUPPORTED_LANGUAGES.find((l) => l.aliases.includes(lowercased));
-    if (aliased) {
-      return aliased.name;
-    }
-
-    return null; // Language not supported
+    return SyntaxHighlighter.highlight(code, lang);
   }
 }
@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import hljs from 'highlight.js/lib/core';
+import type { LanguageFn } from 'highlight.js';
+import hcl from './languages/hcl';
+import { HIGHLIGHT_LANGUAGES, HIGHLIGHT_LANGUAGE_ALIASES } from './highlightLanguages';
+
+/**
+ * Languages bundled with the extension that highlight.js does not ship.
+ */
+const EXTRA_LANGUAGES: { [name: string]: () => LanguageFn } = {
+  hcl: (): LanguageFn => hcl,
+};
+
+/**
+ * Fence aliases resolved before the highlight.js aliases.
+ *
+ * Keeps the previous meaning of `shell` (Bash rather than a shell session) and
+ * adds aliases highlight.js does not define.
+ */
+const BUILT_IN_ALIASES: { [alias: string]: string } = {
+  htm: 'xml',
+  shell: 'bash',
+  sass: 'scss',
+  jsonl: 'json', // JSONL uses JSON syntax
+  terraform: 'hcl',
+  tf: 'hcl',
+  tfvars: 'hcl',
+};
+
+/**
+ * Diff lines that are not part of the code (hunk headers, `\ No newline at end of file`).
+ * `---`/`+++` file headers are only recognized before the first hunk.
+ */
+const DIFF_META_LINE = /^(@@|diff |index |\\ )/;
+const DIFF_FILE_HEADER = /^(---|\+\+\+)( |$)/;
+
+/**
+ * Syntax highlighter for fenced code blocks.
+ *
+ * Supports every highlight.js language (plus HCL), loading each language the
+ * first time a fence uses it instead of registering all of them at startup.
+ * Fence languages are resolved through the user's
+ * `markdownPreviewer.highlight.languageAliases` setting first, then the
+ * built-in and highlight.js aliases.
+ * `diff-<language>` fences (e.g. `diff-typescript`) are highlighted as a diff
+ * whose lines are highlighted as the named language.
+ */
+export class SyntaxHighlighter {
+  private static readonly languages = new Map<string, () => LanguageFn>(
+    Object.entries({ ...HIGHLIGHT_LANGUAGES, ...EXTRA_LANGUAGES })
+  );
+  private static readonly builtInAliases = new Map<string, string>(Object.entries(BUILT_IN_ALIASES));
+  private static readonly aliases = new Map<string, string>(Object.entries(HIGHLIGHT_LANGUAGE_ALIASES));
+  private static readonly warnedLanguages = new Set<string>();
+
+  /**
+   * Highlight code for a fence language.
+   *
+   * @param code - Code content to highlight
+   * @param lang - Language identifier from the fence
+   * @returns Highlighted HTML, or empty string if the language is unsupported
+   *   (markdown-it then escapes the code)
+   */
+  public static highlight(code: string, lang: string): string {
+    const diffLanguage = /^diff-(.+)$/i.exec(lang);
+    if (diffLanguage) {
+      return this.highlightDiff(code, diffLanguage[1]);
+    }
+
+    const language = this.resolveLanguage(lang);
+    if (!language) {
+      // Warn once per language rather than for every code block on every update
+      if (!this.warnedLanguages.has(lang)) {
+        this.warnedLanguages.add(lang);
+        console.warn(`[SyntaxHighlighter] Syntax highlighting not supported for language: ${lang}`);
+      }
+      return '';
+    }
+
+    try {
+      return hljs.highlight(code, { language }).value;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[SyntaxHighlighter] Error highlighting ${lang} code:`, errorMessage);
+      return ''; // Fall back to default escaping on error
+    }
+  }
+
+  /**
+   * Highlight a diff, highlighting the code in each line as the given language.
+   *
+   * The code of all added, removed and context lines is highlighted as one block
+   * (so that multi-line comments and strings are recognized) and then split back
+   * into lines. Each of these lines is wrapped in a `diff-line` span with the
+   * `hljs-addition`/`hljs-deletion` class of the diff grammar and its `+`/`-`
+   * marker in a `diff-marker` span; hunk and file headers are highlighted with
+   * the diff grammar.
+   *
+   * @param code - Diff content
+   * @param lang - Language of the code in the diff
+   * @returns Highlighted HTML, or empty string if highlighting failed
+   */
+  public static highlightDiff(code: string, lang: string): string {
+    const language = this.resolveLanguage(lang) ?? 'plaintext';
+    if (!this.loadLanguage(language) || !this.loadLanguage('diff')) {
+      return '';
+    }
+
+    const lines = code.replace(/\n$/, '').split('\n');
+    let inHunk = false;
+    const kinds = lines.map((line) => {
+      if (DIFF_META_LINE.test(line) || (!inHunk && DIFF_FILE_HEADER.test(line))) {
+        inHunk = inHunk || line.startsWith('@@');
+        return 'meta';
+      }
+      return line[0] === '+' ? 'addition' : line[0] === '-' ? 'deletion' : 'context';
+    });
+
+    try {
+      // Context lines may have lost their leading space (e.g. trimmed blank lines)
+      const markerLength = (line: string): number => (/^[+\- ]/.test(line) ? 1 : 0);
+      const codeLines = lines
+        .filter((_line, index) => kinds[index] !== 'meta')
+        .map((line) => line.slice(markerLength(line)));
+      const highlightedCode = this.splitLines(hljs.highlight(codeLines.join('\n'), { language }).value);
+
+      let codeIndex = 0;
+      const html = lines.map((line, index) => {
+        const kind = kinds[index];
+        if (kind === 'meta') {
+          return hljs.highlight(line, { language: 'diff' }).value;
+        }
+
+        const highlighted = highlightedCode[codeIndex++] ?? '';
+        const className = kind === 'context' ? 'diff-line' : `diff-line hljs-${kind}`;
+        const marker = markerLength(line) ? `<span class="diff-marker">${line[0]}</span>` : '';
+        return `<span class="${className}">${marker}${highlighted}</span>`;
+      });
+
+      return html.join('\n') + (code.endsWith('\n') ? '\n' : '');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[SyntaxHighlighter] Error highlighting diff-${lang} code:`, errorMessage);
+      return ''; // Fall back to default escaping on error
+    }
+  }
+
+  /**
+   * Split highlighted code HTML into lines.
+   *
+   * highlight.js spans (e.g. multi-line comments) are closed at the end of each
+   * line and re-opened on the next, so that every line is well-formed HTML.
+   *
+   * @param html - Highlighted (or escaped) code HTML
+   * @returns HTML of each line, without the trailing empty line
+   */
+  public static splitLines(html: string): string[] {
+    const lines: string[] = [];
+    const openSpans: string[] = [];
+    let line = '';
+
+    for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+      if (part === '\n') {
+        lines.push(line + '</span>'.repeat(openSpans.length));
+        line = openSpans.join('');
+      } else {
+        if (part.startsWith('<span')) {
+          openSpans.push(part);
+        } else if (part === '</span>') {
+          openSpans.pop();
+        }
+        line += part;
+      }
+    }
+
+    if (line !== openSpans.join('')) {
+      lines.push(line + '</span>'.repeat(openSpans.length));
+    }
+    return lines;
+  }
+
+  /**
+   * Resolve a fence language to a highlight.js language, loading it on first use.
+   *
+   * @param lang - Language identifier from the fence
+   * @returns Registered highlight.js language name, or null if unsupported
+   */
+  public static resolveLanguage(lang: string): string | null {
+    const name = this.getCustomAlias(lang) ?? lang.toLowerCase();
+    const language =
+      this.builtInAliases.get(name) ?? (this.languages.has(name) ? name : this.aliases.get(name));
+    if (!language) {
+      return null;
+    }
+
+    return this.loadLanguage(language) ? language : null;
+  }
+
+  /**
+   * Look up a fence language in the user's alias setting.
+   *
+   * @param lang - Language identifier from the fence
+   * @returns Lowercased target language, or undefined if the user did not map it
+   */
+  private static getCustomAlias(lang: string): string | undefined {
+    const customAliases = vscode.workspace
+      .getConfiguration('markdownPreviewer')
+      .get<{ [alias: string]: string }>('highlight.languageAliases', {});
+
+    const lowercased = lang.toLowerCase();
+    const entry = Object.entries(customAliases ?? {}).find(
+      ([alias, target]) => alias.toLowerCase() === lowercased && typeof target === 'string'
+    );
+    return entry?.[1].toLowerCase();
+  }
+
+  /**
+   * Register a language with highlight.js unless it is already registered.
+   *
+   * highlight.js only highlights embedded code (e.g. `<script>` in HTML) in
+   * languages that are registered, so the languages a definition embeds through
+   * `subLanguage` are loaded with it.
+   *
+   * @param name - highlight.js language name
+   * @returns True if the language is available
+   */
+  private static loadLanguage(name: string): boolean {
+    if (hljs.getLanguage(name)) {
+      return true;
+    }
+
+    const loader = this.languages.get(name);
+    if (!loader) {
+      return false;
+    }
+
+    try {
+      hljs.registerLanguage(name, loader());
+      this.findSubLanguages(hljs.getLanguage(name), new Set(), new Set()).forEach((subLanguage) =>
+        this.loadLanguage(this.aliases.get(subLanguage) ?? subLanguage)
+      );
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[SyntaxHighlighter] Failed to load language ${name}:`, errorMessage);
+      return false;
+    }
+  }
+
+  /**
+   * Collect the languages a language definition embeds through `subLanguage`.
+   *
+   * @param mode - Language definition or one of its modes
+   * @param found - Language names found so far
+   * @param seen - Modes already visited (definitions may reference modes more than once)
+   * @returns The `found` set
+   */
+  private static findSubLanguages(mode: unknown, found: Set<string>, seen: Set<object>): Set<string> {
+    if (typeof mode !== 'object' || mode === null || mode instanceof RegExp || seen.has(mode)) {
+      return found;
+    }
+    seen.add(mode);
+
+    Object.entries(mode).forEach(([key, value]) => {
+      if (key === 'subLanguage') {
+        [value].flat().forEach((language) => typeof language === 'string' && found.add(language));
+      } else {
+        this.findSubLanguages(value, found, seen);
+      }
+    });
+    return found;
+  }
+}
@@ -0,0 +1,195 @@
+import MarkdownIt from 'markdown-it';
+
+/**
+ * Heading listed in a table of contents.
+ */
+interface TocHeading {
+  level: number;
+  slug: string;
+  text: string;
+}
+
+/**
+ * Nested table of contents entry.
+ */
+interface TocEntry {
+  heading: TocHeading;
+  children: TocEntry[];
+}
+
+/**
+ * `[[toc]]` paragraph (matched against the paragraph's inline source).
+ */
+const TOC_PARAGRAPH = /^\s*\[\[toc\]\]\s*$/i;
+
+/**
+ * `<!-- toc -->` HTML comment block.
+ */
+const TOC_COMMENT = /^\s*<!--\s*toc\s*-->\s*$/i;
+
+/**
+ * Characters removed from heading slugs: everything except letters, marks,
+ * numbers, connector punctuation (`_`), spaces and hyphens.
+ */
+const SLUG_REMOVE = /[^\p{L}\p{M}\p{N}\p{Pc} -]/gu;
+
+/**
+ * markdown-it plugin for heading anchors and tables of contents.
+ *
+ * Gives every heading an `id` generated the same way as on GitHub (lowercased,
+ * punctuation removed, spaces replaced by hyphens, `-1`, `-2`, … appended to
+ * duplicates), so `[see](#design)` links work. Non-Latin headings such as
+ * Japanese keep their characters. A paragraph containing only `[[toc]]`, or a
+ * `<!-- toc -->` comment, is replaced by a nested list linking to the headings.
+ */
+export class TableOfContentsPlugin {
+  /**
+   * Install the plugin.
+   *
+   * @param md - markdown-it instance
+   */
+  public static install(md: MarkdownIt): void {
+    md.core.ruler.push('heading_anchors', (state) => TableOfContentsPlugin.addAnchors(state));
+
+    md.renderer.rules.toc = (tokens, idx, _options, _env, self): string => {
+      const token = tokens[idx];
+      const headings = (token.meta?.headings ?? []) as TocHeading[];
+      return (
+        `<nav class="table-of-contents"${self.renderAttrs(token)}>\n` +
+        TableOfContentsPlugin.renderEntries(TableOfContentsPlugin.nest(headings), md) +
+        '</nav>\n'
+      );
+    };
+  }
+
+  /**
+   * Create a GitHub-compatible slug for a heading.
+   *
+   * @param text - Plain text of the heading
+   * @returns Slug (without de-duplication)
+   */
+  public static slugify(text: string): string {
+    return text.trim().toLowerCase().replace(SLUG_REMOVE, '').replace(/ /g, '-');
+  }
+
+  /**
+   * Assign heading ids and expand table of contents placeholders.
+   *
+   * @param state - Core parser state
+   */
+  private static addAnchors(state: MarkdownIt.StateCore): void {
+    const tokens = state.tokens;
+    const occurrences = new Map<string, number>();
+    const headings: TocHeading[] = [];
+
+    tokens.forEach((token, index) => {
+      if (token.type !== 'heading_open') {
+        return;
+      }
+
+      const text = this.getText(tokens[index + 1]);
+      let slug = token.attrGet('id');
+      if (slug === null) {
+        slug = this.uniqueSlug(this.slugify(text), occurrences);
+        token.attrSet('id', slug);
+      }
+      headings.push({ level: Number(token.tag.slice(1)), slug, text });
+    });
+
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      const token = tokens[i];
+      const isTocParagraph =
+        token.type === 'paragraph_open' &&
+        tokens[i + 1]?.type === 'inline' &&
+        TOC_PARAGRAPH.test(tokens[i + 1].content);
+      const isTocComment = token.type === 'html_block' && TOC_COMMENT.test(token.content);
+      if (!isTocParagraph && !isTocComment) {
+        continue;
+      }
+
+      const toc = new state.Token('toc', 'nav', 0);
+      toc.block = true;
+      toc.map = token.map;
+      toc.level = token.level;
+      toc.meta = { headings };
+      tokens.splice(i, isTocParagraph ? 3 : 1, toc);
+    }
+  }
+
+  /**
+   * De-duplicate a slug by appending `-1`, `-2`, … like GitHub.
+   *
+   * @param slug - Slug of the heading text
+   * @param occurrences - Slugs used so far in the document
+   * @returns Slug not used by an earlier heading
+   */
+  private static uniqueSlug(slug: string, occurrences: Map<string, number>): string {
+    let unique = slug;
+    while (occurrences.has(unique)) {
+      const count = (occurrences.get(slug) ?? 0) + 1;
+      occurrences.set(slug, count);
+      unique = `${slug}-${count}`;
+    }
+    occurrences.set(unique, 0);
+    return unique;
+  }
+
+  /**
+   * Get the plain text of a heading.
+   *
+   * @param inline - Inline token holding the heading content
+   * @returns Text of the heading, including code spans and math source
+   */
+  private static getText(inline: MarkdownIt.Token | undefined): string {
+    return (inline?.children ?? [])
+      .filter((child) => ['text', 'code_inline', 'math_inline'].includes(child.type))
+      .map((child) => child.content)
+      .join('');
+  }
+
+  /**
+   * Nest headings by level.
+   *
+   * A heading more than one level deeper than its parent is nested directly
+   * below it, so skipped levels do not produce empty list items.
+   *
+   * @param headings - Headings in document order
+   * @returns Top-level entries
+   */
+  private static nest(headings: TocHeading[]): TocEntry[] {
+    const entries: TocEntry[] = [];
+    const stack: Array<{ level: number; children: TocEntry[] }> = [{ level: 0, children: entries }];
+
+    headings.forEach((heading) => {
+      while (stack[stack.length - 1].level >= heading.level) {
+        stack.pop();
+      }
+      const entry: TocEntry = { heading, children: [] };
+      stack[stack.length - 1].children.push(entry);
+      stack.push({ level: heading.level, children: entry.children });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Render nested entries as lists of links.
+   *
+   * @param entries - Entries at one level
+   * @param md - markdown-it instance (for escaping)
+   * @returns HTML list, or empty string for no entries
+   */
+  private static renderEntries(entries: TocEntry[], md: MarkdownIt): string {
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const items = entries.map((entry) => {
+      const { slug, text } = entry.heading;
+      const link = `<a href="#${md.utils.escapeHtml(slug)}">${md.utils.escapeHtml(text)}</a>`;
+      const children = entry.children.length > 0 ? '\n' + this.renderEntries(entry.children, md) : '';
+      return `<li>${link}${children}</li>\n`;
+    });
+    return `<ul>\n${items.join('')}</ul>\n`;
+  }
+}
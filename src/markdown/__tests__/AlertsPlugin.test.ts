@@ -0,0 +1,66 @@
+import MarkdownIt from 'markdown-it';
+import { AlertsPlugin } from '../AlertsPlugin';
+
+/**
+ * Test suite for AlertsPlugin.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - GitHub alert blockquotes render with GitHub's markup
+ * - :::note containers render as the same alerts
+ * - Other blockquotes and unknown containers are left alone
+ */
+describe('AlertsPlugin', () => {
+  const md = new MarkdownIt().use(AlertsPlugin.install);
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - All five alert types are recognized, case-insensitively
+   * - The marker line is replaced by the title with its icon
+   * - The rest of the blockquote is rendered as Markdown inside the alert
+   */
+  test('should render GitHub alert blockquotes', () => {
+    ['NOTE', 'TIP', 'IMPORTANT', 'WARNING', 'caution'].forEach((type) => {
+      const html = md.render(`> [!${type}]\n> Some **text**`);
+      const name = type.toLowerCase();
+      const title = name.charAt(0).toUpperCase() + name.slice(1);
+
+      expect(html).toMatch(
+        new RegExp(
+          `^<div class="markdown-alert markdown-alert-${name}">\\n<p class="markdown-alert-title"><svg class="octicon"[^>]*><path d="[^"]+"></path></svg>${title}</p>\\n`
+        )
+      );
+      expect(html).toContain('<p>Some <strong>text</strong></p>\n</div>\n');
+      expect(html).not.toContain('[!');
+      expect(html).not.toContain('blockquote');
+    });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - :::type containers render as alerts with an optional custom title
+   * - Containers hold any Markdown and nest when the outer one uses more colons
+   */
+  test('should render ::: containers as alerts', () => {
+    const html = md.render(
+      '::::: warning Read <this>\n- item\n\n::: tip\nInner\n:::\n:::::\n\nAfter'
+    );
+
+    expect(html).toContain('<div class="markdown-alert markdown-alert-warning">');
+    expect(html).toContain(
+      '</svg>Read &lt;this&gt;</p>\n<ul>\n<li>item</li>\n</ul>\n<div class="markdown-alert markdown-alert-tip">'
+    );
+    expect(html).toContain('</svg>Tip</p>\n<p>Inner</p>\n</div>\n</div>\n<p>After</p>');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Regular blockquotes, markers followed by text and nested markers stay blockquotes (as on GitHub)
+   * - Unknown container types stay text
+   */
+  test('should leave other blockquotes and containers alone', () => {
+    expect(md.render('> Quote')).toBe('<blockquote>\n<p>Quote</p>\n</blockquote>\n');
+    expect(md.render('> [!NOTE] inline text')).toContain('<blockquote>');
+    expect(md.render('- > [!NOTE]\n  > nested')).toContain('<blockquote>');
+    expect(md.render(':::details\nText\n:::')).toBe('<p>:::details\nText\n:::</p>\n');
+  });
+});
@@ -0,0 +1,77 @@
+import { FrontMatter } from '../FrontMatter';
+
+/**
+ * Test suite for FrontMatter.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - YAML and TOML front matter is recognized only at the start of a document
+ * - Parse errors are reported instead of thrown
+ * - Front matter keys that control the preview are validated
+ */
+describe('FrontMatter', () => {
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - `---` YAML and `+++` TOML blocks are parsed, counting their lines
+   * - Empty blocks are front matter without data
+   */
+  test('should extract YAML and TOML front matter', () => {
+    expect(FrontMatter.extract('---\ntitle: Notes\ndraft: true\n---\n# Notes')).toEqual({
+      format: 'yaml',
+      raw: 'title: Notes\ndraft: true',
+      lineCount: 4,
+      data: { title: 'Notes', draft: true },
+    });
+    expect(FrontMatter.extract('+++\r\ntitle = "Notes"\r\n[plantuml]\r\nmode = "local"\r\n+++')).toEqual({
+      format: 'toml',
+      raw: 'title = "Notes"\r\n[plantuml]\r\nmode = "local"',
+      lineCount: 5,
+      data: { title: 'Notes', plantuml: { mode: 'local' } },
+    });
+    expect(FrontMatter.extract('---\n---\nText')).toEqual({ format: 'yaml', raw: '', lineCount: 2, data: {} });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Rules, setext headings and blocks later in the document are not front matter
+   * - Invalid front matter is reported with the parser's message
+   */
+  test('should ignore other blocks and report parse errors', () => {
+    expect(FrontMatter.extract('Intro\n---\ntitle: Notes\n---')).toBeNull();
+    expect(FrontMatter.extract('---\nJust a heading\n---\n')).toBeNull();
+    expect(FrontMatter.extract('---\n- a\n- b\n---')).toBeNull();
+
+    const block = FrontMatter.extract('+++\ntitle = \n+++\nText');
+    expect(block?.data).toEqual({});
+    expect(block?.error).toBeTruthy();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Theme, Mermaid, PlantUML and outline (toc) keys are read
+   * - Values of the wrong type are ignored
+   */
+  test('should read the preview options', () => {
+    expect(
+      FrontMatter.getPreviewOptions({
+        theme: 'github-dark',
+        mermaid: { theme: 'forest' },
+        plantuml: { mode: 'local' },
+        toc: false,
+      })
+    ).toEqual({ theme: 'github-dark', mermaid: { theme: 'forest' }, plantumlMode: 'local', toc: false });
+    expect(
+      FrontMatter.getPreviewOptions({ theme: 1, mermaid: 'forest', plantuml: { mode: 'offline' }, toc: 'yes' })
+    ).toEqual({});
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Dates, lists and nested values are readable in the metadata table
+   */
+  test('should format values for display', () => {
+    expect(FrontMatter.formatValue(new Date('2024-05-01'))).toBe('2024-05-01');
+    expect(FrontMatter.formatValue(['a', 1, true])).toBe('a, 1, true');
+    expect(FrontMatter.formatValue({ theme: 'forest' })).toBe('{"theme":"forest"}');
+    expect(FrontMatter.formatValue(null)).toBe('');
+  });
+});
@@ -34,7 +34,7 @@ Bob -> Alice: Hi there
 Some text after diagram.
 `;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Critical verification: Must contain actual image tag
       expect(html).toContain('<img');
@@ -54,7 +54,7 @@ Some text after diagram.
 A -> B
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // FIX 3: URL should contain ~1 prefix for DEFLATE format
       expect(html).toMatch(/plantuml\.com\/plantuml\/svg\/~1[A-Za-z0-9_-]+/);
@@ -71,7 +71,7 @@ Charlie -> Dave
 \`\`\`
 `;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Should have 2 separate PlantUML containers (now wrapped with zoom controls)
       const containerMatches = html.match(/plantuml-container/g);
@@ -90,7 +90,7 @@ Charlie -> Dave
       const markdown = `\`\`\`plantuml
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Should contain error message
       expect(html).toContain('PlantUML Diagram Error');
@@ -116,11 +116,11 @@ Bob -> Alice: Response
 More text here.
 `;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Verify heading is rendered
-      expect(html).toContain('<h1>Architecture</h1>');
-      expect(html).toContain('<h2>Details</h2>');
+      expect(html).toContain('<h1 id="architecture">Architecture</h1>');
+      expect(html).toContain('<h2 id="details">Details</h2>');
 
       // Verify paragraphs are rendered
       expect(html).toContain('This is the system architecture:');
@@ -145,7 +145,7 @@ Alice -> Bob
 \`\`\`
 `;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Mermaid should be present
       expect(html).toContain('mermaid-container');
@@ -165,7 +165,7 @@ Alice -> Bob
 Alice -> Bob: Secret message
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Should NOT contain the raw source code visible in final render
       // (unless it's in an error message)
@@ -182,7 +182,7 @@ Alice -> Bob: Secret message
 A -> B
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Critical: Must NOT show loading state
       expect(html).not.toContain('Loading');
@@ -201,7 +201,7 @@ Alice -> Bob
 @enduml
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       expect(html).toContain('<img');
       expect(html).toContain('plantuml.com');
@@ -212,7 +212,7 @@ Alice -> Bob
 Alice -> Bob
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       expect(html).toContain('<img');
       expect(html).toContain('plantuml.com');
@@ -225,7 +225,7 @@ Alice -> Bob
 
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       expect(html).toContain('<img');
     });
@@ -239,7 +239,7 @@ ${lines.join('\n')}
 @enduml
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Should use online mode (not Java/local mode)
       expect(html).toContain('src="https://www.plantuml.com/plantuml/svg/');
@@ -259,7 +259,7 @@ ${lines.join('\n')}
 @enduml
 \`\`\``;
 
-      const html = await processor.process(markdown);
+      const { html } = await processor.process(markdown);
 
       // Should use online mode even for very large diagrams
       expect(html).toContain('src="https://www.plantuml.com/plantuml/svg/');
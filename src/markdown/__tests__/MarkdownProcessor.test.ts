@@ -1,4 +1,10 @@
 import { MarkdownProcessor } from '../MarkdownProcessor';
+import { PlantUMLRenderer } from '../../renderers/PlantUMLRenderer';
+import { GraphvizRenderer } from '../../renderers/GraphvizRenderer';
+import { DiagramRendererRegistry } from '../../renderers/DiagramRendererRegistry';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 /**
  * Test suite for MarkdownProcessor.
@@ -23,7 +29,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process simple text', async () => {
     const markdown = 'Hello, world!';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('Hello, world!');
     expect(html).toMatch(/<p>.*<\/p>/);
@@ -36,11 +42,11 @@ describe('MarkdownProcessor', () => {
    */
   test('should process headings', async () => {
     const markdown = '# Heading 1\n## Heading 2\n### Heading 3';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
-    expect(html).toContain('<h1>Heading 1</h1>');
-    expect(html).toContain('<h2>Heading 2</h2>');
-    expect(html).toContain('<h3>Heading 3</h3>');
+    expect(html).toContain('<h1 id="heading-1">Heading 1</h1>');
+    expect(html).toContain('<h2 id="heading-2">Heading 2</h2>');
+    expect(html).toContain('<h3 id="heading-3">Heading 3</h3>');
   });
 
   /**
@@ -50,7 +56,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process inline formatting', async () => {
     const markdown = '*italic* **bold** `code`';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<em>italic</em>');
     expect(html).toContain('<strong>bold</strong>');
@@ -65,7 +71,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process code blocks', async () => {
     const markdown = '```javascript\nconst x = 1;\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<pre>');
     expect(html).toContain('<code');
@@ -80,7 +86,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process lists', async () => {
     const markdown = '- Item 1\n- Item 2\n  - Nested item';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<ul>');
     expect(html).toContain('<li>Item 1</li>');
@@ -94,7 +100,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process links', async () => {
     const markdown = '[Link Text](https://example.com)';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<a href="https://example.com">Link Text</a>');
   });
@@ -106,7 +112,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process images', async () => {
     const markdown = '![Alt Text](image.png)';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<img');
     expect(html).toContain('alt="Alt Text"');
@@ -120,7 +126,7 @@ describe('MarkdownProcessor', () => {
    */
   test('should process blockquotes', async () => {
     const markdown = '> This is a quote\n> Second line';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<blockquote>');
     expect(html).toContain('This is a quote');
@@ -132,7 +138,7 @@ describe('MarkdownProcessor', () => {
    * - No errors are thrown for empty strings
    */
   test('should handle empty input', async () => {
-    const html = await processor.process('');
+    const { html } = await processor.process('');
 
     expect(html).toContain('Empty document');
   });
@@ -143,7 +149,7 @@ describe('MarkdownProcessor', () => {
    * - No errors are thrown for whitespace strings
    */
   test('should handle whitespace-only input', async () => {
-    const html = await processor.process('   \n  \n  ');
+    const { html } = await processor.process('   \n  \n  ');
 
     expect(html).toContain('Empty document');
   });
@@ -169,9 +175,9 @@ const hello = 'world';
 
 [Link](https://example.com)`;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
-    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('<h1 id="title">Title</h1>');
     expect(html).toContain('<strong>bold</strong>');
     expect(html).toContain('<em>italic</em>');
     expect(html).toContain('<ul>');
@@ -186,7 +192,7 @@ const hello = 'world';
    */
   test('should linkify URLs', async () => {
     const markdown = 'Visit https://example.com for more info';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<a href="https://example.com">https://example.com</a>');
   });
@@ -201,7 +207,7 @@ const hello = 'world';
 |----------|----------|
 | Cell 1   | Cell 2   |`;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<table>');
     expect(html).toContain('<thead>');
@@ -217,7 +223,7 @@ const hello = 'world';
    */
   test('should handle HTML special characters in markdown', async () => {
     const markdown = 'Text with <script>alert("xss")</script> and & ampersand';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     // markdown-it allows HTML by default (configured with html: true)
     // But we test that our escapeHtml method works for error messages
@@ -232,7 +238,7 @@ const hello = 'world';
    */
   test('should handle text with quotes and special chars', async () => {
     const markdown = 'Text with "quotes" and \'apostrophes\' and <tags>';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toBeDefined();
     expect(html).toContain('quotes');
@@ -248,11 +254,12 @@ const hello = 'world';
     const markdown = Array(100)
       .fill('# Heading\n\nParagraph with **bold** and *italic* text.\n\n')
       .join('');
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
-    expect(html).toContain('<h1>Heading</h1>');
+    expect(html).toContain('<h1 id="heading">Heading</h1>');
+    expect(html).toContain('<h1 id="heading-99">Heading</h1>');
     expect(html).toContain('<strong>bold</strong>');
-    expect(html.match(/<h1>/g)?.length).toBe(100);
+    expect(html.match(/<h1 /g)?.length).toBe(100);
   });
 
   /**
@@ -262,7 +269,7 @@ const hello = 'world';
    */
   test('should process horizontal rules', async () => {
     const markdown = '---\n\nText\n\n***\n\nMore text';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<hr>');
     expect(html).toContain('Text');
@@ -276,7 +283,7 @@ const hello = 'world';
    */
   test('should process ordered lists', async () => {
     const markdown = '1. First\n2. Second\n3. Third';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<ol>');
     expect(html).toContain('<li>First</li>');
@@ -291,7 +298,7 @@ const hello = 'world';
    */
   test('should handle mixed inline formatting', async () => {
     const markdown = '**bold *and italic* text** with `inline code`';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<strong>');
     expect(html).toContain('<em>');
@@ -306,7 +313,7 @@ const hello = 'world';
    */
   test('should detect and render mermaid diagrams', async () => {
     const markdown = '```mermaid\ngraph TD\n  A --> B\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('class="diagram-clickable mermaid-container"');
     expect(html).toContain('data-diagram-type="mermaid"');
@@ -322,7 +329,7 @@ const hello = 'world';
    */
   test('should detect and render plantuml diagrams', async () => {
     const markdown = '```plantuml\n@startuml\nAlice -> Bob\n@enduml\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('plantuml-container');
     expect(html).toContain('<img');
@@ -337,7 +344,7 @@ const hello = 'world';
    */
   test('should still render regular code blocks', async () => {
     const markdown = '```javascript\nconst x = 1;\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<pre>');
     expect(html).toContain('<code');
@@ -376,9 +383,9 @@ Alice -> Bob
 const x = 1;
 \`\`\``;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
-    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('<h1 id="title">Title</h1>');
     expect(html).toContain('mermaid-container');
     expect(html).toContain('plantuml-container');
     // Check for highlighted content or plain const keyword
@@ -393,7 +400,7 @@ const x = 1;
    */
   test('should handle empty mermaid diagram', async () => {
     const markdown = '```mermaid\n\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('Mermaid Diagram Error');
     expect(html).toContain('Empty diagram content');
@@ -407,7 +414,7 @@ const x = 1;
    */
   test('should handle empty plantuml diagram', async () => {
     const markdown = '```plantuml\n\n```';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     // Empty diagrams show error message
     expect(html).toContain('PlantUML Diagram Error');
@@ -424,9 +431,9 @@ const x = 1;
     const markdownUpper = '```MERMAID\ngraph TD\n  A --> B\n```';
     const markdownMixed = '```Mermaid\ngraph TD\n  A --> B\n```';
 
-    const htmlLower = await processor.process(markdownLower);
-    const htmlUpper = await processor.process(markdownUpper);
-    const htmlMixed = await processor.process(markdownMixed);
+    const { html: htmlLower } = await processor.process(markdownLower);
+    const { html: htmlUpper } = await processor.process(markdownUpper);
+    const { html: htmlMixed } = await processor.process(markdownMixed);
 
     expect(htmlLower).toContain('mermaid-container');
     expect(htmlUpper).toContain('mermaid-container');
@@ -443,9 +450,9 @@ const x = 1;
     const markdownUpper = '```PLANTUML\n@startuml\nA -> B\n@enduml\n```';
     const markdownMixed = '```PlantUML\n@startuml\nA -> B\n@enduml\n```';
 
-    const htmlLower = await processor.process(markdownLower);
-    const htmlUpper = await processor.process(markdownUpper);
-    const htmlMixed = await processor.process(markdownMixed);
+    const { html: htmlLower } = await processor.process(markdownLower);
+    const { html: htmlUpper } = await processor.process(markdownUpper);
+    const { html: htmlMixed } = await processor.process(markdownMixed);
 
     expect(htmlLower).toContain('plantuml-container');
     expect(htmlUpper).toContain('plantuml-container');
@@ -469,7 +476,7 @@ graph LR
   C --> D
 \`\`\``;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     const matches = html.match(/class="diagram-clickable mermaid-container"/g);
     expect(matches).toHaveLength(2);
@@ -489,7 +496,7 @@ sequenceDiagram
     Bob-->>Alice: Hi Alice
 \`\`\``;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('mermaid-container');
     expect(html).toContain('sequenceDiagram');
@@ -510,7 +517,7 @@ System --> User: Response
 @enduml
 \`\`\``;
 
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('plantuml-container');
     expect(html).toContain('<img');
@@ -525,7 +532,7 @@ System --> User: Response
    */
   test('should render unchecked checkboxes', async () => {
     const markdown = '- [ ] Task item';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<input');
     expect(html).toContain('type="checkbox"');
@@ -543,7 +550,7 @@ System --> User: Response
    */
   test('should render checked checkboxes', async () => {
     const markdown = '- [x] Completed task';
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     expect(html).toContain('<input');
     expect(html).toContain('type="checkbox"');
@@ -563,7 +570,7 @@ System --> User: Response
 - [ ] Task 2 pending
 - [x] Task 3 completed
 - [ ] Task 4 pending`;
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     // Check that we have 4 checkboxes
     const checkboxMatches = html.match(/<input[^>]*type="checkbox"/g);
@@ -591,7 +598,7 @@ System --> User: Response
   - [ ] Child task 1
   - [x] Child task 2
 - [ ] Another parent task`;
-    const html = await processor.process(markdown);
+    const { html } = await processor.process(markdown);
 
     // Check that we have 4 checkboxes
     const checkboxMatches = html.match(/<input[^>]*type="checkbox"/g);
@@ -624,7 +631,7 @@ System --> User: Response
        */
       test('should highlight JavaScript code', async () => {
         const markdown = '```javascript\nconst x = 1;\nfunction greet() {}\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('const');
@@ -638,7 +645,7 @@ System --> User: Response
        */
       test('should highlight HTML code', async () => {
         const markdown = '```html\n<div class="test">Hello</div>\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('div');
@@ -651,7 +658,7 @@ System --> User: Response
        */
       test('should highlight CSS code', async () => {
         const markdown = '```css\n.container { display: flex; }\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('container');
@@ -664,7 +671,7 @@ System --> User: Response
        */
       test('should highlight PHP code', async () => {
         const markdown = '```php\n<?php\nfunction test() { return true; }\n?>\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('function');
@@ -677,7 +684,7 @@ System --> User: Response
        */
       test('should highlight Python code', async () => {
         const markdown = '```python\ndef greet(name):\n    return f"Hello, {name}"\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('def');
@@ -690,7 +697,7 @@ System --> User: Response
        */
       test('should highlight Ruby code', async () => {
         const markdown = '```ruby\ndef greet(name)\n  "Hello, #{name}"\nend\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('def');
@@ -703,7 +710,7 @@ System --> User: Response
        */
       test('should highlight Java code', async () => {
         const markdown = '```java\npublic class Test {\n  public static void main(String[] args) {}\n}\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('public');
@@ -716,7 +723,7 @@ System --> User: Response
        */
       test('should highlight YAML code', async () => {
         const markdown = '```yaml\nname: test\nversion: 1.0\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('name');
@@ -729,7 +736,7 @@ System --> User: Response
        */
       test('should highlight JSON code', async () => {
         const markdown = '```json\n{"name": "test", "version": "1.0"}\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('name');
@@ -742,7 +749,7 @@ System --> User: Response
        */
       test('should highlight diff code', async () => {
         const markdown = '```diff\n- old line\n+ new line\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-diff">');
         expect(html).toContain('hljs');
@@ -755,7 +762,7 @@ System --> User: Response
        */
       test('should highlight bash code', async () => {
         const markdown = '```bash\n#!/bin/bash\necho "Hello"\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-bash">');
         expect(html).toContain('hljs');
@@ -768,7 +775,7 @@ System --> User: Response
        */
       test('should highlight SCSS code', async () => {
         const markdown = '```scss\n$primary: #333;\n.button { color: $primary; }\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-scss">');
         expect(html).toContain('hljs');
@@ -781,7 +788,7 @@ System --> User: Response
        */
       test('should highlight SQL code', async () => {
         const markdown = '```sql\nSELECT * FROM users WHERE id = 1;\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-sql">');
         expect(html).toContain('hljs');
@@ -794,7 +801,7 @@ System --> User: Response
        */
       test('should highlight JSONL code', async () => {
         const markdown = '```jsonl\n{"name": "Alice"}\n{"name": "Bob"}\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-jsonl">');
         expect(html).toContain('hljs');
@@ -809,7 +816,7 @@ System --> User: Response
        */
       test('should recognize "js" as JavaScript', async () => {
         const markdown = '```js\nconst x = 1;\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('const');
@@ -821,7 +828,7 @@ System --> User: Response
        */
       test('should recognize "py" as Python', async () => {
         const markdown = '```py\ndef test():\n    pass\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('def');
@@ -833,7 +840,7 @@ System --> User: Response
        */
       test('should recognize "rb" as Ruby', async () => {
         const markdown = '```rb\ndef test\n  42\nend\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('def');
@@ -845,7 +852,7 @@ System --> User: Response
        */
       test('should recognize "yml" as YAML', async () => {
         const markdown = '```yml\nkey: value\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
         expect(html).toContain('key');
@@ -857,7 +864,7 @@ System --> User: Response
        */
       test('should recognize "htm" as HTML', async () => {
         const markdown = '```htm\n<p>test</p>\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('hljs');
       });
@@ -868,7 +875,7 @@ System --> User: Response
        */
       test('should recognize "patch" as diff', async () => {
         const markdown = '```patch\n- old\n+ new\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-patch">');
         expect(html).toContain('hljs');
@@ -880,7 +887,7 @@ System --> User: Response
        */
       test('should recognize "sh" as bash', async () => {
         const markdown = '```sh\necho "test"\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-sh">');
         expect(html).toContain('hljs');
@@ -892,7 +899,7 @@ System --> User: Response
        */
       test('should recognize "shell" as bash', async () => {
         const markdown = '```shell\necho "test"\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-shell">');
         expect(html).toContain('hljs');
@@ -904,7 +911,7 @@ System --> User: Response
        */
       test('should recognize "sass" as scss', async () => {
         const markdown = '```sass\n$var: blue\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code class="language-sass">');
         expect(html).toContain('hljs');
@@ -920,7 +927,7 @@ System --> User: Response
        */
       test('should handle unsupported language gracefully', async () => {
         const markdown = '```foobar\nsome code\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('some code');
         expect(html).not.toContain('hljs');
@@ -933,7 +940,7 @@ System --> User: Response
        */
       test('should handle empty code block', async () => {
         const markdown = '```javascript\n\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('<code');
       });
@@ -945,7 +952,7 @@ System --> User: Response
        */
       test('should handle code block without language', async () => {
         const markdown = '```\nsome code\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('some code');
       });
@@ -959,7 +966,7 @@ System --> User: Response
        */
       test('should not highlight Mermaid diagrams', async () => {
         const markdown = '```mermaid\ngraph TD\n  A --> B\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('mermaid-container');
         expect(html).not.toContain('hljs');
@@ -972,11 +979,599 @@ System --> User: Response
        */
       test('should not highlight PlantUML diagrams', async () => {
         const markdown = '```plantuml\n@startuml\nA -> B\n@enduml\n```';
-        const html = await processor.process(markdown);
+        const { html } = await processor.process(markdown);
 
         expect(html).toContain('plantuml-container');
         expect(html).not.toContain('hljs');
       });
     });
   });
+
+  describe('Code Block Line Options', () => {
+    const decode = (html: string): string =>
+      html.replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - `title=`, `showLineNumbers` and `{…}` ranges render a header, line numbers and highlighted lines
+     * - Highlight spans crossing line breaks are re-opened, so each line is well-formed
+     * - The code element's text (what the copy button copies) is exactly the code
+     */
+    test('should render titles, line numbers and highlighted lines', async () => {
+      const code = 'const a = 1;\n/* multi\n   line */\nconst b = "<b>";\nexport { a, b };';
+      const markdown = '```ts {2-3,5} title="src/server.ts" showLineNumbers\n' + code + '\n```';
+      const { html } = await processor.process(markdown);
+
+      expect(html).toContain('<div class="code-block-wrapper"><div class="code-block-title">src/server.ts</div>');
+      expect(html).toContain('<pre class="code-lines" data-title="src/server.ts"><code class="language-ts">');
+      expect(html.match(/data-line-number="\d"/g)).toEqual([1, 2, 3, 4, 5].map((n) => `data-line-number="${n}"`));
+      expect(html.match(/class="code-line highlighted"/g)).toHaveLength(3);
+      expect(html).toContain(
+        '<span class="code-line highlighted" data-line-number="2"><span class="hljs-comment">/* multi</span></span>\n' +
+          '<span class="code-line highlighted" data-line-number="3"><span class="hljs-comment">   line */</span></span>'
+      );
+
+      const codeElement = html.match(/<code class="language-ts">([\s\S]*?)<\/code>/);
+      expect(decode(codeElement ? codeElement[1] : '')).toBe(code + '\n');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Fences without line options keep the plain markup
+     * - Titles are escaped, ranges work without line numbers and scroll sync markers are kept
+     */
+    test('should only decorate fences with line options', async () => {
+      const { html: plain } = await processor.process('```js {x}\nconst a = 1;\n```');
+      expect(plain).toContain('<pre><code class="language-js">');
+      expect(plain).not.toContain('code-line');
+
+      const markedProcessor = new MarkdownProcessor({ lineMarkers: true });
+      const { html } = await markedProcessor.process('```text {1} title="<a & b>"\nfirst\nsecond\n```');
+      expect(html).toContain('<div class="code-block-title">&lt;a &amp; b&gt;</div>');
+      expect(html).toContain('<code data-line="0" class="language-text">');
+      expect(html).toContain('<span class="code-line highlighted">first</span>\n<span class="code-line">second</span>\n</code>');
+      expect(html).not.toContain('data-line-number');
+    });
+  });
+
+  describe('Diff Code Blocks', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - diff-<language> fences get a "Copy new" button next to the regular copy button
+     * - Other code blocks keep a single copy button
+     * - Line options from the fence info string still apply to diff lines
+     */
+    test('should add a copy button for the code after the change', async () => {
+      const { html } = await processor.process('```diff-js {2} showLineNumbers\n-let a = 1;\n+const a = 1;\n```\n\n```js\nlet b;\n```');
+
+      expect(html).toContain('<code class="language-diff-js">');
+      expect(html).toMatch(/<div class="code-copy-buttons"><button class="copy-code-button" data-copy="new-code"[^>]*>/);
+      expect(html.match(/<button class="copy-code-button"/g)).toHaveLength(3);
+      expect(html).toContain(
+        '<span class="code-line highlighted" data-line-number="2"><span class="diff-line hljs-addition"><span class="diff-marker">+</span><span class="hljs-keyword">const</span>'
+      );
+    });
+  });
+
+  describe('Front Matter', () => {
+    const markdown = '---\ntitle: Release <notes>\ntags: [a, b]\n---\n# Heading\n\nText';
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Front matter is shown as a collapsible table instead of a rule and a setext heading
+     * - It can be hidden, while parse errors are still reported
+     * - Lines after the front matter keep their source line numbers
+     */
+    test('should render front matter as a table, hide it or report errors', async () => {
+      const lineProcessor = new MarkdownProcessor({ lineMarkers: true });
+      const { html, frontMatter } = await lineProcessor.process(markdown);
+
+      expect(html).toContain('<details class="front-matter" data-line="0">');
+      expect(html).toContain('<tr><th>title</th><td>Release &lt;notes&gt;</td></tr>');
+      expect(html).toContain('<tr><th>tags</th><td>a, b</td></tr>');
+      expect(html).toContain('<h1 id="heading" data-line="4">Heading</h1>');
+      expect(html).not.toContain('<hr');
+      expect(frontMatter).toEqual({ title: 'Release <notes>', tags: ['a', 'b'] });
+
+      const { html: hidden } = await processor.process(markdown, { frontMatter: 'hide' });
+      expect(hidden).not.toContain('front-matter');
+      expect(hidden).toContain('<h1 id="heading">Heading</h1>');
+
+      const { html: broken } = await processor.process('---\ntitle: [unclosed\n---\nText', { frontMatter: 'hide' });
+      expect(broken).toContain('Front Matter Error');
+      expect(broken).toContain('<p>Text</p>');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Diagram renderers receive the parsed front matter
+     */
+    test('should pass the front matter to diagram renderers', async () => {
+      const render = jest.fn(() => '<div class="wavedrom"></div>');
+      const registration = DiagramRendererRegistry.register({
+        id: 'wavedrom',
+        languages: ['wavedrom'],
+        runtime: 'extension',
+        cachePolicy: 'none',
+        render,
+      });
+
+      try {
+        await processor.process('+++\nscale = 2\n+++\n```wavedrom\n{}\n```');
+
+        expect(render).toHaveBeenCalledWith('{}\n', expect.objectContaining({ frontMatter: { scale: 2 } }));
+      } finally {
+        registration.dispose();
+      }
+    });
+  });
+
+  describe('Syntax Extensions', () => {
+    const markdown = [
+      'H~2~O and x^2^ with ==marked== HTML :tada: :) and ~~removed~~[^note]',
+      '',
+      'Term',
+      ': Definition',
+      '',
+      '*[HTML]: Hyper Text Markup Language',
+      '',
+      '[^note]: The note.',
+    ].join('\n');
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Footnotes render with references and back-references the preview can scroll between
+     * - Definition lists, sub/superscript, mark, abbreviations and emoji shortcodes are supported
+     * - Text smileys and GFM strikethrough are left as they are
+     */
+    test('should render the syntax extensions by default', async () => {
+      const { html } = await processor.process(markdown);
+
+      expect(html).toContain('H<sub>2</sub>O and x<sup>2</sup> with <mark>marked</mark>');
+      expect(html).toContain('<abbr title="Hyper Text Markup Language">HTML</abbr> 🎉 :) and <s>removed</s>');
+      expect(html).toContain('<sup class="footnote-ref"><a href="#fn1" id="fnref1">[1]</a></sup>');
+      expect(html).toContain('<li id="fn1" class="footnote-item"><p>The note. <a href="#fnref1" class="footnote-backref">');
+      expect(html).toContain('<dl>\n<dt>Term</dt>\n<dd>Definition</dd>\n</dl>');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Each extension can be turned off for strict CommonMark rendering
+     */
+    test('should leave disabled extensions as plain text', async () => {
+      const strict = new MarkdownProcessor({
+        extensions: {
+          footnotes: false,
+          definitionLists: false,
+          subSuperscript: false,
+          mark: false,
+          abbreviations: false,
+          emoji: false,
+        },
+      });
+
+      const { html } = await strict.process(markdown);
+
+      expect(html).toContain('H~2~O and x^2^ with ==marked== HTML :tada: :) and <s>removed</s>[^note]');
+      expect(html).toContain('<p>Term\n: Definition</p>');
+      expect(html).not.toMatch(/<(sub|sup|mark|abbr|dl|section)\b/);
+    });
+  });
+
+  describe('Source Line Markers', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Output stays free of scroll sync attributes unless requested
+     */
+    test('should not add line markers by default', async () => {
+      const { html } = await processor.process('# Title\n\nParagraph');
+
+      expect(html).not.toContain('data-line');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Block elements carry their 0-based source line for scroll sync
+     */
+    test('should add data-line attributes to block elements', async () => {
+      const lineProcessor = new MarkdownProcessor({ lineMarkers: true });
+      const { html } = await lineProcessor.process('# Title\n\nParagraph\n\n- Item');
+
+      expect(html).toContain('<h1 id="title" data-line="0">Title</h1>');
+      expect(html).toContain('<p data-line="2">Paragraph</p>');
+      expect(html).toContain('<ul data-line="4">');
+      expect(html).toContain('<li data-line="4">');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Code blocks keep their copy button when they carry a line marker
+     */
+    test('should keep copy buttons on marked code blocks', async () => {
+      const lineProcessor = new MarkdownProcessor({ lineMarkers: true });
+      const { html } = await lineProcessor.process('Text\n\n```js\nconst x = 1;\n```\n\n    indented');
+
+      expect(html.match(/class="code-block-wrapper"/g)).toHaveLength(2);
+      expect(html).toMatch(/<code[^>]*data-line="2"/);
+      expect(html).toContain('<pre data-line="6">');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Diagram wrappers can be located by the scroll sync script
+     */
+    test('should add data-line attributes to diagram wrappers', async () => {
+      const lineProcessor = new MarkdownProcessor({ lineMarkers: true });
+      const { html } = await lineProcessor.process('# Title\n\n```mermaid\ngraph TD\n  A --> B\n```');
+
+      expect(html).toContain('<div data-line="2" class="diagram-wrapper">');
+    });
+  });
+
+  describe('Asynchronous PlantUML Rendering', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - All PlantUML diagrams start rendering before any of them finishes
+     * - Rendered diagrams are spliced back in document order
+     */
+    test('should render PlantUML blocks concurrently and keep their order', async () => {
+      const resolvers: Array<() => void> = [];
+      const renderSpy = jest.spyOn(PlantUMLRenderer, 'render').mockImplementation(
+        (content: string) =>
+          new Promise<string>((resolve) => {
+            resolvers.push(() => resolve(`<div class="rendered">${content.trim()}</div>`));
+          })
+      );
+
+      const markdown = ['```plantuml\nfirst\n```', 'Between', '```plantuml\nsecond\n```'].join('\n\n');
+      const pending = processor.process(markdown);
+
+      // Let process() reach the point where it awaits the renderers
+      await Promise.resolve();
+      expect(renderSpy).toHaveBeenCalledTimes(2);
+
+      // Finish in reverse order; the output must still follow the document
+      resolvers.reverse().forEach((resolve) => resolve());
+      const { html } = await pending;
+
+      expect(html.indexOf('rendered">first')).toBeLessThan(html.indexOf('Between'));
+      expect(html.indexOf('Between')).toBeLessThan(html.indexOf('rendered">second'));
+      expect(html).not.toContain('pending-diagram');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Diagram HTML containing `$` sequences is inserted verbatim
+     */
+    test('should insert rendered diagrams without replacement patterns', async () => {
+      jest.spyOn(PlantUMLRenderer, 'render').mockResolvedValue('<div>cost: $& $1</div>');
+
+      const { html } = await processor.process('```plantuml\nA -> B\n```');
+
+      expect(html).toContain('<div>cost: $& $1</div>');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - A placeholder-like comment written in the document is not replaced by a diagram
+     */
+    test('should not splice diagrams into placeholder-like document content', async () => {
+      jest.spyOn(PlantUMLRenderer, 'render').mockResolvedValue('<div class="rendered">diagram</div>');
+
+      const { html } = await processor.process('<!--pending-diagram-0-->\n\n```plantuml\nA -> B\n```');
+
+      expect(html).toContain('<!--pending-diagram-0-->');
+      expect(html.indexOf('<!--pending-diagram-0-->')).toBeLessThan(html.indexOf('rendered'));
+      expect(html.match(/rendered/g)).toHaveLength(1);
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - A slow render that finishes after a newer one keeps its own dependencies and front matter
+     */
+    test('should return separate results for overlapping calls', async () => {
+      let finishSlow: () => void = () => undefined;
+      jest.spyOn(PlantUMLRenderer, 'render').mockImplementation(
+        (content: string, _mode, _jarPath, includeOptions) => {
+          includeOptions?.dependencies?.add(`/docs/${content.trim()}.puml`);
+          return content.trim() === 'slow'
+            ? new Promise<string>((resolve) => (finishSlow = (): void => resolve('<div>slow</div>')))
+            : Promise.resolve('<div>fast</div>');
+        }
+      );
+
+      const slow = processor.process('---\ntitle: Slow\n---\n```plantuml\nslow\n```', {
+        documentPath: '/docs/slow.md',
+      });
+      const fast = await processor.process('---\ntitle: Fast\n---\n```plantuml\nfast\n```', {
+        documentPath: '/docs/fast.md',
+      });
+      finishSlow();
+      const slowResult = await slow;
+
+      expect(fast.frontMatter).toEqual({ title: 'Fast' });
+      expect(fast.dependencies).toEqual(['/docs/fast.puml']);
+      expect(slowResult.frontMatter).toEqual({ title: 'Slow' });
+      expect(slowResult.dependencies).toEqual(['/docs/slow.puml']);
+      expect(slowResult.html).toContain('<div>slow</div>');
+    });
+  });
+
+  describe('Math', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - `$…$` inside a paragraph is rendered inline with KaTeX
+     * - `$$…$$` blocks (single- and multi-line) and ```math fences are rendered as display math
+     * - Math blocks are not wrapped in paragraphs
+     */
+    test('should render inline math, $$ blocks and math fences', async () => {
+      const markdown = [
+        'Euler: $e^{i\\pi} + 1 = 0$.',
+        '$$\n\\int_0^1 x\\,dx\n$$',
+        '$$ a^2 + b^2 = c^2 $$',
+        '```math\n\\sqrt{2}\n```',
+      ].join('\n\n');
+
+      const { html } = await processor.process(markdown);
+
+      expect(html).toMatch(/<p>Euler: <span class="katex">[\s\S]*<\/span>\.<\/p>/);
+      expect(html.match(/<div class="math-block">/g)).toHaveLength(3);
+      expect(html).not.toContain('$$');
+      expect(html).not.toContain('<code class="language-math">');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Currency amounts and escaped dollars are not mistaken for math
+     * - Dollar signs inside code spans are left alone
+     */
+    test('should leave prices, escaped dollars and code spans as text', async () => {
+      const { html } = await processor.process('It costs $5 and $10.\n\nEscaped \\$x\\$ and `$y$`.');
+
+      expect(html).toBe('<p>It costs $5 and $10.</p>\n<p>Escaped $x$ and <code>$y$</code>.</p>\n');
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - An invalid formula shows an error while the rest of the document still renders
+     * - Math blocks carry source line markers for scroll synchronization
+     */
+    test('should isolate math errors and keep line markers', async () => {
+      const markerProcessor = new MarkdownProcessor({ lineMarkers: true });
+
+      const { html } = await markerProcessor.process('Intro\n\n$$\n\\frac{1}\n$$\n\nAfter $\\badmacro$');
+
+      expect(html).toContain('<div data-line="2" class="diagram-error math-error"');
+      expect(html).toContain('Math Rendering Error');
+      expect(html).toContain('class="math-error math-error-inline"');
+      expect(html).toContain('<p data-line="6">After ');
+    });
+  });
+
+  describe('Graphviz Diagrams', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Both `dot` and `graphviz` fences are sent to GraphvizRenderer
+     * - Graphviz fences are not rendered as highlighted code blocks
+     */
+    test('should render dot and graphviz fences with GraphvizRenderer', async () => {
+      const renderSpy = jest
+        .spyOn(GraphvizRenderer, 'render')
+        .mockImplementation(async (content: string) => `<div class="graphviz-container">${content.trim()}</div>`);
+
+      const { html } = await processor.process('```dot\ndigraph { a }\n```\n\n```graphviz\ngraph { b }\n```');
+
+      expect(renderSpy).toHaveBeenCalledTimes(2);
+      expect(html).toContain('<div class="graphviz-container">digraph { a }</div>');
+      expect(html).toContain('<div class="graphviz-container">graph { b }</div>');
+      expect(html).not.toContain('<pre>');
+    });
+  });
+
+  describe('Vega Charts', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - `vega-lite` and `vega` fences are handed to the webview as chart specs
+     * - Chart data files resolve relative to the Markdown document
+     */
+    test('should render vega-lite and vega fences as charts', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'md-vega-charts-'));
+      fs.writeFileSync(path.join(tempDir, 'bench.json'), '[{"ms": 12}]');
+
+      try {
+        const markdown = '```vega-lite\n{"data": {"url": "bench.json"}, "mark": "bar"}\n```\n\n```vega\n{"marks": []}\n```';
+        const { html, dependencies } = await processor.process(markdown, { documentPath: path.join(tempDir, 'doc.md') });
+
+        expect(html).toContain('data-diagram-type="vega-lite"');
+        expect(html).toContain('data-diagram-type="vega"');
+        expect(html).toContain('{"data":{"values":"[{\\"ms\\": 12}]","format":{"type":"json"}},"mark":"bar"}');
+        expect(html).not.toContain('<pre>');
+        expect(dependencies).toEqual([path.join(tempDir, 'bench.json')]);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Registered Diagram Renderers', () => {
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Fences are dispatched to renderers registered through the extension API
+     * - The renderer receives the document directory and dependency collector
+     * - Unregistered languages fall back to highlighted code blocks again
+     */
+    test('should render fences with a registered renderer', async () => {
+      const render = jest.fn((source: string, context: { baseDir?: string; dependencies: Set<string> }) => {
+        context.dependencies.add('/docs/signal.json');
+        return `<div class="wavedrom">${source.trim()}</div>`;
+      });
+      const registration = DiagramRendererRegistry.register({
+        id: 'wavedrom',
+        languages: ['wavedrom'],
+        runtime: 'extension',
+        cachePolicy: 'none',
+        render,
+      });
+
+      try {
+        const { html, dependencies } = await processor.process('```wavedrom\n{ signal: [] }\n```', {
+          documentPath: '/docs/timing.md',
+        });
+
+        expect(html).toContain('<div class="wavedrom">{ signal: [] }</div>');
+        expect(render).toHaveBeenCalledWith('{ signal: [] }\n', expect.objectContaining({ baseDir: '/docs' }));
+        expect(dependencies).toEqual(['/docs/signal.json']);
+      } finally {
+        registration.dispose();
+      }
+
+      const { html } = await processor.process('```wavedrom\n{ signal: [] }\n```');
+      expect(html).toContain('<pre');
+      expect(html).not.toContain('class="wavedrom"');
+    });
+  });
+
+  describe('Diagram Files', () => {
+    let tempDir: string;
+    let documentPath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'md-diagram-files-'));
+      fs.mkdirSync(path.join(tempDir, 'diagrams'));
+      documentPath = path.join(tempDir, 'doc.md');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - `![](file.puml)` loads the file relative to the document and renders it as PlantUML
+     * - PlantUML includes inside the file resolve relative to the diagram file
+     * - The diagram is not nested in a paragraph and the file is reported as a dependency
+     */
+    test('should render PlantUML files referenced with image syntax', async () => {
+      const diagramPath = path.join(tempDir, 'diagrams', 'arch.puml');
+      fs.writeFileSync(diagramPath, '@startuml\nA -> B\n@enduml\n');
+      const renderSpy = jest
+        .spyOn(PlantUMLRenderer, 'render')
+        .mockResolvedValue('<div class="plantuml-container">rendered</div>');
+
+      const { html, dependencies } = await processor.process('![Architecture](diagrams/arch.puml)', { documentPath });
+
+      expect(renderSpy).toHaveBeenCalledWith(
+        '@startuml\nA -> B\n@enduml\n',
+        'online',
+        '',
+        expect.objectContaining({ baseDir: path.join(tempDir, 'diagrams') })
+      );
+      expect(html).toContain('<div class="plantuml-container">rendered</div>');
+      expect(html).not.toContain('<p>');
+      expect(html).not.toContain('<img');
+      expect(dependencies).toContain(diagramPath);
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - A `file=` attribute on a diagram fence renders the referenced file instead of the fence body
+     * - Mermaid files are rendered through the Mermaid renderer
+     * - Ordinary images keep their default rendering
+     */
+    test('should render diagram files referenced by a fence attribute', async () => {
+      fs.writeFileSync(path.join(tempDir, 'flow.mmd'), 'graph TD\n  A --> B\n');
+      fs.writeFileSync(path.join(tempDir, 'logo.png'), '');
+
+      const markdown = ['```mermaid file="flow.mmd"\n```', '![Logo](logo.png)'].join('\n\n');
+      const { html, dependencies } = await processor.process(markdown, { documentPath });
+
+      expect(html).toContain('class="mermaid"');
+      expect(html).toContain('A --&gt; B');
+      expect(html).toContain('<img src="logo.png" alt="Logo">');
+      expect(dependencies).toEqual([path.join(tempDir, 'flow.mmd')]);
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - A missing diagram file produces a visible error instead of breaking the document
+     * - Missing files are still watched so the preview refreshes once they are created
+     */
+    test('should show an error for missing diagram files', async () => {
+      const { html, dependencies } = await processor.process('![](missing.mmd)\n\nAfter', { documentPath });
+
+      expect(html).toContain('Cannot read diagram file: missing.mmd');
+      expect(html).toContain('<p>After</p>');
+      expect(dependencies).toEqual([path.join(tempDir, 'missing.mmd')]);
+    });
+  });
+
+  describe('Local Images', () => {
+    let tempDir: string;
+    let documentPath: string;
+    const resourceUrl = (filePath: string): string => `https://webview.test${filePath.split(path.sep).join('/')}`;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'md-local-images-'));
+      fs.mkdirSync(path.join(tempDir, 'docs', 'guide'), { recursive: true });
+      fs.mkdirSync(path.join(tempDir, 'docs', 'assets'));
+      fs.writeFileSync(path.join(tempDir, 'docs', 'assets', 'shot 1.png'), '');
+      documentPath = path.join(tempDir, 'docs', 'guide', 'intro.md');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - Relative and workspace-relative images load through resource URLs, in Markdown and in raw HTML
+     * - Remote and data: images are left as written
+     */
+    test('should map local images to resource URLs', async () => {
+      const imagePath = path.join(tempDir, 'docs', 'assets', 'shot 1.png');
+      const markdown = [
+        '![Shot](../assets/shot%201.png)',
+        '<img src="/docs/assets/shot 1.png" width="200">',
+        '![Remote](https://example.com/a.png) ![Inline](data:image/png;base64,AAAA)',
+      ].join('\n\n');
+
+      const { html, dependencies } = await processor.process(markdown, { documentPath, workspaceRoots: [tempDir], resourceUrl });
+
+      expect(html).toContain(`<img src="${resourceUrl(imagePath)}" alt="Shot">`);
+      expect(html).toContain(`<img src="${resourceUrl(imagePath)}" width="200">`);
+      expect(html).toContain('<img src="https://example.com/a.png" alt="Remote">');
+      expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="Inline">');
+      expect(dependencies).toEqual([]);
+    });
+
+    /**
+     * Without this test, we would not be guaranteed that:
+     * - A missing image shows a placeholder naming the file instead of a broken image
+     * - Missing images are watched so the preview refreshes once they are created
+     */
+    test('should show a placeholder for missing images', async () => {
+      const { html, dependencies } = await processor.process('![Chart](../assets/chart.png)\n\n<img src="gone.svg">', {
+        documentPath,
+        resourceUrl,
+      });
+
+      expect(html).toContain('class="missing-image" role="img" aria-label="Chart"');
+      expect(html).toContain('Image not found: <code>../assets/chart.png</code>');
+      expect(html).toContain('Image not found: <code>gone.svg</code>');
+      expect(html).not.toContain('<img');
+      expect(dependencies).toEqual([
+        path.join(tempDir, 'docs', 'assets', 'chart.png'),
+        path.join(tempDir, 'docs', 'guide', 'gone.svg'),
+      ]);
+    });
+  });
 });
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import hljs from 'highlight.js/lib/core';
+import { SyntaxHighlighter } from '../SyntaxHighlighter';
+import { HIGHLIGHT_LANGUAGES, HIGHLIGHT_LANGUAGE_ALIASES } from '../highlightLanguages';
+
+/**
+ * Test suite for SyntaxHighlighter.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Fences in any highlight.js language (and Terraform) are highlighted
+ * - Languages are only registered when a fence first uses them
+ * - The user's fence alias setting is applied
+ * - diff-<language> fences combine diff and language highlighting
+ * - The generated alias index matches the installed highlight.js
+ */
+describe('SyntaxHighlighter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Common languages and their aliases resolve to a highlight.js language
+   * - The previous `shell` → Bash mapping is kept
+   */
+  test('should resolve language names and aliases', () => {
+    const expected: { [fence: string]: string } = {
+      TypeScript: 'typescript',
+      ts: 'typescript',
+      golang: 'go',
+      rs: 'rust',
+      c: 'c',
+      'c++': 'cpp',
+      kt: 'kotlin',
+      swift: 'swift',
+      docker: 'dockerfile',
+      tf: 'hcl',
+      toml: 'ini',
+      mk: 'makefile',
+      shell: 'bash',
+      jsonl: 'json',
+    };
+
+    Object.entries(expected).forEach(([fence, language]) => {
+      expect(SyntaxHighlighter.resolveLanguage(fence)).toBe(language);
+    });
+    expect(SyntaxHighlighter.resolveLanguage('foobar')).toBeNull();
+    expect(SyntaxHighlighter.resolveLanguage('constructor')).toBeNull();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A language is registered on first use, not at startup
+   * - Terraform blocks, attributes and interpolations are highlighted
+   * - Unsupported languages warn only once
+   */
+  test('should load languages on demand and highlight them', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(hljs.getLanguage('elixir')).toBeUndefined();
+
+    expect(SyntaxHighlighter.highlight('defmodule Demo do\nend', 'elixir')).toContain('hljs-keyword');
+    expect(hljs.getLanguage('elixir')).toBeDefined();
+
+    const terraform = SyntaxHighlighter.highlight(
+      'resource "aws_s3_bucket" "logs" {\n  bucket = "${var.prefix}-logs" # name\n}',
+      'terraform'
+    );
+    expect(terraform).toContain('<span class="hljs-keyword">resource</span>');
+    expect(terraform).toContain('<span class="hljs-attr">bucket</span>');
+    expect(terraform).toContain('<span class="hljs-subst">${var.prefix}</span>');
+    expect(terraform).toContain('<span class="hljs-comment"># name</span>');
+
+    expect(SyntaxHighlighter.highlight('x', 'unknown-lang')).toBe('');
+    expect(SyntaxHighlighter.highlight('y', 'unknown-lang')).toBe('');
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Code embedded in another language (`<script>` and `<style>` in HTML) is highlighted
+   *   even when no fence in the embedded language was highlighted before
+   */
+  test('should load embedded languages with the language that uses them', () => {
+    ['xml', 'javascript', 'css'].forEach((language) => hljs.unregisterLanguage(language));
+
+    const html = SyntaxHighlighter.highlight(
+      '<script>const x = 1;</script>\n<style>a { color: red; }</style>',
+      'html'
+    );
+
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+    expect(html).toContain('<span class="hljs-attribute">color</span>');
+    expect(hljs.getLanguage('javascript')).toBeDefined();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - `highlight.languageAliases` maps custom fence languages (case-insensitively)
+   * - Custom aliases may point to another alias and take precedence over built-ins
+   */
+  test('should apply custom fence aliases from the settings', () => {
+    const languageAliases = { Vue: 'html', sh: 'ts' };
+    jest.spyOn(vscode.workspace, 'getConfiguration').mockReturnValue({
+      get: (key: string, defaultValue?: unknown) => (key === 'highlight.languageAliases' ? languageAliases : defaultValue),
+    } as unknown as vscode.WorkspaceConfiguration);
+
+    expect(SyntaxHighlighter.resolveLanguage('vue')).toBe('xml');
+    expect(SyntaxHighlighter.resolveLanguage('sh')).toBe('typescript');
+    expect(SyntaxHighlighter.resolveLanguage('py')).toBe('python');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - `diff-<language>` lines keep the diff grammar's addition/deletion classes and markers
+   * - The code in each line is highlighted as the named language, across line breaks
+   * - Hunk and file headers are highlighted as diff metadata, not as code
+   */
+  test('should highlight diff fences with the named language', () => {
+    const diff = '--- a/app.ts\n+++ b/app.ts\n@@ -1,3 +1,3 @@\n /* settings\n    end */\n-const port = 80;\n+const port = 8080;\n';
+
+    const html = SyntaxHighlighter.highlight(diff, 'diff-typescript');
+    const lines = html.split('\n');
+
+    expect(lines[0]).toBe('<span class="hljs-comment">--- a/app.ts</span>');
+    expect(lines[2]).toBe('<span class="hljs-meta">@@ -1,3 +1,3 @@</span>');
+    expect(lines[4]).toBe(
+      '<span class="diff-line"><span class="diff-marker"> </span><span class="hljs-comment">   end */</span></span>'
+    );
+    expect(lines[5]).toContain('<span class="diff-line hljs-deletion"><span class="diff-marker">-</span><span class="hljs-keyword">const</span>');
+    expect(lines[6]).toContain('<span class="diff-line hljs-addition"><span class="diff-marker">+</span><span class="hljs-keyword">const</span>');
+    expect(lines[6]).toContain('<span class="hljs-number">8080</span>');
+    expect(lines[7]).toBe('');
+
+    // Unknown languages still get the diff markup, with escaped plain code
+    expect(SyntaxHighlighter.highlight('+a < b\n', 'diff-foobar')).toBe(
+      '<span class="diff-line hljs-addition"><span class="diff-marker">+</span>a &lt; b</span>\n'
+    );
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The index lists every installed language module and every alias they declare
+   *   (run `npm run generate:highlight-languages` after upgrading highlight.js)
+   */
+  test('should match the installed highlight.js languages', () => {
+    const languagesDir = path.join(path.dirname(require.resolve('highlight.js/lib/core')), 'languages');
+    const installed = fs
+      .readdirSync(languagesDir)
+      .filter((file) => /^[\w-]+\.js$/.test(file))
+      .map((file) => file.slice(0, -'.js'.length))
+      .sort();
+
+    expect(Object.keys(HIGHLIGHT_LANGUAGES).sort()).toEqual(installed);
+
+    installed.forEach((language) => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const definition = require(path.join(languagesDir, language))(hljs);
+      (definition.aliases ?? []).forEach((alias: string) => {
+        const normalized = alias.toLowerCase();
+        if (!installed.includes(normalized)) {
+          expect(HIGHLIGHT_LANGUAGE_ALIASES[normalized]).toBeDefined();
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import MarkdownIt from 'markdown-it';
+import { TableOfContentsPlugin } from '../TableOfContentsPlugin';
+
+/**
+ * Test suite for TableOfContentsPlugin.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Headings get the same ids as on GitHub, so `#fragment` links work
+ * - [[toc]] and <!-- toc --> placeholders expand into a nested table of contents
+ */
+describe('TableOfContentsPlugin', () => {
+  const md = new MarkdownIt({ html: true }).use(TableOfContentsPlugin.install);
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Punctuation is removed and spaces become hyphens, as GitHub does
+   * - Japanese and other non-Latin headings keep their characters
+   * - Code spans are part of the slug
+   */
+  test('should create GitHub-compatible slugs', () => {
+    expect(TableOfContentsPlugin.slugify('Design & API')).toBe('design--api');
+    expect(TableOfContentsPlugin.slugify(' What’s new in v2.0? ')).toBe('whats-new-in-v20');
+    expect(TableOfContentsPlugin.slugify('snake_case-Title')).toBe('snake_case-title');
+    expect(TableOfContentsPlugin.slugify('設計の概要（ドラフト）')).toBe('設計の概要ドラフト');
+    expect(TableOfContentsPlugin.slugify('Ünïcödé Café')).toBe('ünïcödé-café');
+
+    expect(md.render('## Use `process()` here')).toBe('<h2 id="use-process-here">Use <code>process()</code> here</h2>\n');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Repeated headings get -1, -2 suffixes without colliding with real headings
+   */
+  test('should de-duplicate heading ids', () => {
+    const html = md.render('# Intro\n# Intro\n# Intro 1\n# Intro');
+
+    expect(html).toBe(
+      '<h1 id="intro">Intro</h1>\n<h1 id="intro-1">Intro</h1>\n<h1 id="intro-1-1">Intro 1</h1>\n<h1 id="intro-2">Intro</h1>\n'
+    );
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Both placeholder forms are replaced by the table of contents
+   * - Headings are nested by level, including skipped levels
+   * - Heading text is escaped
+   */
+  test('should expand table of contents placeholders', () => {
+    const markdown = '[[toc]]\n\n# A \\<b\\>\n\n### Deep\n\n## B\n\n# C\n\n<!-- toc -->\n';
+    const toc =
+      '<nav class="table-of-contents">\n<ul>\n' +
+      '<li><a href="#a-b">A &lt;b&gt;</a>\n<ul>\n<li><a href="#deep">Deep</a></li>\n<li><a href="#b">B</a></li>\n</ul>\n</li>\n' +
+      '<li><a href="#c">C</a></li>\n' +
+      '</ul>\n</nav>\n';
+
+    const html = md.render(markdown);
+
+    expect(html.startsWith(toc)).toBe(true);
+    expect(html.endsWith(toc)).toBe(true);
+    expect(html).not.toContain('[[toc]]');
+    expect(md.render('Text [[toc]]')).toBe('<p>Text [[toc]]</p>\n');
+  });
+});
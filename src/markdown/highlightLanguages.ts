@@ -0,0 +1,386 @@
+// Generated by scripts/generate-highlight-languages.js from highlight.js 11.11.1. Do not edit.
+/* eslint-disable @typescript-eslint/no-var-requires */
+import type { LanguageFn } from 'highlight.js';
+
+/**
+ * highlight.js languages by name, each loaded on first call.
+ */
+export const HIGHLIGHT_LANGUAGES: { readonly [name: string]: () => LanguageFn } = {
+  '1c': () => require('highlight.js/lib/languages/1c'),
+  abnf: () => require('highlight.js/lib/languages/abnf'),
+  accesslog: () => require('highlight.js/lib/languages/accesslog'),
+  actionscript: () => require('highlight.js/lib/languages/actionscript'),
+  ada: () => require('highlight.js/lib/languages/ada'),
+  angelscript: () => require('highlight.js/lib/languages/angelscript'),
+  apache: () => require('highlight.js/lib/languages/apache'),
+  applescript: () => require('highlight.js/lib/languages/applescript'),
+  arcade: () => require('highlight.js/lib/languages/arcade'),
+  arduino: () => require('highlight.js/lib/languages/arduino'),
+  armasm: () => require('highlight.js/lib/languages/armasm'),
+  asciidoc: () => require('highlight.js/lib/languages/asciidoc'),
+  aspectj: () => require('highlight.js/lib/languages/aspectj'),
+  autohotkey: () => require('highlight.js/lib/languages/autohotkey'),
+  autoit: () => require('highlight.js/lib/languages/autoit'),
+  avrasm: () => require('highlight.js/lib/languages/avrasm'),
+  awk: () => require('highlight.js/lib/languages/awk'),
+  axapta: () => require('highlight.js/lib/languages/axapta'),
+  bash: () => require('highlight.js/lib/languages/bash'),
+  basic: () => require('highlight.js/lib/languages/basic'),
+  bnf: () => require('highlight.js/lib/languages/bnf'),
+  brainfuck: () => require('highlight.js/lib/languages/brainfuck'),
+  c: () => require('highlight.js/lib/languages/c'),
+  cal: () => require('highlight.js/lib/languages/cal'),
+  capnproto: () => require('highlight.js/lib/languages/capnproto'),
+  ceylon: () => require('highlight.js/lib/languages/ceylon'),
+  clean: () => require('highlight.js/lib/languages/clean'),
+  clojure: () => require('highlight.js/lib/languages/clojure'),
+  'clojure-repl': () => require('highlight.js/lib/languages/clojure-repl'),
+  cmake: () => require('highlight.js/lib/languages/cmake'),
+  coffeescript: () => require('highlight.js/lib/languages/coffeescript'),
+  coq: () => require('highlight.js/lib/languages/coq'),
+  cos: () => require('highlight.js/lib/languages/cos'),
+  cpp: () => require('highlight.js/lib/languages/cpp'),
+  crmsh: () => require('highlight.js/lib/languages/crmsh'),
+  crystal: () => require('highlight.js/lib/languages/crystal'),
+  csharp: () => require('highlight.js/lib/languages/csharp'),
+  csp: () => require('highlight.js/lib/languages/csp'),
+  css: () => require('highlight.js/lib/languages/css'),
+  d: () => require('highlight.js/lib/languages/d'),
+  dart: () => require('highlight.js/lib/languages/dart'),
+  delphi: () => require('highlight.js/lib/languages/delphi'),
+  diff: () => require('highlight.js/lib/languages/diff'),
+  django: () => require('highlight.js/lib/languages/django'),
+  dns: () => require('highlight.js/lib/languages/dns'),
+  dockerfile: () => require('highlight.js/lib/languages/dockerfile'),
+  dos: () => require('highlight.js/lib/languages/dos'),
+  dsconfig: () => require('highlight.js/lib/languages/dsconfig'),
+  dts: () => require('highlight.js/lib/languages/dts'),
+  dust: () => require('highlight.js/lib/languages/dust'),
+  ebnf: () => require('highlight.js/lib/languages/ebnf'),
+  elixir: () => require('highlight.js/lib/languages/elixir'),
+  elm: () => require('highlight.js/lib/languages/elm'),
+  erb: () => require('highlight.js/lib/languages/erb'),
+  erlang: () => require('highlight.js/lib/languages/erlang'),
+  'erlang-repl': () => require('highlight.js/lib/languages/erlang-repl'),
+  excel: () => require('highlight.js/lib/languages/excel'),
+  fix: () => require('highlight.js/lib/languages/fix'),
+  flix: () => require('highlight.js/lib/languages/flix'),
+  fortran: () => require('highlight.js/lib/languages/fortran'),
+  fsharp: () => require('highlight.js/lib/languages/fsharp'),
+  gams: () => require('highlight.js/lib/languages/gams'),
+  gauss: () => require('highlight.js/lib/languages/gauss'),
+  gcode: () => require('highlight.js/lib/languages/gcode'),
+  gherkin: () => require('highlight.js/lib/languages/gherkin'),
+  glsl: () => require('highlight.js/lib/languages/glsl'),
+  gml: () => require('highlight.js/lib/languages/gml'),
+  go: () => require('highlight.js/lib/languages/go'),
+  golo: () => require('highlight.js/lib/languages/golo'),
+  gradle: () => require('highlight.js/lib/languages/gradle'),
+  graphql: () => require('highlight.js/lib/languages/graphql'),
+  groovy: () => require('highlight.js/lib/languages/groovy'),
+  haml: () => require('highlight.js/lib/languages/haml'),
+  handlebars: () => require('highlight.js/lib/languages/handlebars'),
+  haskell: () => require('highlight.js/lib/languages/haskell'),
+  haxe: () => require('highlight.js/lib/languages/haxe'),
+  hsp: () => require('highlight.js/lib/languages/hsp'),
+  http: () => require('highlight.js/lib/languages/http'),
+  hy: () => require('highlight.js/lib/languages/hy'),
+  inform7: () => require('highlight.js/lib/languages/inform7'),
+  ini: () => require('highlight.js/lib/languages/ini'),
+  irpf90: () => require('highlight.js/lib/languages/irpf90'),
+  isbl: () => require('highlight.js/lib/languages/isbl'),
+  java: () => require('highlight.js/lib/languages/java'),
+  javascript: () => require('highlight.js/lib/languages/javascript'),
+  'jboss-cli': () => require('highlight.js/lib/languages/jboss-cli'),
+  json: () => require('highlight.js/lib/languages/json'),
+  julia: () => require('highlight.js/lib/languages/julia'),
+  'julia-repl': () => require('highlight.js/lib/languages/julia-repl'),
+  kotlin: () => require('highlight.js/lib/languages/kotlin'),
+  lasso: () => require('highlight.js/lib/languages/lasso'),
+  latex: () => require('highlight.js/lib/languages/latex'),
+  ldif: () => require('highlight.js/lib/languages/ldif'),
+  leaf: () => require('highlight.js/lib/languages/leaf'),
+  less: () => require('highlight.js/lib/languages/less'),
+  lisp: () => require('highlight.js/lib/languages/lisp'),
+  livecodeserver: () => require('highlight.js/lib/languages/livecodeserver'),
+  livescript: () => require('highlight.js/lib/languages/livescript'),
+  llvm: () => require('highlight.js/lib/languages/llvm'),
+  lsl: () => require('highlight.js/lib/languages/lsl'),
+  lua: () => require('highlight.js/lib/languages/lua'),
+  makefile: () => require('highlight.js/lib/languages/makefile'),
+  markdown: () => require('highlight.js/lib/languages/markdown'),
+  mathematica: () => require('highlight.js/lib/languages/mathematica'),
+  matlab: () => require('highlight.js/lib/languages/matlab'),
+  maxima: () => require('highlight.js/lib/languages/maxima'),
+  mel: () => require('highlight.js/lib/languages/mel'),
+  mercury: () => require('highlight.js/lib/languages/mercury'),
+  mipsasm: () => require('highlight.js/lib/languages/mipsasm'),
+  mizar: () => require('highlight.js/lib/languages/mizar'),
+  mojolicious: () => require('highlight.js/lib/languages/mojolicious'),
+  monkey: () => require('highlight.js/lib/languages/monkey'),
+  moonscript: () => require('highlight.js/lib/languages/moonscript'),
+  n1ql: () => require('highlight.js/lib/languages/n1ql'),
+  nestedtext: () => require('highlight.js/lib/languages/nestedtext'),
+  nginx: () => require('highlight.js/lib/languages/nginx'),
+  nim: () => require('highlight.js/lib/languages/nim'),
+  nix: () => require('highlight.js/lib/languages/nix'),
+  'node-repl': () => require('highlight.js/lib/languages/node-repl'),
+  nsis: () => require('highlight.js/lib/languages/nsis'),
+  objectivec: () => require('highlight.js/lib/languages/objectivec'),
+  ocaml: () => require('highlight.js/lib/languages/ocaml'),
+  openscad: () => require('highlight.js/lib/languages/openscad'),
+  oxygene: () => require('highlight.js/lib/languages/oxygene'),
+  parser3: () => require('highlight.js/lib/languages/parser3'),
+  perl: () => require('highlight.js/lib/languages/perl'),
+  pf: () => require('highlight.js/lib/languages/pf'),
+  pgsql: () => require('highlight.js/lib/languages/pgsql'),
+  php: () => require('highlight.js/lib/languages/php'),
+  'php-template': () => require('highlight.js/lib/languages/php-template'),
+  plaintext: () => require('highlight.js/lib/languages/plaintext'),
+  pony: () => require('highlight.js/lib/languages/pony'),
+  powershell: () => require('highlight.js/lib/languages/powershell'),
+  processing: () => require('highlight.js/lib/languages/processing'),
+  profile: () => require('highlight.js/lib/languages/profile'),
+  prolog: () => require('highlight.js/lib/languages/prolog'),
+  properties: () => require('highlight.js/lib/languages/properties'),
+  protobuf: () => require('highlight.js/lib/languages/protobuf'),
+  puppet: () => require('highlight.js/lib/languages/puppet'),
+  purebasic: () => require('highlight.js/lib/languages/purebasic'),
+  python: () => require('highlight.js/lib/languages/python'),
+  'python-repl': () => require('highlight.js/lib/languages/python-repl'),
+  q: () => require('highlight.js/lib/languages/q'),
+  qml: () => require('highlight.js/lib/languages/qml'),
+  r: () => require('highlight.js/lib/languages/r'),
+  reasonml: () => require('highlight.js/lib/languages/reasonml'),
+  rib: () => require('highlight.js/lib/languages/rib'),
+  roboconf: () => require('highlight.js/lib/languages/roboconf'),
+  routeros: () => require('highlight.js/lib/languages/routeros'),
+  rsl: () => require('highlight.js/lib/languages/rsl'),
+  ruby: () => require('highlight.js/lib/languages/ruby'),
+  ruleslanguage: () => require('highlight.js/lib/languages/ruleslanguage'),
+  rust: () => require('highlight.js/lib/languages/rust'),
+  sas: () => require('highlight.js/lib/languages/sas'),
+  scala: () => require('highlight.js/lib/languages/scala'),
+  scheme: () => require('highlight.js/lib/languages/scheme'),
+  scilab: () => require('highlight.js/lib/languages/scilab'),
+  scss: () => require('highlight.js/lib/languages/scss'),
+  shell: () => require('highlight.js/lib/languages/shell'),
+  smali: () => require('highlight.js/lib/languages/smali'),
+  smalltalk: () => require('highlight.js/lib/languages/smalltalk'),
+  sml: () => require('highlight.js/lib/languages/sml'),
+  sqf: () => require('highlight.js/lib/languages/sqf'),
+  sql: () => require('highlight.js/lib/languages/sql'),
+  stan: () => require('highlight.js/lib/languages/stan'),
+  stata: () => require('highlight.js/lib/languages/stata'),
+  step21: () => require('highlight.js/lib/languages/step21'),
+  stylus: () => require('highlight.js/lib/languages/stylus'),
+  subunit: () => require('highlight.js/lib/languages/subunit'),
+  swift: () => require('highlight.js/lib/languages/swift'),
+  taggerscript: () => require('highlight.js/lib/languages/taggerscript'),
+  tap: () => require('highlight.js/lib/languages/tap'),
+  tcl: () => require('highlight.js/lib/languages/tcl'),
+  thrift: () => require('highlight.js/lib/languages/thrift'),
+  tp: () => require('highlight.js/lib/languages/tp'),
+  twig: () => require('highlight.js/lib/languages/twig'),
+  typescript: () => require('highlight.js/lib/languages/typescript'),
+  vala: () => require('highlight.js/lib/languages/vala'),
+  vbnet: () => require('highlight.js/lib/languages/vbnet'),
+  vbscript: () => require('highlight.js/lib/languages/vbscript'),
+  'vbscript-html': () => require('highlight.js/lib/languages/vbscript-html'),
+  verilog: () => require('highlight.js/lib/languages/verilog'),
+  vhdl: () => require('highlight.js/lib/languages/vhdl'),
+  vim: () => require('highlight.js/lib/languages/vim'),
+  wasm: () => require('highlight.js/lib/languages/wasm'),
+  wren: () => require('highlight.js/lib/languages/wren'),
+  x86asm: () => require('highlight.js/lib/languages/x86asm'),
+  xl: () => require('highlight.js/lib/languages/xl'),
+  xml: () => require('highlight.js/lib/languages/xml'),
+  xquery: () => require('highlight.js/lib/languages/xquery'),
+  yaml: () => require('highlight.js/lib/languages/yaml'),
+  zephir: () => require('highlight.js/lib/languages/zephir'),
+};
+
+/**
+ * Fence aliases of highlight.js languages, mapped to the language name.
+ */
+export const HIGHLIGHT_LANGUAGE_ALIASES: { readonly [alias: string]: string } = {
+  ado: 'stata',
+  adoc: 'asciidoc',
+  ahk: 'autohotkey',
+  apacheconf: 'apache',
+  arm: 'armasm',
+  as: 'actionscript',
+  asc: 'angelscript',
+  atom: 'xml',
+  bat: 'dos',
+  bf: 'brainfuck',
+  bind: 'dns',
+  'c#': 'csharp',
+  'c++': 'cpp',
+  capnp: 'capnproto',
+  cc: 'cpp',
+  cjs: 'javascript',
+  clj: 'clojure',
+  cls: 'cos',
+  'cmake.in': 'cmake',
+  cmd: 'dos',
+  coffee: 'coffeescript',
+  console: 'shell',
+  cr: 'crystal',
+  craftcms: 'twig',
+  crm: 'crmsh',
+  cs: 'csharp',
+  cson: 'coffeescript',
+  cts: 'typescript',
+  cxx: 'cpp',
+  dcl: 'clean',
+  dfm: 'delphi',
+  do: 'stata',
+  docker: 'dockerfile',
+  dpr: 'delphi',
+  dst: 'dust',
+  edn: 'clojure',
+  erl: 'erlang',
+  ex: 'elixir',
+  exs: 'elixir',
+  'f#': 'fsharp',
+  f90: 'fortran',
+  f95: 'fortran',
+  feature: 'gherkin',
+  fs: 'fsharp',
+  gemspec: 'ruby',
+  gms: 'gams',
+  golang: 'go',
+  gql: 'graphql',
+  graph: 'roboconf',
+  gss: 'gauss',
+  gyp: 'python',
+  h: 'c',
+  'h++': 'cpp',
+  hbs: 'handlebars',
+  hh: 'cpp',
+  hpp: 'cpp',
+  hs: 'haskell',
+  html: 'xml',
+  'html.handlebars': 'handlebars',
+  'html.hbs': 'handlebars',
+  htmlbars: 'handlebars',
+  https: 'http',
+  hx: 'haxe',
+  hxx: 'cpp',
+  hylang: 'hy',
+  i7: 'inform7',
+  iced: 'coffeescript',
+  icl: 'clean',
+  ino: 'arduino',
+  instances: 'roboconf',
+  ipython: 'python',
+  irb: 'ruby',
+  jinja: 'django',
+  jldoctest: 'julia-repl',
+  js: 'javascript',
+  jsonc: 'json',
+  jsp: 'java',
+  jsx: 'javascript',
+  k: 'q',
+  kdb: 'q',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  lassoscript: 'lasso',
+  ls: 'livescript',
+  m: 'mercury',
+  mak: 'makefile',
+  make: 'makefile',
+  md: 'markdown',
+  mikrotik: 'routeros',
+  mips: 'mipsasm',
+  mjs: 'javascript',
+  mk: 'makefile',
+  mkd: 'markdown',
+  mkdown: 'markdown',
+  ml: 'sml',
+  mm: 'objectivec',
+  mma: 'mathematica',
+  moo: 'mercury',
+  moon: 'moonscript',
+  mts: 'typescript',
+  nc: 'gcode',
+  nginxconf: 'nginx',
+  nixos: 'nix',
+  nt: 'nestedtext',
+  'obj-c': 'objectivec',
+  'obj-c++': 'objectivec',
+  objc: 'objectivec',
+  'objective-c++': 'objectivec',
+  osascript: 'applescript',
+  p21: 'step21',
+  pas: 'delphi',
+  pascal: 'delphi',
+  patch: 'diff',
+  pb: 'purebasic',
+  pbi: 'purebasic',
+  pcmk: 'crmsh',
+  pde: 'processing',
+  'pf.conf': 'pf',
+  pl: 'perl',
+  plist: 'xml',
+  pluto: 'lua',
+  pm: 'perl',
+  podspec: 'ruby',
+  postgres: 'pgsql',
+  postgresql: 'pgsql',
+  pp: 'puppet',
+  proto: 'protobuf',
+  ps: 'powershell',
+  ps1: 'powershell',
+  pwsh: 'powershell',
+  py: 'python',
+  pycon: 'python-repl',
+  qt: 'qml',
+  rb: 'ruby',
+  re: 'reasonml',
+  rs: 'rust',
+  rss: 'xml',
+  scad: 'openscad',
+  sci: 'scilab',
+  scm: 'scheme',
+  sh: 'bash',
+  shellsession: 'shell',
+  st: 'smalltalk',
+  stanfuncs: 'stan',
+  step: 'step21',
+  stp: 'step21',
+  styl: 'stylus',
+  sv: 'verilog',
+  svg: 'xml',
+  svh: 'verilog',
+  tao: 'xl',
+  tex: 'latex',
+  text: 'plaintext',
+  thor: 'ruby',
+  tk: 'tcl',
+  toml: 'ini',
+  ts: 'typescript',
+  tsx: 'typescript',
+  txt: 'plaintext',
+  v: 'verilog',
+  vb: 'vbnet',
+  vbs: 'vbscript',
+  'wildfly-cli': 'jboss-cli',
+  wl: 'mathematica',
+  wsf: 'xml',
+  'x++': 'axapta',
+  xhtml: 'xml',
+  xjb: 'xml',
+  xls: 'excel',
+  xlsx: 'excel',
+  xpath: 'xquery',
+  xq: 'xquery',
+  xqm: 'xquery',
+  xsd: 'xml',
+  xsl: 'xml',
+  yml: 'yaml',
+  zep: 'zephir',
+  zone: 'dns',
+  zsh: 'bash',
+};
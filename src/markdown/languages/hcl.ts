@@ -0,0 +1,57 @@
+import type { HLJSApi, Language, Mode } from 'highlight.js';
+
+/**
+ * HashiCorp Configuration Language (Terraform, Packer, Nomad).
+ *
+ * highlight.js does not ship an HCL grammar, so Terraform fences would stay
+ * plain text. This covers blocks, attributes, comments, strings with `${…}`
+ * interpolation, heredocs, numbers and literals.
+ *
+ * @param hljs - highlight.js API
+ * @returns Language definition
+ */
+export default function hcl(hljs: HLJSApi): Language {
+  const INTERPOLATION: Mode = {
+    className: 'subst',
+    begin: /[$%]\{~?/,
+    end: /~?\}/,
+  };
+
+  const STRING: Mode = {
+    className: 'string',
+    begin: /"/,
+    end: /"/,
+    contains: [hljs.BACKSLASH_ESCAPE, INTERPOLATION],
+  };
+
+  const HEREDOC: Mode = {
+    className: 'string',
+    begin: /<<-?\s*([A-Za-z_]\w*)\s*$/,
+    end: /^\s*[A-Za-z_]\w*\s*$/,
+    contains: [INTERPOLATION],
+  };
+
+  return {
+    name: 'HCL',
+    aliases: ['terraform', 'tf', 'tfvars'],
+    keywords: {
+      keyword:
+        'resource data variable output module provider terraform locals moved import check removed for in if else endif endfor',
+      literal: 'true false null',
+    },
+    contains: [
+      hljs.HASH_COMMENT_MODE,
+      hljs.C_LINE_COMMENT_MODE,
+      hljs.C_BLOCK_COMMENT_MODE,
+      HEREDOC,
+      STRING,
+      hljs.C_NUMBER_MODE,
+      {
+        // Attribute names: `name =` (but not `==`)
+        className: 'attr',
+        begin: /\b[A-Za-z_][\w-]*(?=\s*=(?!=))/,
+        relevance: 0,
+      },
+    ],
+  };
+}
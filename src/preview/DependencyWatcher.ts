@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Watches the local files a previewed document depends on.
+ *
+ * Files such as PlantUML includes are not part of the Markdown document, so
+ * editing them does not fire a document change. This class keeps one file
+ * system watcher per dependency and reports changes to them.
+ */
+export class DependencyWatcher implements vscode.Disposable {
+  private readonly watchers = new Map<string, vscode.FileSystemWatcher>();
+  private readonly onChange: (file: string) => void;
+
+  constructor(onChange: (file: string) => void) {
+    this.onChange = onChange;
+  }
+
+  /**
+   * Replace the set of watched files.
+   *
+   * Watchers for files that are no longer dependencies are disposed.
+   *
+   * @param files - Absolute paths of the current dependencies
+   */
+  public watch(files: string[]): void {
+    const wanted = new Set(files);
+
+    this.watchers.forEach((watcher, file) => {
+      if (!wanted.has(file)) {
+        watcher.dispose();
+        this.watchers.delete(file);
+      }
+    });
+
+    wanted.forEach((file) => {
+      if (this.watchers.has(file)) {
+        return;
+      }
+
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.dirname(file)), path.basename(file))
+      );
+      watcher.onDidChange(() => this.onChange(file));
+      watcher.onDidCreate(() => this.onChange(file));
+      watcher.onDidDelete(() => this.onChange(file));
+      this.watchers.set(file, watcher);
+    });
+  }
+
+  /**
+   * Get the files currently being watched.
+   *
+   * @returns Absolute paths of watched files
+   */
+  public getWatchedFiles(): string[] {
+    return Array.from(this.watchers.keys());
+  }
+
+  /**
+   * Stop watching all files.
+   */
+  public dispose(): void {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers.clear();
+  }
+}
@@ -0,0 +1,139 @@
+import * as path from 'path';
+
+/**
+ * Target of a link clicked in the preview.
+ */
+export type ResolvedLink =
+  | { kind: 'external'; url: string }
+  | { kind: 'fragment'; fragment: string }
+  | { kind: 'file'; path: string; fragment?: string };
+
+/**
+ * Resolves links clicked in the preview to what the extension should open.
+ *
+ * - `#fragment` links point into the previewed document
+ * - `http:`, `https:` and `mailto:` links are opened in the external browser or mail client
+ * - Relative paths are resolved against the document's directory, and paths
+ *   starting with `/` against its workspace folder; a `#fragment` is kept so
+ *   `guide.md#setup` can jump to a heading in another file
+ *
+ * Links with any other scheme (e.g. `command:`) are not followed.
+ */
+export class LinkResolver {
+  private static readonly EXTERNAL_SCHEMES = ['http:', 'https:', 'mailto:'];
+  private static readonly MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdown', '.mkd'];
+
+  /**
+   * Resolve a link.
+   *
+   * @param href - `href` attribute of the clicked link
+   * @param documentPath - Absolute path of the previewed document (undefined for untitled documents)
+   * @param workspaceRoots - Absolute paths of the workspace folders
+   * @returns Link target, or undefined if the link cannot or should not be followed
+   */
+  public static resolve(
+    href: string,
+    documentPath: string | undefined,
+    workspaceRoots: string[]
+  ): ResolvedLink | undefined {
+    const link = href.trim();
+    if (link === '') {
+      return undefined;
+    }
+
+    if (link.startsWith('#')) {
+      return { kind: 'fragment', fragment: this.decode(link.slice(1)) };
+    }
+
+    const scheme = /^([a-z][a-z\d+.-]*:)/i.exec(link)?.[1].toLowerCase();
+    if (scheme && !/^[a-z]:[\\/]/i.test(link)) {
+      if (this.EXTERNAL_SCHEMES.includes(scheme)) {
+        return { kind: 'external', url: link };
+      }
+      if (scheme !== 'file:') {
+        return undefined;
+      }
+    }
+
+    const hashIndex = link.indexOf('#');
+    const fragment = hashIndex >= 0 ? this.decode(link.slice(hashIndex + 1)) : undefined;
+    const linkPath = this.decode((hashIndex >= 0 ? link.slice(0, hashIndex) : link).replace(/\?.*$/, ''));
+
+    const filePath = this.resolvePath(linkPath, documentPath, workspaceRoots);
+    if (!filePath) {
+      return undefined;
+    }
+    if (documentPath && path.resolve(filePath) === path.resolve(documentPath)) {
+      return fragment ? { kind: 'fragment', fragment } : undefined;
+    }
+    return fragment ? { kind: 'file', path: filePath, fragment } : { kind: 'file', path: filePath };
+  }
+
+  /**
+   * Check whether a file should be opened as a Markdown document (with preview).
+   *
+   * @param filePath - File path
+   * @returns True for Markdown file extensions
+   */
+  public static isMarkdownFile(filePath: string): boolean {
+    return this.MARKDOWN_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Resolve the path part of a link to an absolute file path.
+   *
+   * @param linkPath - Decoded path (or `file:` URL) without fragment and query
+   * @param documentPath - Absolute path of the previewed document
+   * @param workspaceRoots - Absolute paths of the workspace folders
+   * @returns Absolute path, or undefined if there is nothing to resolve against
+   */
+  private static resolvePath(
+    linkPath: string,
+    documentPath: string | undefined,
+    workspaceRoots: string[]
+  ): string | undefined {
+    if (/^file:/i.test(linkPath)) {
+      return linkPath.replace(/^file:\/\//i, '').replace(/^\/([a-z]:)/i, '$1');
+    }
+    if (/^[a-z]:[\\/]/i.test(linkPath)) {
+      return linkPath;
+    }
+
+    if (linkPath.startsWith('/')) {
+      // Root-relative links (as on GitHub) point into the document's workspace folder
+      const root =
+        workspaceRoots.find((folder) => documentPath && this.isInside(documentPath, folder)) ??
+        workspaceRoots[0];
+      return root ? path.join(root, linkPath) : undefined;
+    }
+
+    const baseDir = documentPath ? path.dirname(documentPath) : workspaceRoots[0];
+    return baseDir ? path.resolve(baseDir, linkPath) : undefined;
+  }
+
+  /**
+   * Check whether a file lies inside a directory.
+   *
+   * @param filePath - Absolute file path
+   * @param directory - Absolute directory path
+   * @returns True if the file is in the directory or one of its subdirectories
+   */
+  private static isInside(filePath: string, directory: string): boolean {
+    const relative = path.relative(directory, filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Decode percent-encoded characters, keeping malformed sequences as they are.
+   *
+   * @param value - Link part to decode
+   * @returns Decoded value
+   */
+  private static decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { PreviewPanel, PreviewPanelState } from './PreviewPanel';
+
+/**
+ * Manages all open preview panels.
+ *
+ * Each document URI has at most one preview panel. At most one panel is
+ * "dynamic" (unlocked): it follows the active Markdown editor. Locked panels
+ * stay pinned to their document, so several documents can be previewed side by side.
+ */
+export class PreviewManager {
+  private readonly panels = new Map<string, PreviewPanel>();
+  private readonly context: vscode.ExtensionContext;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+  }
+
+  /**
+   * Open a preview for the editor's document, or reveal the existing one.
+   *
+   * If no panel shows the document yet, an unlocked request reuses the
+   * dynamic panel; a locked request always creates a new panel.
+   *
+   * @param editor - Editor containing the Markdown document
+   * @param column - View column for the panel
+   * @param locked - Open a preview locked to this document
+   * @returns Preview panel showing the document
+   */
+  public openPreview(
+    editor: vscode.TextEditor,
+    column: vscode.ViewColumn,
+    locked: boolean = false
+  ): PreviewPanel {
+    const document = editor.document;
+
+    const existing = this.getPanel(document.uri);
+    if (existing) {
+      existing.reveal(column);
+      existing.update(document);
+      if (locked) {
+        existing.setLocked(true);
+      }
+      return existing;
+    }
+
+    const dynamicPanel = this.getDynamicPanel();
+    if (!locked && dynamicPanel) {
+      this.retarget(dynamicPanel, document);
+      dynamicPanel.reveal(column);
+      return dynamicPanel;
+    }
+
+    const panel = PreviewPanel.create(this.context, document, column, locked);
+    this.register(panel);
+    return panel;
+  }
+
+  /**
+   * Restore a preview panel deserialized by VS Code after a window reload.
+   *
+   * Panels whose document can no longer be opened, or which duplicate an
+   * existing preview, are closed. If a dynamic panel already exists, the
+   * restored panel is locked so only one panel follows the active editor.
+   *
+   * @param webviewPanel - Webview panel recreated by VS Code
+   * @param state - State persisted by the webview, if any
+   */
+  public async restorePreview(
+    webviewPanel: vscode.WebviewPanel,
+    state: PreviewPanelState | undefined
+  ): Promise<void> {
+    if (!state?.documentUri) {
+      webviewPanel.dispose();
+      return;
+    }
+
+    let document: vscode.TextDocument;
+    try {
+      document = await vscode.workspace.openTextDocument(vscode.Uri.parse(state.documentUri));
+    } catch (error) {
+      console.warn(`[PreviewManager] Cannot restore preview for ${state.documentUri}:`, error);
+      webviewPanel.dispose();
+      return;
+    }
+
+    if (this.getPanel(document.uri)) {
+      webviewPanel.dispose();
+      return;
+    }
+
+    const locked = state.locked || this.getDynamicPanel() !== undefined;
+    const panel = PreviewPanel.revive(webviewPanel, this.context, document, { ...state, locked });
+    this.register(panel);
+  }
+
+  /**
+   * Get the preview panel for a document.
+   *
+   * @param uri - Document URI
+   * @returns Panel showing the document or undefined
+   */
+  public getPanel(uri: vscode.Uri): PreviewPanel | undefined {
+    return this.panels.get(uri.toString());
+  }
+
+  /**
+   * Get the preview panel that currently has focus.
+   *
+   * @returns Active panel or undefined
+   */
+  public getActivePanel(): PreviewPanel | undefined {
+    return Array.from(this.panels.values()).find((panel) => panel.isActive());
+  }
+
+  /**
+   * Toggle the lock state of a preview panel.
+   *
+   * Only one dynamic panel may exist, so unlocking a panel locks any other
+   * dynamic panel.
+   *
+   * @param panel - Panel to toggle
+   */
+  public toggleLock(panel: PreviewPanel): void {
+    if (panel.isLocked()) {
+      this.getDynamicPanel()?.setLocked(true);
+      panel.setLocked(false);
+    } else {
+      panel.setLocked(true);
+    }
+  }
+
+  /**
+   * Handle a document content change.
+   *
+   * @param document - Changed document
+   */
+  public onDocumentChanged(document: vscode.TextDocument): void {
+    this.getPanel(document.uri)?.update(document);
+  }
+
+  /**
+   * Handle a change of the active editor.
+   *
+   * The dynamic panel follows the new Markdown document unless another
+   * panel already shows it.
+   *
+   * @param editor - Newly active editor
+   */
+  public onActiveEditorChanged(editor: vscode.TextEditor): void {
+    if (this.getPanel(editor.document.uri)) {
+      return;
+    }
+
+    const dynamicPanel = this.getDynamicPanel();
+    if (dynamicPanel) {
+      this.retarget(dynamicPanel, editor.document);
+    }
+  }
+
+  /**
+   * Handle editor scrolling by syncing the matching preview.
+   *
+   * @param editor - Editor whose visible ranges changed
+   */
+  public onEditorScrolled(editor: vscode.TextEditor): void {
+    this.getPanel(editor.document.uri)?.syncScrollFromEditor(editor);
+  }
+
+  /**
+   * Open a Markdown document linked from a preview in the editor and a preview.
+   *
+   * The document opens in the editor group of the linking document and is
+   * previewed in the linking panel's column: an unlocked panel follows the link,
+   * a locked one stays on its document.
+   *
+   * @param source - Panel in which the link was clicked
+   * @param uri - Linked Markdown document
+   * @param fragment - Heading to scroll to, if the link has a `#fragment`
+   */
+  public async openDocumentLink(source: PreviewPanel, uri: vscode.Uri, fragment?: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const sourceUri = source.getDocument().uri.toString();
+    const sourceEditor = vscode.window.visibleTextEditors.find(
+      (editor) => editor.document.uri.toString() === sourceUri
+    );
+
+    const editor = await vscode.window.showTextDocument(
+      document,
+      sourceEditor?.viewColumn ?? vscode.ViewColumn.One
+    );
+    const panel = this.openPreview(editor, source.getViewColumn() ?? vscode.ViewColumn.Beside);
+    if (fragment) {
+      panel.revealFragment(fragment);
+    }
+  }
+
+  /**
+   * Rebuild every open preview (e.g. after diagram renderers changed).
+   */
+  public reloadAll(): void {
+    this.panels.forEach((panel) => panel.reload());
+  }
+
+  /**
+   * Dispose all preview panels.
+   */
+  public dispose(): void {
+    Array.from(this.panels.values()).forEach((panel) => panel.dispose());
+    this.panels.clear();
+  }
+
+  /**
+   * Get the unlocked panel that follows the active editor.
+   *
+   * @returns Dynamic panel or undefined
+   */
+  private getDynamicPanel(): PreviewPanel | undefined {
+    return Array.from(this.panels.values()).find((panel) => !panel.isLocked());
+  }
+
+  /**
+   * Point a panel at another document and re-key it.
+   *
+   * @param panel - Panel to retarget
+   * @param document - New document
+   */
+  private retarget(panel: PreviewPanel, document: vscode.TextDocument): void {
+    this.panels.delete(panel.getDocument().uri.toString());
+    panel.update(document);
+    this.panels.set(document.uri.toString(), panel);
+  }
+
+  /**
+   * Track a newly created panel until it is disposed.
+   *
+   * @param panel - Panel to register
+   */
+  private register(panel: PreviewPanel): void {
+    this.panels.set(panel.getDocument().uri.toString(), panel);
+
+    panel.onOpenDocumentLink((uri, fragment) => this.openDocumentLink(panel, uri, fragment));
+
+    panel.onDispose(() => {
+      const key = panel.getDocument().uri.toString();
+      if (this.panels.get(key) === panel) {
+        this.panels.delete(key);
+      }
+    });
+  }
+}
@@ -1,7 +1,26 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
 import { MarkdownProcessor } from '../markdown/MarkdownProcessor';
+import { FrontMatter, FrontMatterData } from '../markdown/FrontMatter';
+import { MarkdownExtensions } from '../markdown/MarkdownExtensions';
+import { MermaidRenderer, MermaidSvgResult } from '../renderers/MermaidRenderer';
+import { DiagramRendererRegistry } from '../renderers/DiagramRendererRegistry';
+import { VegaChartSpec, VegaSvgResult } from '../renderers/VegaRenderer';
 import { ThemeManager } from '../themes/ThemeManager';
+import { DependencyWatcher } from './DependencyWatcher';
+import { LinkResolver } from './LinkResolver';
+
+/**
+ * Preview state persisted by the webview (vscodeApi.setState) and handed
+ * back to the panel serializer after a window reload.
+ */
+export interface PreviewPanelState {
+  documentUri: string;
+  locked: boolean;
+  line?: number;
+  zoom?: number;
+}
 
 /**
  * Manages the webview panel for Markdown preview.
@@ -12,22 +31,56 @@ import { ThemeManager } from '../themes/ThemeManager';
  */
 export class PreviewPanel {
   private readonly panel: vscode.WebviewPanel;
-  private readonly processor: MarkdownProcessor;
+  private processor: MarkdownProcessor;
   private readonly disposables: vscode.Disposable[] = [];
+  private readonly dependencyWatcher: DependencyWatcher;
   private updateTimeout: NodeJS.Timeout | undefined;
   private readonly debounceDelay: number;
   private isDisposed: boolean = false;
+  private document: vscode.TextDocument;
+  private ignoreEditorScrollUntil: number = 0;
+  private isWebviewReady: boolean = false;
+  private renderedTheme: string | undefined;
+  private renderedOutline: boolean | undefined;
+  private locked: boolean;
+  private restoredLine: number | undefined;
+  private pendingFragment: string | undefined;
+  private documentLinkHandler: ((uri: vscode.Uri, fragment?: string) => Promise<void>) | undefined;
+  private readonly zoom: number | undefined;
+  private readyWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private nextRequestId: number = 0;
+  // Incremented for every render; only the result of the latest one is shown
+  private renderGeneration: number = 0;
+  private readonly pendingRenderRequests = new Map<
+    number,
+    { resolve: (results: unknown[]) => void; reject: (error: Error) => void }
+  >();
 
   private context: vscode.ExtensionContext;
 
+  // Time window in which editor scroll events caused by revealLine are ignored
+  private static readonly SCROLL_ECHO_GRACE_MS = 300;
+
+  // Maximum time to wait for the webview to render Mermaid diagrams or Vega charts for export
+  private static readonly WEBVIEW_RENDER_TIMEOUT_MS = 30000;
+
   private constructor(
     panel: vscode.WebviewPanel,
     context: vscode.ExtensionContext,
-    document: vscode.TextDocument
+    document: vscode.TextDocument,
+    locked: boolean,
+    restoredState?: PreviewPanelState
   ) {
     this.panel = panel;
-    this.processor = new MarkdownProcessor();
+    this.processor = PreviewPanel.createProcessor();
     this.context = context;
+    this.document = document;
+    this.locked = locked;
+    this.restoredLine = restoredState?.line;
+    this.zoom = restoredState?.zoom;
+
+    // Re-render when a file the document depends on (e.g. a PlantUML include) changes
+    this.dependencyWatcher = new DependencyWatcher(() => this.update(this.document));
 
     // Get debounce delay from configuration
     const config = vscode.workspace.getConfiguration('markdownPreviewer');
@@ -39,7 +92,7 @@ export class PreviewPanel {
     // Handle panel disposal
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
 
-    // Handle messages from webview (zoom controls, theme changes)
+    // Handle messages from webview (scroll sync, zoom controls, theme changes)
     this.panel.webview.onDidReceiveMessage(
       (message) => {
         void this.handleWebviewMessage(message);
@@ -55,28 +108,127 @@ export class PreviewPanel {
    * @param context - Extension context
    * @param document - Markdown document to preview
    * @param column - View column for the panel
+   * @param locked - Keep the preview pinned to this document
    * @returns New PreviewPanel instance
    */
   public static create(
     context: vscode.ExtensionContext,
     document: vscode.TextDocument,
-    column: vscode.ViewColumn
+    column: vscode.ViewColumn,
+    locked: boolean = false
   ): PreviewPanel {
     const panel = vscode.window.createWebviewPanel(
       'markdownPreview',
-      `Preview: ${path.basename(document.fileName)}`,
+      PreviewPanel.getTitle(document, locked),
       column,
       {
-        enableScripts: true,
+        ...PreviewPanel.getWebviewOptions(context, document),
         retainContextWhenHidden: true,
-        localResourceRoots: [
-          vscode.Uri.file(path.dirname(document.fileName)),
-          vscode.Uri.joinPath(context.extensionUri, 'media'),
-        ],
       }
     );
 
-    return new PreviewPanel(panel, context, document);
+    return new PreviewPanel(panel, context, document, locked);
+  }
+
+  /**
+   * Restore a preview panel that VS Code deserialized after a window reload.
+   *
+   * @param panel - Webview panel recreated by VS Code
+   * @param context - Extension context
+   * @param document - Markdown document to preview
+   * @param state - State persisted by the webview before the reload
+   * @returns Restored PreviewPanel instance
+   */
+  public static revive(
+    panel: vscode.WebviewPanel,
+    context: vscode.ExtensionContext,
+    document: vscode.TextDocument,
+    state: PreviewPanelState
+  ): PreviewPanel {
+    panel.webview.options = PreviewPanel.getWebviewOptions(context, document);
+    return new PreviewPanel(panel, context, document, state.locked, state);
+  }
+
+  /**
+   * Create the Markdown processor with the syntax extensions enabled in the settings.
+   *
+   * @returns Markdown processor emitting source line markers
+   */
+  private static createProcessor(): MarkdownProcessor {
+    return new MarkdownProcessor({ lineMarkers: true, extensions: MarkdownExtensions.getSettings() });
+  }
+
+  /**
+   * Build the webview options for a document.
+   *
+   * @param context - Extension context
+   * @param document - Previewed document
+   * @returns Webview options
+   */
+  private static getWebviewOptions(
+    context: vscode.ExtensionContext,
+    document: vscode.TextDocument
+  ): vscode.WebviewOptions {
+    // Assets of renderers contributed by other extensions live in their own directories
+    const { scripts, styles } = DiagramRendererRegistry.getWebviewAssets();
+    const assetRoots = [...scripts, ...styles].map((asset) => vscode.Uri.joinPath(asset, '..'));
+    // Images may live anywhere in the workspace (e.g. docs/assets next to a docs/guide/ folder)
+    const workspaceRoots = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri);
+
+    return {
+      enableScripts: true,
+      localResourceRoots: [
+        vscode.Uri.file(path.dirname(document.fileName)),
+        ...workspaceRoots,
+        vscode.Uri.joinPath(context.extensionUri, 'media'),
+        ...assetRoots,
+      ],
+    };
+  }
+
+  /**
+   * Build the panel title for a document.
+   *
+   * @param document - Previewed document
+   * @param locked - Whether the preview is locked
+   * @returns Panel title
+   */
+  private static getTitle(document: vscode.TextDocument, locked: boolean): string {
+    const title = `Preview: ${path.basename(document.fileName)}`;
+    return locked ? `[Locked] ${title}` : title;
+  }
+
+  /**
+   * Check whether the preview is locked to its document.
+   *
+   * Locked previews never follow the active editor.
+   *
+   * @returns True if locked
+   */
+  public isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Lock or unlock the preview.
+   *
+   * @param locked - New lock state
+   */
+  public setLocked(locked: boolean): void {
+    this.locked = locked;
+    if (!this.isDisposed) {
+      this.panel.title = PreviewPanel.getTitle(this.document, locked);
+      this.postPanelState();
+    }
+  }
+
+  /**
+   * Check whether the preview is the active (focused) editor tab.
+   *
+   * @returns True if the panel is active
+   */
+  public isActive(): boolean {
+    return !this.isDisposed && this.panel.active;
   }
 
   /**
@@ -94,13 +246,19 @@ export class PreviewPanel {
   /**
    * Update the preview with new document content (debounced).
    *
-   * @param document - Updated document
+   * @param document - Updated document, or another document the preview now follows
    */
   public update(document: vscode.TextDocument): void {
     if (this.isDisposed) {
       return; // Silently ignore updates to disposed panel
     }
 
+    // A retargeted panel loads images relative to its new document
+    if (document.uri.toString() !== this.document.uri.toString()) {
+      this.panel.webview.options = PreviewPanel.getWebviewOptions(this.context, document);
+    }
+    this.document = document;
+
     // Clear existing timeout
     if (this.updateTimeout) {
       clearTimeout(this.updateTimeout);
@@ -112,19 +270,275 @@ export class PreviewPanel {
     }, this.debounceDelay);
   }
 
+  /**
+   * Rebuild the whole webview, e.g. after diagram renderers with webview assets
+   * were registered or removed.
+   */
+  public reload(): void {
+    if (this.isDisposed) {
+      return;
+    }
+
+    this.panel.webview.options = PreviewPanel.getWebviewOptions(this.context, this.document);
+    // Syntax extensions are installed when the processor is created
+    this.processor = PreviewPanel.createProcessor();
+    // The next render sets the full HTML instead of patching the body
+    this.isWebviewReady = false;
+    this.update(this.document);
+  }
+
+  /**
+   * Get the view column the panel is shown in.
+   *
+   * @returns View column, or undefined if the panel is not visible
+   */
+  public getViewColumn(): vscode.ViewColumn | undefined {
+    return this.panel.viewColumn;
+  }
+
+  /**
+   * Scroll the preview to a heading (or other element id) after the next render.
+   *
+   * @param fragment - Decoded `#fragment` of a link
+   */
+  public revealFragment(fragment: string): void {
+    this.pendingFragment = fragment;
+  }
+
+  /**
+   * Register the handler for links to other Markdown documents.
+   *
+   * The panel cannot open a preview for another document itself; the
+   * PreviewManager decides which panel shows it.
+   *
+   * @param handler - Opens the linked document in the editor and a preview
+   */
+  public onOpenDocumentLink(handler: (uri: vscode.Uri, fragment?: string) => Promise<void>): void {
+    this.documentLinkHandler = handler;
+  }
+
+  /**
+   * Get the document currently shown in the preview.
+   *
+   * @returns Previewed document
+   */
+  public getDocument(): vscode.TextDocument {
+    return this.document;
+  }
+
+  /**
+   * Render Mermaid sources to SVG using the webview's Mermaid instance.
+   *
+   * Used by exporters, since Mermaid cannot run in the extension host.
+   *
+   * @param sources - Mermaid diagram sources
+   * @returns Promise resolving to one result per source, in order
+   */
+  public async renderMermaid(sources: string[]): Promise<MermaidSvgResult[]> {
+    return this.requestWebviewRender<MermaidSvgResult>('renderMermaid', { sources }, 'Mermaid diagrams');
+  }
+
+  /**
+   * Render Vega and Vega-Lite charts to SVG using the webview's Vega instance.
+   *
+   * Used by exporters, since charts are only drawn in the webview.
+   *
+   * @param charts - Chart specs with their grammar
+   * @returns Promise resolving to one result per chart, in order
+   */
+  public async renderVega(charts: VegaChartSpec[]): Promise<VegaSvgResult[]> {
+    return this.requestWebviewRender<VegaSvgResult>('renderVega', { charts }, 'Vega charts');
+  }
+
+  /**
+   * Ask the webview to render content and wait for its reply.
+   *
+   * @param command - Webview command, answered with the matching `…Rendered` message
+   * @param data - Request payload (a request id is added)
+   * @param description - What is rendered, for the timeout error
+   * @returns Promise resolving to the webview's results
+   */
+  private async requestWebviewRender<T>(
+    command: string,
+    data: Record<string, unknown>,
+    description: string
+  ): Promise<T[]> {
+    const requestId = this.nextRequestId++;
+    return new Promise<T[]>((resolve, reject) => {
+      // The timeout also covers waiting for the webview to load, which may never happen
+      const timeout = setTimeout(() => {
+        this.pendingRenderRequests.delete(requestId);
+        reject(new Error(`Timed out waiting for ${description} to render`));
+      }, PreviewPanel.WEBVIEW_RENDER_TIMEOUT_MS);
+
+      this.pendingRenderRequests.set(requestId, {
+        resolve: (results) => {
+          clearTimeout(timeout);
+          resolve(results as T[]);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      });
+
+      this.whenReady().then(
+        () => {
+          if (this.pendingRenderRequests.has(requestId)) {
+            void this.panel.webview.postMessage({
+              command,
+              data: { ...data, requestId },
+            });
+          }
+        },
+        (error: Error) => {
+          this.pendingRenderRequests.get(requestId)?.reject(error);
+          this.pendingRenderRequests.delete(requestId);
+        }
+      );
+    });
+  }
+
+  /**
+   * Wait until the webview has loaded its scripts.
+   *
+   * @returns Promise resolving once the webview reported ready, or rejecting when the panel is disposed first
+   */
+  private whenReady(): Promise<void> {
+    if (this.isDisposed) {
+      return Promise.reject(new Error('PreviewPanel has been disposed'));
+    }
+    if (this.isWebviewReady) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => this.readyWaiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Scroll the preview to match the editor's visible range.
+   *
+   * Called when the user scrolls a Markdown editor. Events for other documents,
+   * and events echoed back from a preview-initiated reveal, are ignored.
+   *
+   * @param editor - Editor whose visible ranges changed
+   */
+  public syncScrollFromEditor(editor: vscode.TextEditor): void {
+    if (this.isDisposed || !this.isScrollSyncEnabled()) {
+      return;
+    }
+
+    if (editor.document.uri.toString() !== this.document.uri.toString()) {
+      return;
+    }
+
+    if (Date.now() < this.ignoreEditorScrollUntil) {
+      return;
+    }
+
+    const line = this.getEditorTopLine(editor);
+    if (line === undefined) {
+      return;
+    }
+
+    void this.panel.webview.postMessage({ command: 'scrollToLine', data: { line } });
+  }
+
+  /**
+   * Check whether scroll synchronization is enabled in settings.
+   *
+   * @returns True if editor and preview scrolling should be linked
+   */
+  private isScrollSyncEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('markdownPreviewer');
+    return config.get<boolean>('preview.scrollSync', true);
+  }
+
+  /**
+   * Get the first visible line of an editor.
+   *
+   * @param editor - Editor to inspect (defaults to a visible editor for the previewed document)
+   * @returns 0-based line number or undefined if no such editor is visible
+   */
+  private getEditorTopLine(editor?: vscode.TextEditor): number | undefined {
+    const target = editor ?? this.findEditorForDocument();
+    if (!target || target.visibleRanges.length === 0) {
+      return undefined;
+    }
+    return target.visibleRanges[0].start.line;
+  }
+
+  /**
+   * Find a visible text editor showing the previewed document.
+   *
+   * @returns Matching editor or undefined
+   */
+  private findEditorForDocument(): vscode.TextEditor | undefined {
+    const uri = this.document.uri.toString();
+    return vscode.window.visibleTextEditors.find(
+      (editor) => editor.document.uri.toString() === uri
+    );
+  }
+
   /**
    * Immediately update the webview content.
    *
+   * The first render sets the full webview HTML. Once the webview reports that
+   * its scripts are loaded, later renders only send the body HTML, which the
+   * webview patches block by block to keep rendered diagrams and scroll position.
+   *
    * @param document - Document to render
    */
   private async updateContent(document: vscode.TextDocument): Promise<void> {
+    const generation = ++this.renderGeneration;
     try {
       const markdown = document.getText();
-      const html = await this.processor.process(markdown);
-      const fullHtml = this.getWebviewHtml(html, document);
+      const result = await this.processor.process(markdown, {
+        documentPath: document.uri.scheme === 'file' ? document.fileName : undefined,
+        frontMatter: vscode.workspace
+          .getConfiguration('markdownPreviewer')
+          .get<'table' | 'hide'>('frontMatter.display', 'table'),
+        workspaceRoots: (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+        resourceUrl: (filePath) => this.panel.webview.asWebviewUri(vscode.Uri.file(filePath)).toString(),
+      });
+
+      // Renders can overlap: drop results superseded by a newer render, for a
+      // document the panel no longer shows, or arriving after the panel closed
+      if (
+        this.isDisposed ||
+        generation !== this.renderGeneration ||
+        document.uri.toString() !== this.document.uri.toString()
+      ) {
+        return;
+      }
+
+      const html = result.html;
+      this.dependencyWatcher.watch(result.dependencies);
 
-      this.panel.webview.html = fullHtml;
-      this.panel.title = `Preview: ${path.basename(document.fileName)}`;
+      // A theme or outline set in the front matter is only applied by rebuilding the whole webview
+      if (
+        this.getThemeName(result.frontMatter) !== this.renderedTheme ||
+        this.isOutlineEnabled(result.frontMatter) !== this.renderedOutline
+      ) {
+        this.isWebviewReady = false;
+      }
+
+      if (this.isWebviewReady) {
+        await this.panel.webview.postMessage({ command: 'updateContent', data: { html } });
+        this.postPanelState();
+      } else {
+        this.panel.webview.html = this.getWebviewHtml(html, document, result.frontMatter);
+      }
+      this.panel.title = PreviewPanel.getTitle(document, this.locked);
+
+      if (this.pendingFragment !== undefined) {
+        const fragment = this.pendingFragment;
+        this.pendingFragment = undefined;
+        await this.whenReady().then(
+          () => this.panel.webview.postMessage({ command: 'scrollToFragment', data: { fragment } }),
+          // The panel was closed before the webview loaded
+          () => undefined
+        );
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Error updating preview:', errorMessage);
@@ -132,6 +546,17 @@ export class PreviewPanel {
     }
   }
 
+  /**
+   * Send the document URI and lock state to the webview so it persists them
+   * for the panel serializer.
+   */
+  private postPanelState(): void {
+    void this.panel.webview.postMessage({
+      command: 'setPanelState',
+      data: { documentUri: this.document.uri.toString(), locked: this.locked },
+    });
+  }
+
   /**
    * Get webview URI for a media resource.
    *
@@ -144,48 +569,123 @@ export class PreviewPanel {
     );
   }
 
+  /**
+   * Get the theme for a rendered document.
+   *
+   * @param frontMatter - Front matter of the document
+   * @returns Theme from the document's front matter if it names a known theme,
+   *   otherwise the `preview.theme` setting
+   */
+  private getThemeName(frontMatter: FrontMatterData): string {
+    const theme = FrontMatter.getPreviewOptions(frontMatter).theme;
+    if (theme && ThemeManager.isValidTheme(theme)) {
+      return theme;
+    }
+    return vscode.workspace.getConfiguration('markdownPreviewer').get('preview.theme', 'github-light');
+  }
+
+  /**
+   * Check whether the outline sidebar is shown for a rendered document.
+   *
+   * @param frontMatter - Front matter of the document
+   * @returns The front matter `toc` key if set, otherwise the `preview.outline` setting
+   */
+  private isOutlineEnabled(frontMatter: FrontMatterData): boolean {
+    return (
+      FrontMatter.getPreviewOptions(frontMatter).toc ??
+      vscode.workspace.getConfiguration('markdownPreviewer').get<boolean>('preview.outline', true)
+    );
+  }
+
   /**
    * Generate complete HTML for the webview.
    *
    * @param contentHtml - Rendered Markdown HTML
    * @param document - Source document
+   * @param frontMatter - Front matter of the document (theme and outline overrides)
    * @returns Complete HTML document
    */
-  private getWebviewHtml(contentHtml: string, document: vscode.TextDocument): string {
-    void document;
-
+  private getWebviewHtml(
+    contentHtml: string,
+    document: vscode.TextDocument,
+    frontMatter: FrontMatterData
+  ): string {
     const config = vscode.workspace.getConfiguration('markdownPreviewer');
-    const themeName = config.get('preview.theme', 'github-light');
+    const themeName = this.getThemeName(frontMatter);
+    this.renderedTheme = themeName;
+    const outline = this.isOutlineEnabled(frontMatter);
+    this.renderedOutline = outline;
     const themeContent = ThemeManager.getThemeContent(this.context, themeName);
+    const zoom = this.zoom ?? config.get<number>('preview.defaultZoom', 100);
+
+    // A restored panel returns to its persisted position; otherwise follow the editor
+    const initialLine =
+      this.restoredLine ?? (this.isScrollSyncEnabled() ? this.getEditorTopLine() : undefined);
+    this.restoredLine = undefined;
+    const initialLineAttribute =
+      initialLine !== undefined ? ` data-initial-line="${initialLine}"` : '';
+    const documentUri = document.uri.toString().replace(/"/g, '&quot;');
 
     // Get URIs for external resources
+    const mermaidUri = this.getResourceUri('vendor/mermaid.min.js');
+    const katexCssUri = this.getResourceUri('vendor/katex/katex.min.css');
+    const vscodeApiUri = this.getResourceUri('scripts/vscode-api.js');
+    const previewStateUri = this.getResourceUri('scripts/preview-state.js');
+    const domPatcherUri = this.getResourceUri('scripts/dom-patcher.js');
     const modalZoomCssUri = this.getResourceUri('styles/modal-zoom.css');
+    const outlineCssUri = this.getResourceUri('styles/outline.css');
     const mermaidInitUri = this.getResourceUri('scripts/mermaid-init.js');
     const plantumlInitUri = this.getResourceUri('scripts/plantuml-init.js');
     const errorRelocatorUri = this.getResourceUri('scripts/error-relocator.js');
     const modalZoomUri = this.getResourceUri('scripts/modal-zoom.js');
     const codeCopyUri = this.getResourceUri('scripts/code-copy.js');
+    const scrollSyncUri = this.getResourceUri('scripts/scroll-sync.js');
+    const outlineUri = this.getResourceUri('scripts/outline.js');
+    const linkHandlerUri = this.getResourceUri('scripts/link-handler.js');
+    const vegaUri = this.getResourceUri('vendor/vega/vega.min.js');
+    const vegaLiteUri = this.getResourceUri('vendor/vega/vega-lite.min.js');
+    const vegaInitUri = this.getResourceUri('scripts/vega-init.js');
+    const rendererAssets = DiagramRendererRegistry.getWebviewAssets();
+    const rendererStyles = rendererAssets.styles
+      .map((uri) => `<link rel="stylesheet" href="${this.panel.webview.asWebviewUri(uri)}">`)
+      .join('\n    ');
+    const rendererScripts = rendererAssets.scripts
+      .map((uri) => `<script src="${this.panel.webview.asWebviewUri(uri)}"></script>`)
+      .join('\n    ');
 
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' https://cdn.jsdelivr.net ${this.panel.webview.cspSource}; script-src 'unsafe-inline' 'unsafe-eval' https://cdn.jsdelivr.net ${this.panel.webview.cspSource}; img-src vscode-resource: https: data:;">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline' ${this.panel.webview.cspSource}; script-src 'unsafe-inline' 'unsafe-eval' ${this.panel.webview.cspSource}; img-src ${this.panel.webview.cspSource} vscode-resource: https: data:; font-src ${this.panel.webview.cspSource};">
     <title>Markdown Preview</title>
 
-    <!-- Mermaid library -->
-    <script src="https://cdn.jsdelivr.net/npm/mermaid@10/dist/mermaid.min.js"></script>
+    <!-- Mermaid library (bundled in media/vendor, no network access required) -->
+    <script src="${mermaidUri}"></script>
+
+    <!-- Vega and Vega-Lite for charts (bundled in media/vendor) -->
+    <script src="${vegaUri}"></script>
+    <script src="${vegaLiteUri}"></script>
 
     <!-- Theme CSS -->
     <style>
         ${themeContent}
     </style>
 
+    <!-- KaTeX CSS and fonts for math (bundled in media/vendor) -->
+    <link rel="stylesheet" href="${katexCssUri}">
+
     <!-- Modal Diagram Zoom CSS -->
     <link rel="stylesheet" href="${modalZoomCssUri}">
+
+    <!-- Outline Sidebar CSS -->
+    <link rel="stylesheet" href="${outlineCssUri}">
+
+    <!-- Stylesheets of webview diagram renderers registered by other extensions -->
+    ${rendererStyles}
 </head>
-<body>
+<body data-document-uri="${documentUri}" data-locked="${this.locked}" data-zoom="${zoom}" data-outline="${outline}"${initialLineAttribute}>
     <!-- Preview Container -->
     <div id="preview-container">
         ${contentHtml}
@@ -224,12 +724,22 @@ export class PreviewPanel {
         </div>
     </div>
 
-    <!-- External JavaScript Resources -->
+    <!-- External JavaScript Resources (dom-patcher records the server HTML of each block, so it loads before the renderers) -->
+    <script src="${vscodeApiUri}"></script>
+    <script src="${previewStateUri}"></script>
+    <script src="${domPatcherUri}"></script>
     <script src="${mermaidInitUri}"></script>
     <script src="${plantumlInitUri}"></script>
+    <script src="${vegaInitUri}"></script>
     <script src="${errorRelocatorUri}"></script>
     <script src="${modalZoomUri}"></script>
     <script src="${codeCopyUri}"></script>
+    <script src="${scrollSyncUri}"></script>
+    <script src="${outlineUri}"></script>
+    <script src="${linkHandlerUri}"></script>
+
+    <!-- Scripts of webview diagram renderers registered by other extensions -->
+    ${rendererScripts}
 </body>
 </html>`;
   }
@@ -244,11 +754,140 @@ export class PreviewPanel {
     data?: unknown;
   }): Promise<void> {
     switch (message.command) {
+      case 'ready':
+        this.isWebviewReady = true;
+        this.readyWaiters.splice(0).forEach((waiter) => waiter.resolve());
+        break;
+      case 'mermaidRendered':
+      case 'vegaRendered': {
+        const { requestId, results } = message.data as {
+          requestId: number;
+          results: unknown[];
+        };
+        this.pendingRenderRequests.get(requestId)?.resolve(results);
+        this.pendingRenderRequests.delete(requestId);
+        break;
+      }
+      case 'diagramRendered': {
+        const { source, svg, svgId } = message.data as {
+          source: string;
+          svg: string;
+          svgId: string;
+        };
+        await MermaidRenderer.storeRenderedSvg(source, svg, svgId);
+        break;
+      }
+      case 'openLink':
+        await this.openLink((message.data as { href: string }).href);
+        break;
+      case 'revealLine':
+        this.revealEditorLine((message.data as { line: number }).line);
+        break;
+      case 'exportChart': {
+        const { format, content } = message.data as { format: 'svg' | 'png'; content: string };
+        await this.exportChart(format, content);
+        break;
+      }
       default:
         console.log('Received unknown message from webview:', message);
     }
   }
 
+  /**
+   * Open a link clicked in the preview.
+   *
+   * External URLs open in the default browser, Markdown files open in the
+   * editor and the preview (scrolled to the link's `#fragment`), and other
+   * files open in VS Code.
+   *
+   * @param href - `href` attribute of the clicked link
+   */
+  private async openLink(href: string): Promise<void> {
+    const workspaceRoots = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+    const documentPath = this.document.uri.scheme === 'file' ? this.document.fileName : undefined;
+    const target = LinkResolver.resolve(href, documentPath, workspaceRoots);
+    if (!target) {
+      console.warn('[Preview] Link not followed:', href);
+      return;
+    }
+
+    try {
+      if (target.kind === 'external') {
+        await vscode.env.openExternal(vscode.Uri.parse(target.url));
+      } else if (target.kind === 'fragment') {
+        await this.panel.webview.postMessage({ command: 'scrollToFragment', data: { fragment: target.fragment } });
+      } else if (!fs.existsSync(target.path)) {
+        vscode.window.showWarningMessage(`Linked file not found: ${target.path}`);
+      } else if (fs.statSync(target.path).isDirectory()) {
+        await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(target.path));
+      } else if (LinkResolver.isMarkdownFile(target.path) && this.documentLinkHandler) {
+        await this.documentLinkHandler(vscode.Uri.file(target.path), target.fragment);
+      } else {
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(target.path));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('[Preview] Failed to open link:', errorMessage);
+      vscode.window.showErrorMessage(`Failed to open link: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Save a chart exported from the preview to a file chosen by the user.
+   *
+   * @param format - Image format
+   * @param content - SVG markup, or a PNG data URL
+   */
+  private async exportChart(format: 'svg' | 'png', content: string): Promise<void> {
+    const extension = format === 'png' ? 'png' : 'svg';
+    const baseName = path.basename(this.document.fileName, path.extname(this.document.fileName));
+    const targetUri = await vscode.window.showSaveDialog({
+      defaultUri: this.document.isUntitled
+        ? undefined
+        : vscode.Uri.file(path.join(path.dirname(this.document.fileName), `${baseName}-chart.${extension}`)),
+      filters: { [extension.toUpperCase()]: [extension] },
+    });
+    if (!targetUri) {
+      return;
+    }
+
+    try {
+      const data =
+        extension === 'png'
+          ? Buffer.from(content.replace(/^data:image\/png;base64,/, ''), 'base64')
+          : Buffer.from(content, 'utf-8');
+      await vscode.workspace.fs.writeFile(targetUri, data);
+      vscode.window.showInformationMessage(`Exported chart to ${targetUri.fsPath}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('[Export] Chart export failed:', errorMessage);
+      vscode.window.showErrorMessage(`Failed to export chart: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Scroll the source editor so that the given line is at the top.
+   *
+   * @param line - 0-based (possibly fractional) source line reported by the preview
+   */
+  private revealEditorLine(line: number): void {
+    if (!this.isScrollSyncEnabled()) {
+      return;
+    }
+
+    const editor = this.findEditorForDocument();
+    if (!editor) {
+      return;
+    }
+
+    const targetLine = Math.max(0, Math.min(Math.floor(line), editor.document.lineCount - 1));
+    const range = new vscode.Range(targetLine, 0, targetLine, 0);
+
+    // Revealing fires onDidChangeTextEditorVisibleRanges; don't echo it back to the preview
+    this.ignoreEditorScrollUntil = Date.now() + PreviewPanel.SCROLL_ECHO_GRACE_MS;
+    editor.revealRange(range, vscode.TextEditorRevealType.AtTop);
+  }
+
   /**
    * Check if the panel has been disposed.
    *
@@ -277,6 +916,13 @@ export class PreviewPanel {
       clearTimeout(this.updateTimeout);
     }
 
+    this.pendingRenderRequests.forEach((request) =>
+      request.reject(new Error('PreviewPanel has been disposed'))
+    );
+    this.pendingRenderRequests.clear();
+    this.readyWaiters.splice(0).forEach((waiter) => waiter.reject(new Error('PreviewPanel has been disposed')));
+
+    this.dependencyWatcher.dispose();
     this.panel.dispose();
 
     while (this.disposables.length) {
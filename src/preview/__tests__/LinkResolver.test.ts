@@ -0,0 +1,72 @@
+import * as path from 'path';
+import { LinkResolver } from '../LinkResolver';
+
+/**
+ * Test suite for LinkResolver.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Links clicked in the preview are routed to the right place
+ * - Links with unsafe schemes are never followed
+ */
+describe('LinkResolver', () => {
+  const root = path.resolve('/workspace');
+  const documentPath = path.join(root, 'docs', 'guide.md');
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Web and mail links open externally
+   * - command: and other schemes are ignored
+   * - In-page anchors (also via the document's own file name) scroll the preview
+   */
+  test('should resolve external links and fragments', () => {
+    expect(LinkResolver.resolve('https://example.com/a#b', documentPath, [root])).toEqual({
+      kind: 'external',
+      url: 'https://example.com/a#b',
+    });
+    expect(LinkResolver.resolve('mailto:team@example.com', documentPath, [root])?.kind).toBe('external');
+    expect(LinkResolver.resolve('command:workbench.action.quit', documentPath, [root])).toBeUndefined();
+    expect(LinkResolver.resolve('javascript:alert(1)', documentPath, [root])).toBeUndefined();
+
+    expect(LinkResolver.resolve('#%E8%A8%AD%E8%A8%88', documentPath, [root])).toEqual({
+      kind: 'fragment',
+      fragment: '設計',
+    });
+    expect(LinkResolver.resolve('./guide.md#setup', documentPath, [root])).toEqual({
+      kind: 'fragment',
+      fragment: 'setup',
+    });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Relative links resolve against the document's directory
+   * - Root-relative links resolve against the workspace folder, as on GitHub
+   * - Fragments of links to other files are kept, and queries dropped
+   */
+  test('should resolve relative and root-relative file links', () => {
+    expect(LinkResolver.resolve('../README.md?plain=1#install', documentPath, [root])).toEqual({
+      kind: 'file',
+      path: path.join(root, 'README.md'),
+      fragment: 'install',
+    });
+    expect(LinkResolver.resolve('api/My%20Notes.md', documentPath, [root])).toEqual({
+      kind: 'file',
+      path: path.join(root, 'docs', 'api', 'My Notes.md'),
+    });
+    expect(LinkResolver.resolve('/assets/diagram.png', documentPath, [path.resolve('/other'), root])).toEqual({
+      kind: 'file',
+      path: path.join(root, 'assets', 'diagram.png'),
+    });
+    expect(LinkResolver.resolve('notes.md', undefined, [])).toBeUndefined();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Only Markdown files are opened with a preview
+   */
+  test('should recognize Markdown files', () => {
+    expect(LinkResolver.isMarkdownFile('/a/README.MD')).toBe(true);
+    expect(LinkResolver.isMarkdownFile('/a/notes.markdown')).toBe(true);
+    expect(LinkResolver.isMarkdownFile('/a/script.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { PreviewManager } from '../PreviewManager';
+import { PreviewPanel } from '../PreviewPanel';
+
+type FakeDocument = { fileName: string; uri: { toString: () => string } };
+
+/**
+ * Minimal stand-in for PreviewPanel that tracks document, lock and disposal state.
+ */
+class FakePreviewPanel {
+  public document: FakeDocument;
+  public locked: boolean;
+  public active = false;
+  public reveal = jest.fn();
+  private disposeCallbacks: Array<() => void> = [];
+
+  constructor(document: FakeDocument, locked: boolean) {
+    this.document = document;
+    this.locked = locked;
+  }
+
+  update = jest.fn((document: FakeDocument) => {
+    this.document = document;
+  });
+  getDocument = (): FakeDocument => this.document;
+  isLocked = (): boolean => this.locked;
+  setLocked = (locked: boolean): void => {
+    this.locked = locked;
+  };
+  isActive = (): boolean => this.active;
+  syncScrollFromEditor = jest.fn();
+  revealFragment = jest.fn();
+  getViewColumn = (): number => 2;
+  openDocumentLink: ((uri: vscode.Uri, fragment?: string) => Promise<void>) | undefined;
+  onOpenDocumentLink = (handler: (uri: vscode.Uri, fragment?: string) => Promise<void>): void => {
+    this.openDocumentLink = handler;
+  };
+  onDispose = (callback: () => void): void => {
+    this.disposeCallbacks.push(callback);
+  };
+  dispose = jest.fn(() => this.disposeCallbacks.forEach((callback) => callback()));
+}
+
+jest.mock('../PreviewPanel', () => ({
+  PreviewPanel: {
+    create: jest.fn(
+      (_context: unknown, document: FakeDocument, _column: unknown, locked = false) =>
+        new FakePreviewPanel(document, locked)
+    ),
+    revive: jest.fn(
+      (_panel: unknown, _context: unknown, document: FakeDocument, state: { locked: boolean }) =>
+        new FakePreviewPanel(document, state.locked)
+    ),
+  },
+}));
+
+const createEditor = (fileName: string): vscode.TextEditor =>
+  ({
+    document: {
+      fileName,
+      uri: { toString: () => `file://${fileName}` },
+    },
+  }) as unknown as vscode.TextEditor;
+
+const createWebviewPanel = (): vscode.WebviewPanel =>
+  ({ dispose: jest.fn() }) as unknown as vscode.WebviewPanel;
+
+const asFake = (panel: PreviewPanel): FakePreviewPanel => panel as unknown as FakePreviewPanel;
+
+/**
+ * Test suite for PreviewManager.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Each document gets at most one preview panel
+ * - The dynamic (unlocked) preview follows the active editor
+ * - Locked previews stay pinned to their document
+ * - Updates and scroll events are routed to the matching panel only
+ * - Panels restored after a window reload keep the single-dynamic-panel rule
+ */
+describe('PreviewManager', () => {
+  const ViewColumn = { Active: -1, Beside: -2 };
+  let manager: PreviewManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new PreviewManager({} as vscode.ExtensionContext);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Opening a preview twice for one document reuses the panel
+   */
+  test('should reuse the panel for a document that is already previewed', () => {
+    const editor = createEditor('/docs/a.md');
+
+    const first = manager.openPreview(editor, ViewColumn.Beside);
+    const second = manager.openPreview(editor, ViewColumn.Beside);
+
+    expect(second).toBe(first);
+    expect(PreviewPanel.create).toHaveBeenCalledTimes(1);
+    expect(asFake(first).reveal).toHaveBeenCalled();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The dynamic preview is retargeted instead of opening a new panel
+   */
+  test('should retarget the dynamic panel for another document', () => {
+    const panel = manager.openPreview(createEditor('/docs/a.md'), ViewColumn.Beside);
+    const editorB = createEditor('/docs/b.md');
+
+    expect(manager.openPreview(editorB, ViewColumn.Beside)).toBe(panel);
+    expect(manager.getPanel(editorB.document.uri)).toBe(panel);
+    expect(manager.getPanel(createEditor('/docs/a.md').document.uri)).toBeUndefined();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Locked previews stay on their document when the active editor changes
+   */
+  test('should keep locked panels pinned and open a new panel for other documents', () => {
+    const editorA = createEditor('/docs/a.md');
+    const editorB = createEditor('/docs/b.md');
+
+    const locked = manager.openPreview(editorA, ViewColumn.Beside, true);
+    manager.onActiveEditorChanged(editorB);
+    const dynamic = manager.openPreview(editorB, ViewColumn.Beside);
+
+    expect(dynamic).not.toBe(locked);
+    expect(locked.getDocument()).toBe(editorA.document);
+    expect(manager.getPanel(editorA.document.uri)).toBe(locked);
+    expect(manager.getPanel(editorB.document.uri)).toBe(dynamic);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The dynamic preview follows the active editor
+   * - It does not duplicate a document another panel already shows
+   */
+  test('should move the dynamic panel only to documents without a preview', () => {
+    const editorA = createEditor('/docs/a.md');
+    const editorB = createEditor('/docs/b.md');
+    const editorC = createEditor('/docs/c.md');
+
+    manager.openPreview(editorA, ViewColumn.Beside, true);
+    const dynamic = manager.openPreview(editorB, ViewColumn.Beside);
+
+    manager.onActiveEditorChanged(editorA);
+    expect(dynamic.getDocument()).toBe(editorB.document);
+
+    manager.onActiveEditorChanged(editorC);
+    expect(dynamic.getDocument()).toBe(editorC.document);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Content changes only re-render the panel for the changed document
+   */
+  test('should route document changes and scrolling to the matching panel', () => {
+    const editorA = createEditor('/docs/a.md');
+    const editorB = createEditor('/docs/b.md');
+    const panelA = asFake(manager.openPreview(editorA, ViewColumn.Beside, true));
+    const panelB = asFake(manager.openPreview(editorB, ViewColumn.Beside));
+    panelA.update.mockClear();
+    panelB.update.mockClear();
+
+    manager.onDocumentChanged(editorA.document);
+    manager.onEditorScrolled(editorB);
+
+    expect(panelA.update).toHaveBeenCalledWith(editorA.document);
+    expect(panelB.update).not.toHaveBeenCalled();
+    expect(panelB.syncScrollFromEditor).toHaveBeenCalledWith(editorB);
+    expect(panelA.syncScrollFromEditor).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A link to another Markdown file opens it next to the linking document's editor
+   * - The unlocked panel follows the link and scrolls to its fragment
+   */
+  test('should open linked Markdown documents in the editor and the preview', async () => {
+    const editorA = { ...createEditor('/docs/a.md'), viewColumn: 1 } as unknown as vscode.TextEditor;
+    const editorB = createEditor('/docs/b.md');
+    const showTextDocument = jest.fn(async () => editorB);
+    Object.assign(vscode.window, { visibleTextEditors: [editorA], showTextDocument });
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(editorB.document);
+
+    const panel = asFake(manager.openPreview(editorA, ViewColumn.Beside));
+    await panel.openDocumentLink?.({ fsPath: '/docs/b.md' } as vscode.Uri, 'setup');
+
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({ fsPath: '/docs/b.md' });
+    expect(showTextDocument).toHaveBeenCalledWith(editorB.document, 1);
+    expect(panel.getDocument()).toBe(editorB.document);
+    expect(panel.reveal).toHaveBeenLastCalledWith(2);
+    expect(panel.revealFragment).toHaveBeenCalledWith('setup');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - At most one panel follows the active editor after unlocking
+   */
+  test('should lock the other dynamic panel when unlocking a panel', () => {
+    const locked = manager.openPreview(createEditor('/docs/a.md'), ViewColumn.Beside, true);
+    const dynamic = manager.openPreview(createEditor('/docs/b.md'), ViewColumn.Beside);
+
+    manager.toggleLock(locked);
+
+    expect(locked.isLocked()).toBe(false);
+    expect(dynamic.isLocked()).toBe(true);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Closed panels are forgotten so a new one can be opened
+   */
+  test('should forget panels when they are disposed', () => {
+    const editor = createEditor('/docs/a.md');
+    const panel = manager.openPreview(editor, ViewColumn.Beside);
+
+    panel.dispose();
+
+    expect(manager.getPanel(editor.document.uri)).toBeUndefined();
+    expect(manager.openPreview(editor, ViewColumn.Beside)).not.toBe(panel);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A reloaded window restores the preview for its persisted document and lock state
+   */
+  test('should restore a panel from its persisted state', async () => {
+    const editor = createEditor('/docs/a.md');
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(editor.document);
+    const webviewPanel = createWebviewPanel();
+    const state = { documentUri: 'file:///docs/a.md', locked: true, line: 12, zoom: 150 };
+
+    await manager.restorePreview(webviewPanel, state);
+
+    expect(PreviewPanel.revive).toHaveBeenCalledWith(
+      webviewPanel,
+      expect.anything(),
+      editor.document,
+      state
+    );
+    expect(manager.getPanel(editor.document.uri)?.isLocked()).toBe(true);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Restoring an unlocked panel never creates a second dynamic panel
+   */
+  test('should lock a restored panel when a dynamic panel already exists', async () => {
+    const dynamic = manager.openPreview(createEditor('/docs/a.md'), ViewColumn.Beside);
+    const editorB = createEditor('/docs/b.md');
+    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValue(editorB.document);
+
+    await manager.restorePreview(createWebviewPanel(), {
+      documentUri: 'file:///docs/b.md',
+      locked: false,
+    });
+
+    expect(dynamic.isLocked()).toBe(false);
+    expect(manager.getPanel(editorB.document.uri)?.isLocked()).toBe(true);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Panels without state or with a missing document are closed instead of left blank
+   */
+  test('should close panels that cannot be restored', async () => {
+    (vscode.workspace.openTextDocument as jest.Mock).mockRejectedValue(new Error('not found'));
+    const withoutState = createWebviewPanel();
+    const missingDocument = createWebviewPanel();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await manager.restorePreview(withoutState, undefined);
+    await manager.restorePreview(missingDocument, {
+      documentUri: 'file:///docs/deleted.md',
+      locked: false,
+    });
+
+    expect(withoutState.dispose).toHaveBeenCalled();
+    expect(missingDocument.dispose).toHaveBeenCalled();
+    expect(PreviewPanel.revive).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiagramRenderContext, DiagramRenderer } from './DiagramRenderer';
+import { MermaidRenderer } from './MermaidRenderer';
+import { PlantUMLRenderer } from './PlantUMLRenderer';
+import { GraphvizRenderer } from './GraphvizRenderer';
+import { VegaRenderer } from './VegaRenderer';
+import { FrontMatter } from '../markdown/FrontMatter';
+
+/**
+ * Resolve configured PlantUML include paths to absolute directories.
+ *
+ * Relative entries are resolved against every workspace folder.
+ *
+ * @param includePaths - Paths from the `plantuml.includePaths` setting
+ * @returns Absolute directories to search for included files
+ */
+function getPlantUMLIncludePaths(includePaths: string[]): string[] {
+  const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map(
+    (folder) => folder.uri.fsPath
+  );
+
+  return includePaths.flatMap((includePath) =>
+    path.isAbsolute(includePath)
+      ? [includePath]
+      : workspaceFolders.map((folder) => path.resolve(folder, includePath))
+  );
+}
+
+/**
+ * Mermaid: the webview runs mermaid.js (loaded by the preview itself).
+ * SVG rendered by the webview is reused through MermaidRenderer's cache.
+ * A `mermaid` front matter key configures every diagram of the document.
+ */
+const mermaidDiagramRenderer: DiagramRenderer = {
+  id: 'mermaid',
+  languages: ['mermaid'],
+  fileExtensions: ['.mmd', '.mermaid'],
+  runtime: 'webview',
+  cachePolicy: 'renderer',
+  render: (source: string, context: DiagramRenderContext) =>
+    MermaidRenderer.renderCached(
+      MermaidRenderer.applyConfig(source, FrontMatter.getPreviewOptions(context.frontMatter ?? {}).mermaid)
+    ),
+  renderError: (errorMessage: string, source?: string) => MermaidRenderer.renderError(errorMessage, source),
+};
+
+/**
+ * PlantUML: online image URLs or local server SVG, configured in settings
+ * (the mode can be overridden with a `plantuml.mode` front matter key).
+ */
+const plantUMLDiagramRenderer: DiagramRenderer = {
+  id: 'plantuml',
+  languages: ['plantuml'],
+  fileExtensions: ['.puml', '.plantuml', '.pu', '.iuml', '.wsd'],
+  runtime: 'extension',
+  cachePolicy: 'renderer',
+  render: (source: string, context: DiagramRenderContext) => {
+    // Read PlantUML configuration from settings
+    const config = vscode.workspace.getConfiguration('markdownPreviewer');
+    const mode =
+      FrontMatter.getPreviewOptions(context.frontMatter ?? {}).plantumlMode ??
+      config.get<'online' | 'local'>('plantuml.mode', 'online');
+    const jarPath = config.get<string>('plantuml.jarPath', '');
+    const includeOptions = {
+      baseDir: context.baseDir,
+      includePaths: getPlantUMLIncludePaths(config.get<string[]>('plantuml.includePaths', [])),
+      dependencies: context.dependencies,
+    };
+
+    return PlantUMLRenderer.render(source, mode, jarPath, includeOptions);
+  },
+  renderError: (errorMessage: string, source?: string) => PlantUMLRenderer.renderError(errorMessage, source),
+};
+
+/**
+ * Graphviz: inline SVG from the bundled WebAssembly build or the dot executable.
+ */
+const graphvizDiagramRenderer: DiagramRenderer = {
+  id: 'graphviz',
+  languages: ['dot', 'graphviz'],
+  fileExtensions: ['.dot', '.gv'],
+  runtime: 'extension',
+  cachePolicy: 'renderer',
+  render: (source: string) => GraphvizRenderer.render(source),
+  renderError: (errorMessage: string, source?: string) => GraphvizRenderer.renderError(errorMessage, source),
+};
+
+/**
+ * Vega-Lite: the webview draws the chart (Vega is loaded by the preview itself).
+ * Not cached, since referenced data files are read on every render.
+ */
+const vegaLiteDiagramRenderer: DiagramRenderer = {
+  id: 'vega-lite',
+  languages: ['vega-lite', 'vegalite'],
+  runtime: 'webview',
+  cachePolicy: 'none',
+  render: (source: string, context: DiagramRenderContext) => VegaRenderer.render(source, 'vega-lite', context),
+  renderError: (errorMessage: string, source?: string) => VegaRenderer.renderError(errorMessage, source),
+};
+
+/**
+ * Vega: full Vega specifications, drawn in the webview like Vega-Lite.
+ */
+const vegaDiagramRenderer: DiagramRenderer = {
+  id: 'vega',
+  languages: ['vega'],
+  runtime: 'webview',
+  cachePolicy: 'none',
+  render: (source: string, context: DiagramRenderContext) => VegaRenderer.render(source, 'vega', context),
+  renderError: (errorMessage: string, source?: string) => VegaRenderer.renderError(errorMessage, source),
+};
+
+/**
+ * Renderers registered before any extension contributes its own.
+ */
+export const BUILT_IN_DIAGRAM_RENDERERS: DiagramRenderer[] = [
+  mermaidDiagramRenderer,
+  plantUMLDiagramRenderer,
+  graphvizDiagramRenderer,
+  vegaLiteDiagramRenderer,
+  vegaDiagramRenderer,
+];
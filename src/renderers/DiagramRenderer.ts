@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+
+/**
+ * Where a renderer's output becomes the final diagram.
+ *
+ * - `extension`: render() returns finished HTML (e.g. inline SVG)
+ * - `webview`: render() returns markup that the renderer's webview scripts turn
+ *   into the diagram (e.g. a source carrier element, like Mermaid)
+ */
+export type DiagramRuntime = 'extension' | 'webview';
+
+/**
+ * How rendered output is cached.
+ *
+ * - `none`: render() is called for every preview update
+ * - `content`: the registry caches render() output by renderer, version, theme and source
+ * - `renderer`: the renderer manages its own cache (used by the built-in renderers)
+ */
+export type DiagramCachePolicy = 'none' | 'content' | 'renderer';
+
+/**
+ * Per-diagram information passed to render().
+ */
+export interface DiagramRenderContext {
+  /** Directory that relative file references in the diagram resolve against */
+  baseDir?: string;
+  /** Receives the absolute path of every local file read, so the preview re-renders when it changes */
+  dependencies: Set<string>;
+  /** Parsed front matter of the document (part of the `content` cache key) */
+  frontMatter?: Record<string, unknown>;
+}
+
+/**
+ * Scripts and stylesheets a webview renderer needs in the preview.
+ *
+ * Scripts run after the preview's own scripts. They should process the
+ * initial content and listen for the `preview:content-updated` document
+ * event to process content sent by later updates.
+ */
+export interface DiagramRendererAssets {
+  scripts?: vscode.Uri[];
+  styles?: vscode.Uri[];
+}
+
+/**
+ * A renderer for one or more diagram fence languages.
+ */
+export interface DiagramRenderer {
+  /** Unique renderer id, e.g. 'vega' */
+  id: string;
+  /** Renderer version; part of the cache key for the `content` cache policy */
+  version?: string;
+  /** Fence languages handled, e.g. ['dot', 'graphviz'] (case-insensitive) */
+  languages: string[];
+  /** Extensions of diagram files referenced with `![](file)` or `file=`, e.g. ['.dot', '.gv'] */
+  fileExtensions?: string[];
+  runtime: DiagramRuntime;
+  /** Webview assets (only loaded for the `webview` runtime) */
+  assets?: DiagramRendererAssets;
+  cachePolicy: DiagramCachePolicy;
+
+  /**
+   * Render diagram source to HTML.
+   *
+   * @param source - Diagram source from the fence or file
+   * @param context - Base directory and dependency collector
+   * @returns HTML (or a promise of it) inserted into the preview
+   */
+  render(source: string, context: DiagramRenderContext): string | Promise<string>;
+
+  /**
+   * Render an error box for the diagram (a generic box is used when omitted).
+   *
+   * @param errorMessage - Error description
+   * @param source - Optional diagram source to display
+   * @returns HTML string with the error
+   */
+  renderError?(errorMessage: string, source?: string): string;
+}
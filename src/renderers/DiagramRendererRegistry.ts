@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiagramCache } from '../services/DiagramCache';
+import { DiagramRenderContext, DiagramRenderer, DiagramRendererAssets } from './DiagramRenderer';
+import { BUILT_IN_DIAGRAM_RENDERERS } from './BuiltInDiagramRenderers';
+
+/**
+ * Registry of diagram renderers keyed by fence language.
+ *
+ * MarkdownProcessor looks up the renderer for each fence (and for referenced
+ * diagram files by extension) here. The built-in Mermaid, PlantUML, Graphviz and
+ * Vega renderers are always registered; other extensions add renderers through
+ * the public extension API. A renderer registered later takes precedence for the
+ * languages it shares with earlier ones, so built-ins can be replaced.
+ */
+export class DiagramRendererRegistry {
+  private static renderers: DiagramRenderer[] = [...BUILT_IN_DIAGRAM_RENDERERS];
+  private static listeners: Array<() => void> = [];
+  private static cache: DiagramCache | null = null;
+
+  /**
+   * Register a diagram renderer.
+   *
+   * @param renderer - Renderer to add
+   * @returns Disposable that unregisters the renderer
+   * @throws Error if the renderer has no id or languages, or its id is already registered
+   */
+  public static register(renderer: DiagramRenderer): vscode.Disposable {
+    if (!renderer.id || renderer.languages.length === 0) {
+      throw new Error('A diagram renderer needs an id and at least one fence language');
+    }
+    if (this.renderers.some((entry) => entry.id === renderer.id)) {
+      throw new Error(`A diagram renderer with id "${renderer.id}" is already registered`);
+    }
+
+    this.renderers.push(renderer);
+    console.log(`[DiagramRendererRegistry] Registered "${renderer.id}" for ${renderer.languages.join(', ')}`);
+    this.notifyListeners();
+
+    return {
+      dispose: (): void => {
+        const index = this.renderers.indexOf(renderer);
+        if (index !== -1) {
+          this.renderers.splice(index, 1);
+          this.notifyListeners();
+        }
+      },
+    };
+  }
+
+  /**
+   * Find the renderer for a fence language.
+   *
+   * @param language - Language from the fence info string
+   * @returns Most recently registered renderer for the language, or undefined
+   */
+  public static getForLanguage(language: string): DiagramRenderer | undefined {
+    const normalized = language.toLowerCase();
+    return this.findLast((renderer) =>
+      renderer.languages.some((entry) => entry.toLowerCase() === normalized)
+    );
+  }
+
+  /**
+   * Find the renderer for a referenced diagram file by its extension.
+   *
+   * @param file - File path or reference
+   * @returns Most recently registered renderer for the extension, or undefined
+   */
+  public static getForFile(file: string): DiagramRenderer | undefined {
+    const extension = path.extname(file).toLowerCase();
+    if (!extension) {
+      return undefined;
+    }
+    return this.findLast((renderer) =>
+      (renderer.fileExtensions ?? []).some((entry) => entry.toLowerCase() === extension)
+    );
+  }
+
+  /**
+   * Get all registered renderers in registration order.
+   *
+   * @returns Registered renderers
+   */
+  public static getAll(): readonly DiagramRenderer[] {
+    return this.renderers;
+  }
+
+  /**
+   * Collect the webview assets of all webview renderers.
+   *
+   * @returns Scripts and stylesheets without duplicates
+   */
+  public static getWebviewAssets(): Required<DiagramRendererAssets> {
+    const unique = (uris: vscode.Uri[]): vscode.Uri[] =>
+      uris.filter((uri, index) => uris.findIndex((other) => other.toString() === uri.toString()) === index);
+
+    const webviewRenderers = this.renderers.filter((renderer) => renderer.runtime === 'webview');
+    return {
+      scripts: unique(webviewRenderers.flatMap((renderer) => renderer.assets?.scripts ?? [])),
+      styles: unique(webviewRenderers.flatMap((renderer) => renderer.assets?.styles ?? [])),
+    };
+  }
+
+  /**
+   * Listen for renderers being registered or unregistered.
+   *
+   * @param listener - Called after every change
+   * @returns Disposable that removes the listener
+   */
+  public static onDidChange(listener: () => void): vscode.Disposable {
+    this.listeners.push(listener);
+    return {
+      dispose: (): void => {
+        this.listeners = this.listeners.filter((entry) => entry !== listener);
+      },
+    };
+  }
+
+  /**
+   * Set the cache used by renderers with the `content` cache policy.
+   *
+   * @param cache - Diagram cache or null to disable caching
+   */
+  public static setCache(cache: DiagramCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Render a diagram with a renderer, applying its cache policy.
+   *
+   * Errors thrown by the renderer are turned into its error box, so one failing
+   * diagram never breaks the document.
+   *
+   * @param renderer - Renderer from getForLanguage() or getForFile()
+   * @param source - Diagram source
+   * @param context - Base directory and dependency collector
+   * @returns Promise resolving to diagram HTML
+   */
+  public static async render(
+    renderer: DiagramRenderer,
+    source: string,
+    context: DiagramRenderContext
+  ): Promise<string> {
+    try {
+      if (renderer.cachePolicy !== 'content' || !this.cache) {
+        return await renderer.render(source, context);
+      }
+
+      const key = DiagramCache.createKey({
+        renderer: renderer.id,
+        version: renderer.version ?? '',
+        theme: vscode.workspace.getConfiguration('markdownPreviewer').get('preview.theme', 'github-light'),
+        source,
+        frontMatter:
+          context.frontMatter && Object.keys(context.frontMatter).length > 0
+            ? JSON.stringify(context.frontMatter)
+            : undefined,
+      });
+      const cached = await this.cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const html = await renderer.render(source, context);
+      await this.cache.set(key, html);
+      return html;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown rendering error';
+      console.error(`[DiagramRendererRegistry] Error rendering ${renderer.id} diagram:`, errorMessage);
+      return this.renderError(renderer, errorMessage, source);
+    }
+  }
+
+  /**
+   * Render an error box with the renderer's own markup, or a generic one.
+   *
+   * @param renderer - Renderer the error belongs to
+   * @param errorMessage - Error description
+   * @param source - Optional diagram source
+   * @returns HTML string with the error
+   */
+  public static renderError(renderer: DiagramRenderer, errorMessage: string, source?: string): string {
+    if (renderer.renderError) {
+      return renderer.renderError(errorMessage, source);
+    }
+
+    return `<div class="diagram-error" style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
+  <strong style="color: #f85149;">Diagram Rendering Error (${this.escapeHtml(renderer.id)})</strong>
+  <p style="margin: 8px 0; color: #57606a;">${this.escapeHtml(errorMessage)}</p>
+</div>`;
+  }
+
+  /**
+   * Find the most recently registered renderer matching a predicate.
+   *
+   * @param predicate - Match function
+   * @returns Matching renderer or undefined
+   */
+  private static findLast(predicate: (renderer: DiagramRenderer) => boolean): DiagramRenderer | undefined {
+    for (let i = this.renderers.length - 1; i >= 0; i--) {
+      if (predicate(this.renderers[i])) {
+        return this.renderers[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Notify change listeners, isolating listener errors.
+   */
+  private static notifyListeners(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[DiagramRendererRegistry] Change listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private static escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (char) => map[char]);
+  }
+}
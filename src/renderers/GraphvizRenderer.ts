@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import type { Viz } from '@viz-js/viz';
+import { DiagramCache } from '../services/DiagramCache';
+
+/**
+ * Graphviz (DOT) diagram renderer.
+ *
+ * This module renders DOT sources to inline SVG in the extension host, so
+ * diagrams work offline and in exported HTML. Rendering uses the bundled
+ * WebAssembly build of Graphviz; if that cannot be loaded, the local `dot`
+ * executable is used instead. Error isolation ensures syntax errors don't
+ * break the document.
+ */
+export class GraphvizRenderer {
+  private static readonly DOT_TIMEOUT_MS = 10000;
+  private static diagramCounter = 0;
+  private static cache: DiagramCache | null = null;
+  private static vizPromise: Promise<Viz> | null = null;
+
+  /**
+   * Set the cache used to skip rendering unchanged diagrams.
+   *
+   * @param cache - Diagram cache or null to disable caching
+   */
+  public static setCache(cache: DiagramCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Render a Graphviz diagram block.
+   *
+   * @param content - DOT source code
+   * @param dotPath - Path to the `dot` executable used when WebAssembly is unavailable
+   * @returns Promise resolving to HTML string with the inline SVG
+   */
+  public static async render(content: string, dotPath?: string): Promise<string> {
+    if (!content || content.trim() === '') {
+      return this.renderError('Empty diagram content');
+    }
+
+    const config = vscode.workspace.getConfiguration('markdownPreviewer');
+    const configuredDotPath = dotPath || config.get<string>('graphviz.dotPath', 'dot');
+
+    try {
+      const svg = await this.renderSvg(content, configuredDotPath);
+      return this.wrapDiagram(content, `graphviz-${this.diagramCounter++}`, svg);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown rendering error';
+      return this.renderError(errorMessage, content);
+    }
+  }
+
+  /**
+   * Render DOT source to SVG, using the cache when available.
+   *
+   * @param content - DOT source code
+   * @param dotPath - Path to the `dot` executable
+   * @returns Promise resolving to SVG markup without the XML prolog
+   * @throws Error if the source is invalid or no Graphviz backend is available
+   */
+  private static async renderSvg(content: string, dotPath: string): Promise<string> {
+    let viz: Viz | null = null;
+    try {
+      viz = await this.getViz();
+    } catch (error) {
+      console.warn('[Graphviz] WebAssembly build unavailable, falling back to dot:', error);
+    }
+
+    const key = DiagramCache.createKey({
+      renderer: viz ? 'graphviz-wasm' : 'graphviz-dot',
+      version: viz ? viz.graphvizVersion : dotPath,
+      theme: '',
+      source: content,
+    });
+
+    const cached = await this.cache?.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const output = viz
+      ? viz.renderString(content, { format: 'svg' })
+      : await this.renderWithDot(content, dotPath);
+    const svg = this.stripXmlProlog(output);
+
+    await this.cache?.set(key, svg);
+    return svg;
+  }
+
+  /**
+   * Load the WebAssembly build of Graphviz once.
+   *
+   * A failed load is not remembered, so a later render can retry.
+   *
+   * @returns Promise resolving to the Viz instance
+   */
+  private static getViz(): Promise<Viz> {
+    if (!this.vizPromise) {
+      this.vizPromise = import('@viz-js/viz')
+        .then((module) => module.instance())
+        .catch((error) => {
+          this.vizPromise = null;
+          throw error;
+        });
+    }
+    return this.vizPromise;
+  }
+
+  /**
+   * Render DOT source with the local `dot` executable.
+   *
+   * @param content - DOT source code
+   * @param dotPath - Path to the `dot` executable
+   * @returns Promise resolving to SVG output
+   * @throws Error with dot's error output if rendering fails
+   */
+  private static renderWithDot(content: string, dotPath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        dotPath,
+        ['-Tsvg'],
+        { timeout: this.DOT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            reject(
+              new Error(
+                code === 'ENOENT'
+                  ? `Graphviz is unavailable: WebAssembly could not be loaded and "${dotPath}" was not found`
+                  : stderr.trim() || error.message
+              )
+            );
+            return;
+          }
+          resolve(stdout);
+        }
+      );
+      child.stdin?.end(content);
+    });
+  }
+
+  /**
+   * Remove the XML declaration, DOCTYPE and comments preceding the `<svg>` element.
+   *
+   * @param svg - SVG document from Graphviz
+   * @returns Markup starting at the `<svg>` element
+   */
+  private static stripXmlProlog(svg: string): string {
+    const start = svg.indexOf('<svg');
+    return (start >= 0 ? svg.substring(start) : svg).trim();
+  }
+
+  /**
+   * Wrap diagram markup with the copy button and modal zoom container.
+   *
+   * @param content - DOT source code (for the copy button)
+   * @param diagramId - Unique diagram ID
+   * @param svg - Rendered SVG markup
+   * @returns HTML string with the wrapped diagram
+   */
+  private static wrapDiagram(content: string, diagramId: string, svg: string): string {
+    const escapedContent = this.escapeHtml(content);
+
+    // Escape for data attribute (double quotes need extra escaping)
+    const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
+
+    // Copy button HTML (same structure as code blocks)
+    const copyButtonHtml = `
+    <button class="copy-code-button"
+            aria-label="Copy diagram source code"
+            title="Copy diagram source"
+            data-diagram-source="${escapedForAttribute}">
+      <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
+      </svg>
+      <span class="button-text">Copy</span>
+      <span class="button-feedback" role="status" aria-live="polite"></span>
+    </button>
+  `.trim();
+
+    // The diagram-clickable class enables modal zoom on click
+    return `<div class="diagram-wrapper">
+  ${copyButtonHtml}
+  <div class="diagram-clickable graphviz-container" data-diagram-id="${diagramId}" data-diagram-type="graphviz">
+    ${svg}
+  </div>
+</div>`;
+  }
+
+  /**
+   * Render an error message for a failed diagram.
+   *
+   * @param errorMessage - Error description
+   * @param content - Optional diagram content to display
+   * @returns HTML string with error message
+   */
+  public static renderError(errorMessage: string, content?: string): string {
+    const escapedMessage = this.escapeHtml(errorMessage);
+    const contentSection = content
+      ? `<details>
+      <summary>View diagram source</summary>
+      <pre><code>${this.escapeHtml(content)}</code></pre>
+    </details>`
+      : '';
+
+    return `<div class="diagram-error graphviz-error" style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
+  <div style="display: flex; align-items: center; margin-bottom: 8px;">
+    <svg style="width: 20px; height: 20px; margin-right: 8px; fill: #f85149;" viewBox="0 0 16 16">
+      <path d="M8 0a8 8 0 1 1 0 16A8 8 0 0 1 8 0zM1.5 8a6.5 6.5 0 1 0 13 0 6.5 6.5 0 0 0-13 0zm7-3.25a.75.75 0 0 0-1.5 0v3.5a.75.75 0 0 0 1.5 0v-3.5zm0 6a1 1 0 1 0-2 0 1 1 0 0 0 2 0z"/>
+    </svg>
+    <strong style="color: #f85149;">Graphviz Diagram Error</strong>
+  </div>
+  <p style="margin: 8px 0; color: #57606a;">${escapedMessage}</p>
+  ${contentSection}
+</div>`;
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private static escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (char) => map[char]);
+  }
+}
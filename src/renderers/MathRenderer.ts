@@ -0,0 +1,114 @@
+import katex from 'katex';
+
+/**
+ * KaTeX math renderer.
+ *
+ * Formulas are rendered to HTML in the extension host, so the webview and
+ * exported HTML only need the KaTeX stylesheet and fonts (bundled in
+ * media/vendor/katex). Error isolation ensures that an invalid formula is
+ * shown as an error without breaking the rest of the document.
+ */
+export class MathRenderer {
+  /**
+   * Render a formula inside a paragraph (`$…$`, or `$$…$$` within a line).
+   *
+   * @param tex - TeX source without delimiters
+   * @param displayMode - Render as a centered display formula
+   * @returns HTML string with the rendered formula or an inline error
+   */
+  public static renderInline(tex: string, displayMode = false): string {
+    try {
+      return katex.renderToString(tex, { displayMode, throwOnError: true });
+    } catch (error) {
+      return this.renderInlineError(this.getErrorMessage(error), tex);
+    }
+  }
+
+  /**
+   * Render a display formula (`$$…$$` or a ```` ```math ```` fence).
+   *
+   * @param tex - TeX source without delimiters
+   * @returns HTML string with the rendered formula or an error box
+   */
+  public static renderBlock(tex: string): string {
+    if (!tex || tex.trim() === '') {
+      return this.renderError('Empty formula');
+    }
+
+    try {
+      const html = katex.renderToString(tex, { displayMode: true, throwOnError: true });
+      return `<div class="math-block">${html}</div>`;
+    } catch (error) {
+      return this.renderError(this.getErrorMessage(error), tex);
+    }
+  }
+
+  /**
+   * Render an error message for a failed display formula.
+   *
+   * @param errorMessage - Error description
+   * @param content - Optional formula source to display
+   * @returns HTML string with error message
+   */
+  public static renderError(errorMessage: string, content?: string): string {
+    const escapedMessage = this.escapeHtml(errorMessage);
+    const contentSection = content
+      ? `<details>
+      <summary>View formula source</summary>
+      <pre><code>${this.escapeHtml(content)}</code></pre>
+    </details>`
+      : '';
+
+    return `<div class="diagram-error math-error" style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
+  <div style="display: flex; align-items: center; margin-bottom: 8px;">
+    <svg style="width: 20px; height: 20px; margin-right: 8px; fill: #f85149;" viewBox="0 0 16 16">
+      <path d="M8 0a8 8 0 1 1 0 16A8 8 0 0 1 8 0zM1.5 8a6.5 6.5 0 1 0 13 0 6.5 6.5 0 0 0-13 0zm7-3.25a.75.75 0 0 0-1.5 0v3.5a.75.75 0 0 0 1.5 0v-3.5zm0 6a1 1 0 1 0-2 0 1 1 0 0 0 2 0z"/>
+    </svg>
+    <strong style="color: #f85149;">Math Rendering Error</strong>
+  </div>
+  <p style="margin: 8px 0; color: #57606a;">${escapedMessage}</p>
+  ${contentSection}
+</div>`;
+  }
+
+  /**
+   * Render an error for a failed inline formula.
+   *
+   * Inline formulas sit inside paragraphs, so the error is a span that shows the
+   * source and keeps the message in its tooltip. Its colors come from the theme.
+   *
+   * @param errorMessage - Error description
+   * @param content - Formula source
+   * @returns HTML string with the inline error
+   */
+  private static renderInlineError(errorMessage: string, content: string): string {
+    return `<span class="math-error math-error-inline" title="${this.escapeHtml(errorMessage)}" style="border: 1px solid; border-radius: 4px; padding: 0 4px;"><code>${this.escapeHtml(content)}</code></span>`;
+  }
+
+  /**
+   * Get a readable message from a KaTeX error.
+   *
+   * @param error - Thrown error
+   * @returns Error message
+   */
+  private static getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown math rendering error';
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private static escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (char) => map[char]);
+  }
+}
@@ -1,3 +1,16 @@
+import * as vscode from 'vscode';
+import { version as MERMAID_VERSION } from 'mermaid/package.json';
+import { DiagramCache } from '../services/DiagramCache';
+
+/**
+ * Result of rendering one Mermaid diagram to SVG in a browser context.
+ * Exactly one of `svg` or `error` is set.
+ */
+export interface MermaidSvgResult {
+  svg?: string;
+  error?: string;
+}
+
 /**
  * Mermaid diagram renderer.
  *
@@ -8,6 +21,19 @@
  */
 export class MermaidRenderer {
   private static diagramCounter = 0;
+  private static cache: DiagramCache | null = null;
+
+  // Stands in for the SVG element id in cached SVG markup
+  private static readonly SVG_ID_PLACEHOLDER = '__MERMAID_SVG_ID__';
+
+  /**
+   * Set the cache holding SVG rendered by the webview.
+   *
+   * @param cache - Diagram cache or null to disable caching
+   */
+  public static setCache(cache: DiagramCache | null): void {
+    this.cache = cache;
+  }
 
   /**
    * Render a Mermaid diagram block.
@@ -30,6 +56,115 @@ export class MermaidRenderer {
     // Escape HTML to prevent XSS
     const escapedContent = this.escapeHtml(content);
 
+    // Return HTML container that will be processed by mermaid.js
+    // The pre element is used as a data carrier, and mermaid.js will replace it
+    return this.wrapDiagram(
+      content,
+      diagramId,
+      `<pre class="mermaid" id="${diagramId}">${escapedContent}</pre>`
+    );
+  }
+
+  /**
+   * Render a Mermaid diagram block, reusing SVG cached from an earlier webview render.
+   *
+   * On a cache hit the diagram is emitted already rendered, so the webview does not
+   * run Mermaid for it again. On a miss this falls back to render().
+   *
+   * @param content - Mermaid diagram source code
+   * @returns Promise resolving to HTML string with the diagram
+   */
+  public static async renderCached(content: string): Promise<string> {
+    if (!this.cache || !content || content.trim() === '') {
+      return this.render(content);
+    }
+
+    const key = this.createCacheKey(content);
+    const svg = await this.cache.get(key);
+    if (svg === undefined) {
+      return this.render(content);
+    }
+
+    // Derive the SVG id from the key so identical diagrams produce identical markup
+    const svgId = `mermaid-svg-${key.slice(0, 12)}`;
+    return this.wrapDiagram(
+      content,
+      `mermaid-${this.diagramCounter++}`,
+      svg.split(this.SVG_ID_PLACEHOLDER).join(svgId)
+    );
+  }
+
+  /**
+   * Apply a Mermaid configuration (e.g. from the document's front matter) to a diagram.
+   *
+   * The configuration is added as an `%%{init: …}%%` directive, so it is part of the
+   * source the webview renders and of its cache key. The directive goes after the
+   * diagram's own front matter block, if it has one, since Mermaid requires that
+   * block to come first.
+   *
+   * @param content - Mermaid diagram source code
+   * @param config - Mermaid configuration, or undefined to leave the source unchanged
+   * @returns Diagram source with the configuration directive
+   */
+  public static applyConfig(content: string, config?: Record<string, unknown>): string {
+    if (!config || Object.keys(config).length === 0) {
+      return content;
+    }
+
+    const directive = `%%{init: ${JSON.stringify(config)}}%%\n`;
+    const diagramFrontMatter = /^\s*---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/.exec(content);
+    if (!diagramFrontMatter) {
+      return directive + content;
+    }
+    const end = diagramFrontMatter[0].length;
+    const separator = diagramFrontMatter[0].endsWith('\n') ? '' : '\n';
+    return content.slice(0, end) + separator + directive + content.slice(end);
+  }
+
+  /**
+   * Store SVG rendered by the webview for later renderCached() calls.
+   *
+   * @param content - Mermaid diagram source code
+   * @param svg - Rendered SVG markup
+   * @param svgId - Id of the SVG element, replaced when the SVG is reused
+   */
+  public static async storeRenderedSvg(content: string, svg: string, svgId: string): Promise<void> {
+    if (!this.cache || !svgId) {
+      return;
+    }
+
+    await this.cache.set(
+      this.createCacheKey(content),
+      svg.split(svgId).join(this.SVG_ID_PLACEHOLDER)
+    );
+  }
+
+  /**
+   * Create the cache key for a Mermaid diagram.
+   *
+   * @param content - Mermaid diagram source code
+   * @returns Cache key
+   */
+  private static createCacheKey(content: string): string {
+    return DiagramCache.createKey({
+      renderer: 'mermaid',
+      version: MERMAID_VERSION,
+      theme: vscode.workspace.getConfiguration('markdownPreviewer').get('preview.theme', 'github-light'),
+      source: content,
+    });
+  }
+
+  /**
+   * Wrap diagram markup with the copy button and modal zoom container.
+   *
+   * @param content - Mermaid diagram source code (for the copy button)
+   * @param diagramId - Unique diagram ID
+   * @param innerHtml - Diagram markup (source carrier or rendered SVG)
+   * @returns HTML string with the wrapped diagram
+   */
+  private static wrapDiagram(content: string, diagramId: string, innerHtml: string): string {
+    const escapedContent = this.escapeHtml(content);
+
     // Escape for data attribute (double quotes need extra escaping)
     const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
 
@@ -47,14 +182,12 @@ export class MermaidRenderer {
     </button>
   `.trim();
 
-    // Return HTML container that will be processed by mermaid.js
-    // The pre element is used as a data carrier, and mermaid.js will replace it
     // The diagram-clickable class enables modal zoom on click
     // The diagram-wrapper wraps the diagram with copy button
     return `<div class="diagram-wrapper">
   ${copyButtonHtml}
   <div class="diagram-clickable mermaid-container" data-diagram-id="${diagramId}" data-diagram-type="mermaid">
-    <pre class="mermaid" id="${diagramId}">${escapedContent}</pre>
+    ${innerHtml}
   </div>
 </div>`;
   }
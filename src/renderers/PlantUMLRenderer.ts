@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { deflateSync } from 'zlib';
 import { JavaDetector } from '../utils/JavaDetector';
 import { PlantUMLServer } from '../services/PlantUMLServer';
+import { DiagramCache } from '../services/DiagramCache';
+import { PlantUMLIncludeOptions, PlantUMLIncludeResolver } from '../utils/PlantUMLIncludeResolver';
+
+/**
+ * Options for resolving local `!include` files while rendering.
+ */
+export type PlantUMLRenderIncludeOptions = PlantUMLIncludeOptions;
 
 /**
  * PlantUML diagram renderer (online and local mode).
@@ -14,8 +22,11 @@ import { PlantUMLServer } from '../services/PlantUMLServer';
  */
 export class PlantUMLRenderer {
   private static readonly PLANTUML_SERVER = 'https://www.plantuml.com/plantuml/svg/';
+  // Maximum time an export waits for the online server before keeping the server image
+  private static readonly ONLINE_FETCH_TIMEOUT_MS = 10000;
   private static diagramCounter = 0;
   private static serverInstance: PlantUMLServer | null = null;
+  private static cache: DiagramCache | null = null;
 
   /**
    * Set the PlantUML server instance for local rendering.
@@ -38,6 +49,24 @@ export class PlantUMLRenderer {
     return this.serverInstance;
   }
 
+  /**
+   * Set the cache used to skip server requests for unchanged diagrams.
+   *
+   * @param cache - Diagram cache or null to disable caching
+   */
+  public static setCache(cache: DiagramCache | null): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Get the current diagram cache.
+   *
+   * @returns Diagram cache or null if caching is disabled
+   */
+  public static getCache(): DiagramCache | null {
+    return this.cache;
+  }
+
   /**
    * Render a PlantUML diagram block.
    *
@@ -47,15 +76,20 @@ export class PlantUMLRenderer {
    * Default behavior: Uses online mode (no Java required) unless explicitly specified.
    * This allows diagrams of any size to render via the PlantUML online service.
    *
+   * When include options are given, local `!include`/`!includesub` files are
+   * inlined before rendering; the copy buttons keep the original fence source.
+   *
    * @param content - PlantUML diagram source code
    * @param mode - Rendering mode ('online' or 'local'), defaults to 'online'
    * @param jarPath - Path to PlantUML JAR (required for local mode)
+   * @param includeOptions - Where to resolve local includes (omit to send the source as-is)
    * @returns Promise resolving to HTML string with PlantUML image
    */
   public static async render(
     content: string,
     mode?: 'online' | 'local',
-    jarPath?: string
+    jarPath?: string,
+    includeOptions?: PlantUMLRenderIncludeOptions
   ): Promise<string> {
     if (!content || content.trim() === '') {
       return this.renderError('Empty diagram content');
@@ -68,11 +102,14 @@ export class PlantUMLRenderer {
     try {
       // Default to online mode unless explicitly specified
       const renderMode = mode ?? 'online';
+      const resolvedBlocks = includeOptions
+        ? await this.resolveIncludes(content, includeOptions)
+        : undefined;
 
       if (renderMode === 'local') {
-        return await this.renderLocal(content, configuredJarPath);
+        return await this.renderLocal(content, configuredJarPath, resolvedBlocks);
       } else {
-        return this.renderOnline(content);
+        return this.renderOnline(content, resolvedBlocks);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown rendering error';
@@ -80,6 +117,26 @@ export class PlantUMLRenderer {
     }
   }
 
+  /**
+   * Inline local includes in each diagram of a code block.
+   *
+   * @param content - PlantUML source code of the code block
+   * @param includeOptions - Where to resolve includes, and where to report included files
+   * @returns Promise resolving to one expanded source per diagram (see getDiagramSources)
+   */
+  private static async resolveIncludes(
+    content: string,
+    includeOptions: PlantUMLRenderIncludeOptions
+  ): Promise<string[]> {
+    // The resolver records dependencies as it goes, so a failed include is still watched
+    const resolved = await Promise.all(
+      this.getDiagramSources(content).map((source) =>
+        PlantUMLIncludeResolver.resolve(source, includeOptions)
+      )
+    );
+    return resolved.map((result) => result.source);
+  }
+
   /**
    * Detect PlantUML diagram size by counting source lines.
    *
@@ -121,32 +178,103 @@ export class PlantUMLRenderer {
    * Uses smart routing: GET for small diagrams, error message for oversized diagrams.
    * When the URL exceeds the length threshold, shows helpful error suggesting local mode.
    *
-   * When multiple @startuml/@enduml blocks exist in one code block, this method
-   * renders ONLY the first block to avoid duplication (matching Backlog behavior).
+   * When one code block contains several @start…/@end… blocks, every block is
+   * rendered as its own diagram with its own zoom target and copy button.
    *
-   * @param content - PlantUML diagram source code (may contain multiple @startuml/@enduml blocks)
-   * @returns HTML string with PlantUML image in a single container or error message
+   * @param content - PlantUML diagram source code (may contain multiple @start…/@end… blocks)
+   * @param resolvedBlocks - Diagram sources with includes inlined, parallel to the blocks of `content`
+   * @returns HTML string with one diagram container per block, or an error message
    */
-  public static renderOnline(content: string): string {
+  public static renderOnline(content: string, resolvedBlocks?: string[]): string {
     if (!content || content.trim() === '') {
       return this.renderError('Empty diagram content');
     }
 
     console.log('[PlantUML] Starting online rendering');
 
-    // Split content into individual @startuml/@enduml blocks
-    const diagramBlocks = this.splitPlantUMLBlocks(content);
-    const hasMultipleBlocks = diagramBlocks.length > 1;
+    return this.groupDiagrams(
+      this.getDiagramSources(content).map((source, index) =>
+        this.renderOnlineBlock(source, resolvedBlocks?.[index] ?? source)
+      )
+    );
+  }
+
+  /**
+   * Fetch the SVG of an online diagram image, using the cache when available.
+   *
+   * Used by exporters to embed online diagrams; the preview keeps the server
+   * image so that a slow or unreachable server never delays rendering. Online
+   * URLs encode the diagram source, so the URL itself is the cache source.
+   * The SVG comes from a remote server and is sanitized before it is returned.
+   *
+   * @param url - Online server URL of the diagram
+   * @returns Promise resolving to the SVG markup, or null if it cannot be fetched
+   */
+  public static async fetchOnlineSvg(url: string): Promise<string | null> {
+    const cache = this.cache;
+    const key = DiagramCache.createKey({ renderer: 'plantuml-online', version: '', theme: '', source: url });
+    const cached = cache ? await cache.get(key) : undefined;
+    if (cached !== undefined) {
+      // Entries persisted on disk are sanitized again, they may predate sanitizing
+      return this.sanitizeSVG(cached);
+    }
 
-    // Use only the first block if multiple blocks exist (matches Backlog behavior)
-    const block = hasMultipleBlocks ? diagramBlocks[0] : content;
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(this.ONLINE_FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Server returned status ${response.status}: ${response.statusText}`);
+      }
+
+      const text = await response.text();
+      const svgStart = text.indexOf('<svg');
+      if (svgStart < 0) {
+        return null;
+      }
+
+      const svg = this.sanitizeSVG(text.substring(svgStart));
+      await cache?.set(key, svg);
+      return svg;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[PlantUML] Failed to fetch SVG from the online server, using the image instead: ${errorMessage}`);
+      return null;
+    }
+  }
+
+  /**
+   * Remove active content from SVG received from a remote server.
+   *
+   * Strips `<script>` and `<foreignObject>` elements, `on*` event handler
+   * attributes and `javascript:` links, so the markup can be inlined safely.
+   *
+   * @param svg - SVG markup
+   * @returns SVG markup without scripts
+   */
+  private static sanitizeSVG(svg: string): string {
+    return svg
+      .replace(/<(script|foreignObject)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<\/?(script|foreignObject)\b[^>]*>/gi, '')
+      .replace(/<[^>]+>/g, (tag) =>
+        tag
+          .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+          .replace(/\s+(?:xlink:)?href\s*=\s*("\s*javascript:[^"]*"|'\s*javascript:[^']*'|javascript:[^\s>]+)/gi, '')
+      );
+  }
 
+  /**
+   * Render a single PlantUML diagram as an image served by the online server.
+   *
+   * @param block - Source of one diagram (shown by the copy button)
+   * @param resolvedBlock - Source to render, with includes inlined
+   * @returns HTML string with the PlantUML image in a diagram wrapper
+   */
+  private static renderOnlineBlock(block: string, resolvedBlock: string): string {
     try {
-      const lineCount = this.detectDiagramSize(block);
+      const lineCount = this.detectDiagramSize(resolvedBlock);
       console.log('[PlantUML] Diagram size:', lineCount, 'lines');
 
       // Encode PlantUML source for the URL
-      const encoded = this.encodePlantUML(block);
+      const encoded = this.encodePlantUML(resolvedBlock);
       const diagramUrl = `${this.PLANTUML_SERVER}~1${encoded}`;
 
       const diagramId = `plantuml-${this.diagramCounter++}`;
@@ -155,29 +283,12 @@ export class PlantUMLRenderer {
       // Note: No artificial URL length restriction. Let the PlantUML server decide.
       // If the server cannot handle the request, it will return an error image.
 
-      // Escape the original source code for copy button
-      const escapedContent = this.escapeHtml(content);
-      const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
-
-      // Copy button HTML
-      const copyButtonHtml = `
-    <button class="copy-code-button"
-            aria-label="Copy diagram source code"
-            title="Copy diagram source"
-            data-diagram-source="${escapedForAttribute}">
-      <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
-      </svg>
-      <span class="button-text">Copy</span>
-      <span class="button-feedback" role="status" aria-live="polite"></span>
-    </button>
-  `.trim();
-
       // Return image in a single diagram wrapper
       // The onerror handler displays the fallback message if the server returns an error image
-      return `<div class="diagram-wrapper">
-  ${copyButtonHtml}
-  <div class="diagram-clickable plantuml-container" data-diagram-id="${diagramId}" data-diagram-type="plantuml">
+      return this.wrapDiagram(
+        block,
+        diagramId,
+        `
     <img
       id="${diagramId}"
       src="${diagramUrl}"
@@ -203,21 +314,22 @@ export class PlantUMLRenderer {
           Configure local mode in settings: <code>Markdown Preview Enhanced → PlantUML Mode → local</code>
         </p>
       </div>
-    </div>
-  </div>
-</div>`;
+    </div>`
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown encoding error';
       console.error('[PlantUML] Rendering error:', error);
-      return this.renderError(errorMessage, content);
+      return this.renderError(errorMessage, block);
     }
   }
 
   /**
-   * Split PlantUML content into individual @startuml/@enduml blocks.
+   * Split PlantUML content into individual @start…/@end… blocks.
    *
-   * When a single code block contains multiple diagrams (multiple @startuml/@enduml pairs),
-   * this method extracts each diagram as a separate block.
+   * When a single code block contains multiple diagrams, this method extracts
+   * each diagram as a separate block. All diagram types are recognized
+   * (@startuml, @startmindmap, @startgantt, @startjson, @startyaml, @startwbs, ...);
+   * each block ends at the @end… tag of the same type.
    *
    * @param content - PlantUML source code (may contain multiple diagrams)
    * @returns Array of individual diagram blocks
@@ -225,19 +337,86 @@ export class PlantUMLRenderer {
   private static splitPlantUMLBlocks(content: string): string[] {
     const blocks: string[] = [];
 
-    // Pattern to match @startuml ... @enduml blocks
-    // Captures everything from @startuml (with optional name) to @enduml
-    const blockPattern = /@startuml[^\n]*\n([\s\S]*?)@enduml/gi;
+    // Pattern to match @start<type> ... @end<type> blocks
+    // Captures everything from @start<type> (with optional name) to the matching @end<type>
+    const blockPattern = /@start([a-z]+)\b[^\n]*\n[\s\S]*?@end\1\b/gi;
 
     let match;
     while ((match = blockPattern.exec(content)) !== null) {
-      // Include @startuml and @enduml in the captured block
+      // Include @start<type> and @end<type> in the captured block
       blocks.push(match[0]);
     }
 
     return blocks;
   }
 
+  /**
+   * Get the diagram sources to render for a code block.
+   *
+   * A code block with a single diagram (or without @start…/@end… tags) is
+   * rendered from its full content, so its copy button keeps the original source.
+   *
+   * @param content - PlantUML source code of the code block
+   * @returns One source per diagram
+   */
+  private static getDiagramSources(content: string): string[] {
+    const blocks = this.splitPlantUMLBlocks(content);
+    return blocks.length > 1 ? blocks : [content];
+  }
+
+  /**
+   * Combine the rendered diagrams of one code block.
+   *
+   * Several diagrams are grouped in one container so the code block stays a
+   * single top-level element in the preview.
+   *
+   * @param diagrams - Rendered diagram HTML, one entry per block
+   * @returns Combined HTML
+   */
+  private static groupDiagrams(diagrams: string[]): string {
+    if (diagrams.length === 1) {
+      return diagrams[0];
+    }
+    return `<div class="plantuml-diagram-group">
+${diagrams.join('\n')}
+</div>`;
+  }
+
+  /**
+   * Wrap diagram markup with the copy button and modal zoom container.
+   *
+   * @param source - Diagram source code (for the copy button)
+   * @param diagramId - Unique diagram ID
+   * @param innerHtml - Diagram markup (image or inline SVG)
+   * @returns HTML string with the wrapped diagram
+   */
+  private static wrapDiagram(source: string, diagramId: string, innerHtml: string): string {
+    // Escape the original source code for copy button
+    const escapedContent = this.escapeHtml(source);
+    const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
+
+    // Copy button HTML
+    const copyButtonHtml = `
+    <button class="copy-code-button"
+            aria-label="Copy diagram source code"
+            title="Copy diagram source"
+            data-diagram-source="${escapedForAttribute}">
+      <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
+      </svg>
+      <span class="button-text">Copy</span>
+      <span class="button-feedback" role="status" aria-live="polite"></span>
+    </button>
+  `.trim();
+
+    return `<div class="diagram-wrapper">
+  ${copyButtonHtml}
+  <div class="diagram-clickable plantuml-container" data-diagram-id="${diagramId}" data-diagram-type="plantuml">
+    ${innerHtml.trim()}
+  </div>
+</div>`;
+  }
+
   /**
    * Encode PlantUML source using PlantUML's encoding scheme.
    *
@@ -274,16 +453,24 @@ export class PlantUMLRenderer {
    * The server mode is automatically used when a PlantUMLServer instance is set
    * via setServerInstance(). This avoids the 5-8 second Java startup overhead.
    *
-   * When multiple @startuml/@enduml blocks exist in one code block, this method
-   * renders ONLY the first block to avoid duplication (matching Backlog behavior).
+   * When one code block contains several @start…/@end… blocks, the blocks are
+   * rendered concurrently and each becomes its own diagram.
    *
-   * @param content - PlantUML diagram source code (may contain multiple @startuml/@enduml blocks)
+   * Rendering is asynchronous so the extension host is never blocked while
+   * waiting for the server.
+   *
+   * @param content - PlantUML diagram source code (may contain multiple @start…/@end… blocks)
    * @param jarPath - Path to PlantUML JAR file
-   * @returns HTML string with PlantUML SVG in a single container
+   * @param resolvedBlocks - Diagram sources with includes inlined, parallel to the blocks of `content`
+   * @returns Promise resolving to HTML string with one SVG container per block
    */
-  public static renderLocal(content: string, jarPath: string): string {
+  public static async renderLocal(
+    content: string,
+    jarPath: string,
+    resolvedBlocks?: string[]
+  ): Promise<string> {
     // Validate prerequisites
-    const javaInstalled = JavaDetector.isJavaInstalledSync();
+    const javaInstalled = await JavaDetector.isJavaInstalled();
     const lineCount = this.detectDiagramSize(content);
 
     if (!javaInstalled) {
@@ -306,26 +493,29 @@ export class PlantUMLRenderer {
       ) + JavaDetector.getInstallationInstructions();
     }
 
-    // Check for multiple @startuml/@enduml blocks
-    const diagramBlocks = this.splitPlantUMLBlocks(content);
-    const hasMultipleBlocks = diagramBlocks.length > 1;
-
-    // Use only the first block if multiple blocks exist (matches Backlog behavior)
-    const plantUMLSource = hasMultipleBlocks ? diagramBlocks[0] : content.trim();
+    const diagrams = await Promise.all(
+      this.getDiagramSources(content).map((source, index) =>
+        this.renderLocalBlock(source, resolvedBlocks?.[index] ?? source, jarPath)
+      )
+    );
+    return this.groupDiagrams(diagrams);
+  }
 
-    // Render diagram using server mode (required) or legacy mode
-    let svgOutput: string;
+  /**
+   * Render a single PlantUML diagram to inline SVG with the local server.
+   *
+   * @param block - Source of one diagram (shown by the copy button)
+   * @param resolvedBlock - Source to render, with includes inlined
+   * @param jarPath - Path to PlantUML JAR file
+   * @returns Promise resolving to HTML string with the SVG in a diagram wrapper
+   */
+  private static async renderLocalBlock(
+    block: string,
+    resolvedBlock: string,
+    jarPath: string
+  ): Promise<string> {
     try {
-      if (this.serverInstance && this.serverInstance.isServerReady()) {
-        // Server mode: Use persistent PlantUML server (0.2-0.5s)
-        console.log('[PlantUML] Using server mode (fast rendering)');
-        svgOutput = this.serverInstance.renderSync(plantUMLSource);
-      } else {
-        // No server instance: This should not happen if local mode is properly configured
-        const errorMsg = 'PlantUML server not initialized. Server mode is required for local rendering.';
-        console.error('[PlantUML]', errorMsg);
-        throw new Error(errorMsg);
-      }
+      const svgOutput = await this.renderWithServer(resolvedBlock.trim(), jarPath);
 
       // Extract all SVG elements from output
       const svgs = this.extractSVGs(svgOutput);
@@ -333,38 +523,70 @@ export class PlantUMLRenderer {
       // Add responsive styles to each SVG
       const styledSvgs = svgs.map(svg => this.addResponsiveStyleToSVG(svg));
 
-      // Combine all SVGs
-      const combinedSvgs = styledSvgs.join('\n');
+      // Return SVG in a single diagram wrapper
       const diagramId = `plantuml-${this.diagramCounter++}`;
+      return this.wrapDiagram(block, diagramId, styledSvgs.join('\n'));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Local rendering failed';
+      return this.renderError(errorMessage, block);
+    }
+  }
 
-      // Escape the source code for safe storage in data attribute
-      const escapedContent = this.escapeHtml(content);
-      const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
+  /**
+   * Render PlantUML source to SVG with the persistent server, using the cache when available.
+   *
+   * @param source - PlantUML source of a single diagram
+   * @param jarPath - Path to PlantUML JAR file (part of the cache key)
+   * @returns Promise resolving to the server's SVG output
+   */
+  private static async renderWithServer(source: string, jarPath: string): Promise<string> {
+    const cache = this.cache;
+    const key = cache
+      ? DiagramCache.createKey({
+          renderer: 'plantuml-local',
+          version: await this.getJarVersion(jarPath),
+          theme: vscode.workspace.getConfiguration('markdownPreviewer').get('preview.theme', 'github-light'),
+          source,
+        })
+      : '';
 
-      // Copy button HTML
-      const copyButtonHtml = `
-    <button class="copy-code-button"
-            aria-label="Copy diagram source code"
-            title="Copy diagram source"
-            data-diagram-source="${escapedForAttribute}">
-      <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-        <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
-      </svg>
-      <span class="button-text">Copy</span>
-      <span class="button-feedback" role="status" aria-live="polite"></span>
-    </button>
-  `.trim();
+    const cached = cache ? await cache.get(key) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
 
-      // Return SVG in a single diagram wrapper
-      return `<div class="diagram-wrapper">
-  ${copyButtonHtml}
-  <div class="diagram-clickable plantuml-container" data-diagram-id="${diagramId}" data-diagram-type="plantuml">
-    ${combinedSvgs}
-  </div>
-</div>`;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Local rendering failed';
-      return this.renderError(errorMessage, content);
+    if (!this.serverInstance || !this.serverInstance.isServerReady()) {
+      // No server instance: This should not happen if local mode is properly configured
+      const errorMsg = 'PlantUML server not initialized. Server mode is required for local rendering.';
+      console.error('[PlantUML]', errorMsg);
+      throw new Error(errorMsg);
+    }
+
+    // Server mode: Use persistent PlantUML server (0.2-0.5s)
+    console.log('[PlantUML] Using server mode (fast rendering)');
+    const svg = await this.serverInstance.render(source);
+
+    if (cache) {
+      await cache.set(key, svg);
+    }
+    return svg;
+  }
+
+  /**
+   * Identify the PlantUML JAR version for cache keys.
+   *
+   * Uses the file size and modification time, so replacing the JAR in place
+   * invalidates diagrams rendered by the old version.
+   *
+   * @param jarPath - Path to PlantUML JAR file
+   * @returns Version string
+   */
+  private static async getJarVersion(jarPath: string): Promise<string> {
+    try {
+      const stats = await fs.promises.stat(jarPath);
+      return `${jarPath}@${stats.size}-${stats.mtimeMs}`;
+    } catch {
+      return jarPath;
     }
   }
 
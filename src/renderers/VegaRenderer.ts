@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiagramRenderContext } from './DiagramRenderer';
+
+/**
+ * Grammar of a chart specification.
+ */
+export type VegaMode = 'vega' | 'vega-lite';
+
+/**
+ * A chart to render to SVG, as sent to the webview for export.
+ */
+export interface VegaChartSpec {
+  mode: VegaMode;
+  /** JSON specification with local data files already inlined */
+  spec: string;
+}
+
+/**
+ * Result of rendering one chart to SVG in the webview.
+ *
+ * Exactly one of `svg` or `error` is set.
+ */
+export interface VegaSvgResult {
+  svg?: string;
+  error?: string;
+}
+
+/**
+ * Vega and Vega-Lite chart renderer.
+ *
+ * Charts are drawn in the webview by the bundled Vega and Vega-Lite builds
+ * (media/scripts/vega-init.js). The extension host validates the JSON spec and
+ * inlines data files referenced by `url`, since the webview can neither read
+ * local files relative to the document nor access the network. Error isolation
+ * ensures an invalid spec doesn't break the document.
+ */
+export class VegaRenderer {
+  // Format types inferred from the data file extension when the spec omits `format.type`
+  private static readonly FORMAT_TYPES: { [extension: string]: string } = {
+    '.json': 'json',
+    '.csv': 'csv',
+    '.tsv': 'tsv',
+    '.topojson': 'topojson',
+  };
+
+  private static chartCounter = 0;
+
+  /**
+   * Render a Vega or Vega-Lite fence.
+   *
+   * @param content - JSON specification
+   * @param mode - Grammar of the specification
+   * @param context - Base directory for data files and dependency collector
+   * @returns Promise resolving to HTML with the chart spec for the webview
+   */
+  public static async render(content: string, mode: VegaMode, context: DiagramRenderContext): Promise<string> {
+    if (!content || content.trim() === '') {
+      return this.renderError('Empty chart specification');
+    }
+
+    try {
+      const spec = this.parseSpec(content);
+      await this.inlineDataFiles(spec, context);
+      return this.wrapChart(content, mode, `vega-${this.chartCounter++}`, spec);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown rendering error';
+      return this.renderError(errorMessage, content);
+    }
+  }
+
+  /**
+   * Parse a JSON chart specification.
+   *
+   * @param content - JSON specification
+   * @returns Parsed specification object
+   * @throws Error if the content is not a JSON object
+   */
+  private static parseSpec(content: string): Record<string, unknown> {
+    let spec: unknown;
+    try {
+      spec = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!this.isObject(spec)) {
+      throw new Error('A chart specification must be a JSON object');
+    }
+    return spec;
+  }
+
+  /**
+   * Replace local data file references with their contents, anywhere in the spec.
+   *
+   * Covers top-level, layered and concatenated data (`data: {url}`), Vega data
+   * arrays (`data: [{url}]`) and lookup sources (`from: {data: {url}}`).
+   *
+   * @param node - Spec node to process in place
+   * @param context - Base directory and dependency collector
+   */
+  private static async inlineDataFiles(node: unknown, context: DiagramRenderContext): Promise<void> {
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        await this.inlineDataFiles(item, context);
+      }
+      return;
+    }
+    if (!this.isObject(node)) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      // Inline data can be large and never contains file references
+      if (key === 'values') {
+        continue;
+      }
+      if (key === 'data') {
+        for (const data of Array.isArray(value) ? value : [value]) {
+          if (this.isObject(data) && typeof data.url === 'string') {
+            await this.inlineDataFile(data, data.url, context);
+          }
+        }
+      }
+      await this.inlineDataFiles(value, context);
+    }
+  }
+
+  /**
+   * Replace one data file reference with the file's contents.
+   *
+   * URLs with a scheme (https:, data:) are left to Vega.
+   *
+   * @param data - Data definition to update in place
+   * @param url - Referenced file, relative to the Markdown document
+   * @param context - Base directory and dependency collector
+   * @throws Error if the file cannot be resolved or read
+   */
+  private static async inlineDataFile(
+    data: Record<string, unknown>,
+    url: string,
+    context: DiagramRenderContext
+  ): Promise<void> {
+    if (/^[a-z][a-z0-9+.-]+:/i.test(url)) {
+      return;
+    }
+    if (!path.isAbsolute(url) && !context.baseDir) {
+      throw new Error(`Cannot resolve chart data without a saved document: ${url}`);
+    }
+
+    const filePath = path.resolve(context.baseDir ?? '', url);
+    // Watch the file even if it is missing, so the chart appears once it is created
+    context.dependencies.add(filePath);
+
+    let values: string;
+    try {
+      values = await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+      throw new Error(`Cannot read chart data file: ${url}`);
+    }
+
+    // Inline string values are parsed according to format.type (JSON by default)
+    const format = this.isObject(data.format) ? data.format : {};
+    const type = format.type ?? this.FORMAT_TYPES[path.extname(filePath).toLowerCase()];
+
+    delete data.url;
+    data.values = values;
+    if (type) {
+      data.format = { ...format, type };
+    }
+  }
+
+  /**
+   * Wrap a chart spec with the copy button, export buttons and zoom container.
+   *
+   * @param content - Original fence content (copied by the copy button)
+   * @param mode - Grammar of the specification
+   * @param chartId - Unique chart identifier
+   * @param spec - Specification with data files inlined
+   * @returns HTML string for the webview to render
+   */
+  private static wrapChart(content: string, mode: VegaMode, chartId: string, spec: Record<string, unknown>): string {
+    const escapedContent = this.escapeHtml(content);
+
+    // Escape for data attribute (double quotes need extra escaping)
+    const escapedForAttribute = escapedContent.replace(/"/g, '&quot;');
+
+    // "<" is escaped so the spec cannot close the script element
+    const specJson = JSON.stringify(spec).replace(/</g, '\\u003c');
+
+    // Copy button HTML (same structure as code blocks)
+    const copyButtonHtml = `
+    <button class="copy-code-button"
+            aria-label="Copy chart specification"
+            title="Copy chart specification"
+            data-diagram-source="${escapedForAttribute}">
+      <svg class="copy-icon" width="16" height="16" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <path d="M5.75 4.75H10.25V1.75H5.75V4.75ZM4.5 1.75C4.5 1.05964 5.05964 0.5 5.75 0.5H10.25C10.9404 0.5 11.5 1.05964 11.5 1.75V4.75H13.25C13.9404 4.75 14.5 5.30964 14.5 6V13.25C14.5 13.9404 13.9404 14.5 13.25 14.5H2.75C2.05964 14.5 1.5 13.9404 1.5 13.25V6C1.5 5.30964 2.05964 4.75 2.75 4.75H4.5V1.75ZM2.75 6V13.25H13.25V6H2.75Z" fill="currentColor"/>
+      </svg>
+      <span class="button-text">Copy</span>
+      <span class="button-feedback" role="status" aria-live="polite"></span>
+    </button>
+  `.trim();
+
+    // The diagram-clickable class enables modal zoom on click
+    return `<div class="diagram-wrapper">
+  ${copyButtonHtml}
+  <div class="chart-export-buttons">
+    <button class="chart-export-button" data-format="svg" title="Export chart as SVG">SVG</button>
+    <button class="chart-export-button" data-format="png" title="Export chart as PNG">PNG</button>
+  </div>
+  <div class="diagram-clickable vega-container" data-diagram-id="${chartId}" data-diagram-type="${mode}">
+    <script type="application/json" class="vega-spec">${specJson}</script>
+  </div>
+</div>`;
+  }
+
+  /**
+   * Render an error message for a failed chart.
+   *
+   * @param errorMessage - Error description
+   * @param content - Optional chart specification to display
+   * @returns HTML string with error message
+   */
+  public static renderError(errorMessage: string, content?: string): string {
+    const escapedMessage = this.escapeHtml(errorMessage);
+    const contentSection = content
+      ? `<details>
+      <summary>View chart specification</summary>
+      <pre><code>${this.escapeHtml(content)}</code></pre>
+    </details>`
+      : '';
+
+    return `<div class="diagram-error vega-error" style="border: 2px solid #f85149; border-radius: 6px; padding: 16px; margin: 16px 0; background-color: #fff8f6;">
+  <div style="display: flex; align-items: center; margin-bottom: 8px;">
+    <svg style="width: 20px; height: 20px; margin-right: 8px; fill: #f85149;" viewBox="0 0 16 16">
+      <path d="M8 0a8 8 0 1 1 0 16A8 8 0 0 1 8 0zM1.5 8a6.5 6.5 0 1 0 13 0 6.5 6.5 0 0 0-13 0zm7-3.25a.75.75 0 0 0-1.5 0v3.5a.75.75 0 0 0 1.5 0v-3.5zm0 6a1 1 0 1 0-2 0 1 1 0 0 0 2 0z"/>
+    </svg>
+    <strong style="color: #f85149;">Vega Chart Error</strong>
+  </div>
+  <p style="margin: 8px 0; color: #57606a;">${escapedMessage}</p>
+  ${contentSection}
+</div>`;
+  }
+
+  /**
+   * Check whether a value is a plain JSON object.
+   *
+   * @param value - Value to check
+   * @returns True for non-null, non-array objects
+   */
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Escape HTML special characters to prevent XSS.
+   *
+   * @param text - Text to escape
+   * @returns Escaped text
+   */
+  private static escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+    return text.replace(/[&<>"']/g, (char) => map[char]);
+  }
+}
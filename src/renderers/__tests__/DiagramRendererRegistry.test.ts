@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { DiagramRendererRegistry } from '../DiagramRendererRegistry';
+import { DiagramRenderer } from '../DiagramRenderer';
+import { DiagramCache } from '../../services/DiagramCache';
+
+/**
+ * Test suite for DiagramRendererRegistry.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Built-in renderers are found by fence language and file extension
+ * - Renderers registered by other extensions take precedence and can be removed
+ * - The `content` cache policy and error isolation are applied when rendering
+ * - Webview assets are collected only from webview renderers
+ */
+describe('DiagramRendererRegistry', () => {
+  const disposables: vscode.Disposable[] = [];
+
+  const createRenderer = (overrides: Partial<DiagramRenderer> = {}): DiagramRenderer => ({
+    id: 'test',
+    languages: ['test'],
+    runtime: 'extension',
+    cachePolicy: 'none',
+    render: jest.fn(async (source: string) => `<div class="test-diagram">${source}</div>`),
+    ...overrides,
+  });
+
+  afterEach(() => {
+    disposables.splice(0).forEach((disposable) => disposable.dispose());
+    DiagramRendererRegistry.setCache(null);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Mermaid, PlantUML and Graphviz are registered without activation
+   * - Language and file extension lookups are case-insensitive
+   */
+  test('should provide the built-in renderers', () => {
+    expect(DiagramRendererRegistry.getForLanguage('Mermaid')?.id).toBe('mermaid');
+    expect(DiagramRendererRegistry.getForLanguage('plantuml')?.id).toBe('plantuml');
+    expect(DiagramRendererRegistry.getForLanguage('dot')?.id).toBe('graphviz');
+    expect(DiagramRendererRegistry.getForFile('docs/arch.PUML')?.id).toBe('plantuml');
+    expect(DiagramRendererRegistry.getForLanguage('javascript')).toBeUndefined();
+    expect(DiagramRendererRegistry.getForFile('image.png')).toBeUndefined();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A later registration overrides a built-in for a shared language
+   * - Disposing the registration restores the previous renderer
+   * - Change listeners are notified and duplicate ids are rejected
+   */
+  test('should register, override and unregister renderers', () => {
+    const listener = jest.fn();
+    disposables.push(DiagramRendererRegistry.onDidChange(listener));
+
+    const registration = DiagramRendererRegistry.register(
+      createRenderer({ id: 'custom-dot', languages: ['dot', 'd2'] })
+    );
+
+    expect(DiagramRendererRegistry.getForLanguage('dot')?.id).toBe('custom-dot');
+    expect(DiagramRendererRegistry.getForLanguage('d2')?.id).toBe('custom-dot');
+    expect(() => DiagramRendererRegistry.register(createRenderer({ id: 'custom-dot' }))).toThrow(
+      'already registered'
+    );
+
+    registration.dispose();
+
+    expect(DiagramRendererRegistry.getForLanguage('dot')?.id).toBe('graphviz');
+    expect(DiagramRendererRegistry.getForLanguage('d2')).toBeUndefined();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Renderers with the `content` cache policy are not called again for unchanged sources
+   * - A renderer that throws produces the generic error box instead of rejecting
+   */
+  test('should apply the content cache policy and isolate errors', async () => {
+    DiagramRendererRegistry.setCache(new DiagramCache());
+    const cached = createRenderer({ id: 'cached', cachePolicy: 'content', version: '1.0.0' });
+    const context = { dependencies: new Set<string>() };
+
+    expect(await DiagramRendererRegistry.render(cached, 'a', context)).toBe('<div class="test-diagram">a</div>');
+    expect(await DiagramRendererRegistry.render(cached, 'a', context)).toBe('<div class="test-diagram">a</div>');
+    expect(cached.render).toHaveBeenCalledTimes(1);
+
+    const failing = createRenderer({
+      id: 'failing<x>',
+      render: () => {
+        throw new Error('Renderer crashed');
+      },
+    });
+    const html = await DiagramRendererRegistry.render(failing, 'b', context);
+
+    expect(html).toContain('Diagram Rendering Error (failing&lt;x&gt;)');
+    expect(html).toContain('Renderer crashed');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Only webview renderers contribute scripts and stylesheets
+   * - Assets shared by several renderers are loaded once
+   */
+  test('should collect webview assets without duplicates', () => {
+    const script = vscode.Uri.parse('file:///ext/media/wavedrom.js');
+    const style = vscode.Uri.parse('file:///ext/media/wavedrom.css');
+    disposables.push(
+      DiagramRendererRegistry.register(
+        createRenderer({ id: 'wavedrom', runtime: 'webview', assets: { scripts: [script], styles: [style] } })
+      ),
+      DiagramRendererRegistry.register(
+        createRenderer({ id: 'bytefield', runtime: 'webview', assets: { scripts: [script] } })
+      ),
+      DiagramRendererRegistry.register(
+        createRenderer({ id: 'host', assets: { scripts: [vscode.Uri.parse('file:///ext/host.js')] } })
+      )
+    );
+
+    const assets = DiagramRendererRegistry.getWebviewAssets();
+
+    expect(assets.scripts.map(String)).toEqual(['file:///ext/media/wavedrom.js']);
+    expect(assets.styles.map(String)).toEqual(['file:///ext/media/wavedrom.css']);
+  });
+});
@@ -0,0 +1,90 @@
+import { GraphvizRenderer } from '../GraphvizRenderer';
+import { DiagramCache } from '../../services/DiagramCache';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Test suite for GraphvizRenderer.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - DOT sources are rendered to inline SVG with the bundled WebAssembly build
+ * - Rendered diagrams use the shared wrapper markup for modal zoom and copy
+ * - Syntax errors are isolated in an error box
+ * - The local dot executable is used when WebAssembly cannot be loaded
+ */
+describe('GraphvizRenderer', () => {
+  afterEach(() => {
+    GraphvizRenderer.setCache(null);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The SVG is inlined without the XML prolog
+   * - The diagram-wrapper/diagram-clickable markup and copy source are present
+   * - Unchanged diagrams are served from the cache
+   */
+  test('should render DOT to inline SVG inside the diagram wrapper', async () => {
+    const cache = new DiagramCache();
+    GraphvizRenderer.setCache(cache);
+    const content = 'digraph { "a" -> b }';
+
+    const html = await GraphvizRenderer.render(content);
+
+    expect(html).toContain('<div class="diagram-wrapper">');
+    expect(html).toContain('class="diagram-clickable graphviz-container"');
+    expect(html).toContain('data-diagram-type="graphviz"');
+    expect(html).toContain('data-diagram-source="digraph { &quot;a&quot; -&gt; b }"');
+    expect(html).toMatch(/<svg[\s\S]*<title>a&#45;&gt;b<\/title>[\s\S]*<\/svg>/);
+    expect(html).not.toContain('<?xml');
+    expect(cache.size()).toBe(1);
+
+    await GraphvizRenderer.render(content);
+    expect(cache.size()).toBe(1);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Invalid DOT and empty fences produce visible errors instead of throwing
+   */
+  test('should show an error for invalid DOT', async () => {
+    const html = await GraphvizRenderer.render('digraph { a -> ');
+
+    expect(html).toContain('Graphviz Diagram Error');
+    expect(html).toContain('syntax error');
+    expect(html).toContain('View diagram source');
+    expect(await GraphvizRenderer.render('  ')).toContain('Empty diagram content');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The dot executable renders the diagram when WebAssembly fails to load
+   * - The source is passed to dot on stdin
+   */
+  test('should fall back to the dot executable when WebAssembly is unavailable', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'md-graphviz-'));
+    const dotPath = path.join(tempDir, 'dot');
+    fs.writeFileSync(dotPath, '#!/bin/sh\necho \'<?xml version="1.0"?>\'\necho "<svg><text>$(cat)</text></svg>"\n');
+    fs.chmodSync(dotPath, 0o755);
+
+    jest.doMock('@viz-js/viz', () => ({
+      instance: (): Promise<never> => Promise.reject(new Error('WebAssembly unavailable')),
+    }));
+
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const { GraphvizRenderer: IsolatedRenderer } = await import('../GraphvizRenderer');
+
+        const html = await IsolatedRenderer.render('digraph { a }', dotPath);
+        expect(html).toContain('<svg><text>digraph { a }</text></svg>');
+        expect(html).not.toContain('<?xml');
+
+        const missing = await IsolatedRenderer.render('digraph { a }', path.join(tempDir, 'missing'));
+        expect(missing).toContain('Graphviz is unavailable');
+      });
+    } finally {
+      jest.dontMock('@viz-js/viz');
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { MathRenderer } from '../MathRenderer';
+
+/**
+ * Test suite for MathRenderer.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Formulas are rendered to KaTeX HTML in the extension host
+ * - Display formulas are wrapped in a block container
+ * - Invalid formulas produce visible errors instead of throwing
+ * - Formula sources in errors are escaped to prevent XSS
+ */
+describe('MathRenderer', () => {
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Inline formulas produce KaTeX markup without a display wrapper
+   * - Display formulas use KaTeX display mode inside a math-block div
+   */
+  test('should render inline and display formulas with KaTeX', () => {
+    const inline = MathRenderer.renderInline('x^2');
+    expect(inline).toMatch(/^<span class="katex">/);
+    expect(inline).not.toContain('katex-display');
+
+    const block = MathRenderer.renderBlock('\\sum_{i=1}^{n} i');
+    expect(block).toMatch(/^<div class="math-block"><span class="katex-display">/);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A display formula error uses the shared diagram error box with the source
+   * - An inline formula error stays inline and keeps the message in its tooltip
+   * - Error content is HTML-escaped
+   */
+  test('should show errors for invalid formulas', () => {
+    const block = MathRenderer.renderBlock('\\frac{<b>}');
+    expect(block).toContain('class="diagram-error math-error"');
+    expect(block).toContain('Math Rendering Error');
+    expect(block).toContain('\\frac{&lt;b&gt;}');
+    expect(block).not.toContain('<b>');
+
+    const inline = MathRenderer.renderInline('\\undefinedmacro');
+    expect(inline).toMatch(/^<span class="math-error math-error-inline" title="[^"]*Undefined control sequence/);
+    expect(inline).toContain('<code>\\undefinedmacro</code>');
+
+    expect(MathRenderer.renderBlock('  ')).toContain('Empty formula');
+  });
+});
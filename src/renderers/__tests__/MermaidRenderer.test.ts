@@ -1,4 +1,5 @@
 import { MermaidRenderer } from '../MermaidRenderer';
+import { DiagramCache } from '../../services/DiagramCache';
 
 /**
  * Test suite for MermaidRenderer.
@@ -239,4 +240,44 @@ describe('MermaidRenderer', () => {
     expect(html).toContain('🎉');
     expect(html).toContain('😀');
   });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - SVG rendered by the webview is reused for an unchanged diagram
+   * - Reused SVG gets a stable id instead of the id of the original render
+   * - Uncached diagrams still fall back to client-side rendering
+   */
+  test('should reuse cached SVG for unchanged diagrams', async () => {
+    const content = 'graph TD\n  A --> B';
+    MermaidRenderer.setCache(new DiagramCache());
+
+    expect(await MermaidRenderer.renderCached(content)).toContain('class="mermaid"');
+
+    await MermaidRenderer.storeRenderedSvg(content, '<svg id="mermaid-7-svg"><style>#mermaid-7-svg{}</style></svg>', 'mermaid-7-svg');
+    const first = await MermaidRenderer.renderCached(content);
+    const second = await MermaidRenderer.renderCached(content);
+
+    expect(first).not.toContain('class="mermaid"');
+    expect(first).not.toContain('mermaid-7-svg');
+    expect(first).toMatch(/<svg id="(mermaid-svg-[0-9a-f]+)"><style>#\1\{\}<\/style><\/svg>/);
+    expect(second.match(/mermaid-svg-[0-9a-f]+/)?.[0]).toBe(first.match(/mermaid-svg-[0-9a-f]+/)?.[0]);
+    expect(first).toContain('data-diagram-source="graph TD');
+
+    MermaidRenderer.setCache(null);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Front matter Mermaid configuration is applied as an init directive
+   * - The directive is placed after a diagram's own front matter block
+   */
+  test('should apply a Mermaid configuration to the diagram source', () => {
+    const config = { theme: 'forest' };
+
+    expect(MermaidRenderer.applyConfig('graph TD', undefined)).toBe('graph TD');
+    expect(MermaidRenderer.applyConfig('graph TD', config)).toBe('%%{init: {"theme":"forest"}}%%\ngraph TD');
+    expect(MermaidRenderer.applyConfig('---\ntitle: Flow\n---\ngraph TD', config)).toBe(
+      '---\ntitle: Flow\n---\n%%{init: {"theme":"forest"}}%%\ngraph TD'
+    );
+  });
 });
@@ -1,4 +1,9 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { PlantUMLRenderer } from '../PlantUMLRenderer';
+import { PlantUMLServer } from '../../services/PlantUMLServer';
+import { DiagramCache } from '../../services/DiagramCache';
 
 /**
  * Test suite for PlantUMLRenderer.
@@ -416,6 +421,224 @@ describe('PlantUMLRenderer', () => {
     JavaDetector.isJavaInstalled = originalIsJavaInstalled;
   });
 
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Local mode renders through the asynchronous PlantUML server request
+   * - The server SVG is inlined in the diagram wrapper
+   */
+  test('should render local diagrams through the async server API', async () => {
+    const { JavaDetector } = await import('../../utils/JavaDetector');
+    const javaSpy = jest.spyOn(JavaDetector, 'isJavaInstalled').mockResolvedValue(true);
+    const jarSpy = jest.spyOn(JavaDetector, 'validatePlantUMLJar').mockReturnValue(true);
+    const server = {
+      isServerReady: (): boolean => true,
+      render: jest.fn().mockResolvedValue('<svg width="10"><text>A</text></svg>'),
+    };
+    PlantUMLRenderer.setServerInstance(server as unknown as PlantUMLServer);
+
+    const html = await PlantUMLRenderer.renderLocal('@startuml\nA -> B\n@enduml', '/path/to/plantuml.jar');
+
+    expect(server.render).toHaveBeenCalledWith('@startuml\nA -> B\n@enduml');
+    expect(html).toContain('plantuml-container');
+    expect(html).toContain('<text>A</text>');
+
+    PlantUMLRenderer.setServerInstance(null);
+    javaSpy.mockRestore();
+    jarSpy.mockRestore();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Every @startuml block of a multi-diagram fence is rendered, not just the first
+   * - Each diagram has its own zoom target and copies only its own source
+   */
+  test('should render every block of a multi-diagram fence online', () => {
+    const content = '@startuml\nAlice -> Bob\n@enduml\n\n@startuml\nCarol -> Dave\n@enduml\n';
+    const html = PlantUMLRenderer.renderOnline(content);
+
+    expect(html).toContain('class="plantuml-diagram-group"');
+    expect(html.match(/class="diagram-wrapper"/g)).toHaveLength(2);
+    expect(html.match(/class="diagram-clickable plantuml-container"/g)).toHaveLength(2);
+    expect(html).toContain('data-diagram-source="@startuml\nAlice -&gt; Bob\n@enduml"');
+    expect(html).toContain('data-diagram-source="@startuml\nCarol -&gt; Dave\n@enduml"');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Non-UML diagram types (@startmindmap, @startjson, ...) are split like @startuml
+   * - A block only ends at the @end tag of its own type
+   */
+  test('should split all @start diagram types', () => {
+    const splitter = (
+      PlantUMLRenderer as unknown as { splitPlantUMLBlocks: (content: string) => string[] }
+    ).splitPlantUMLBlocks.bind(PlantUMLRenderer);
+    const content = [
+      '@startmindmap',
+      '* root',
+      '@endmindmap',
+      '@startjson',
+      '{ "note": "@enduml is just text here" }',
+      '@endjson',
+      '@startgantt',
+      '[Task] lasts 2 days',
+      '@endgantt',
+    ].join('\n');
+
+    const blocks = splitter(content);
+
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0]).toBe('@startmindmap\n* root\n@endmindmap');
+    expect(blocks[1]).toContain('@enduml is just text here');
+    expect(blocks[1].endsWith('@endjson')).toBe(true);
+    expect(blocks[2].startsWith('@startgantt')).toBe(true);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Local mode sends each block of a multi-diagram fence to the server separately
+   * - A failing block does not hide the other diagrams
+   */
+  test('should render every block of a multi-diagram fence locally', async () => {
+    const { JavaDetector } = await import('../../utils/JavaDetector');
+    const javaSpy = jest.spyOn(JavaDetector, 'isJavaInstalled').mockResolvedValue(true);
+    const jarSpy = jest.spyOn(JavaDetector, 'validatePlantUMLJar').mockReturnValue(true);
+    const server = {
+      isServerReady: (): boolean => true,
+      render: jest.fn((source: string) =>
+        source.includes('broken')
+          ? Promise.reject(new Error('Syntax error'))
+          : Promise.resolve(`<svg><text>${source.split('\n')[1]}</text></svg>`)
+      ),
+    };
+    PlantUMLRenderer.setServerInstance(server as unknown as PlantUMLServer);
+
+    const html = await PlantUMLRenderer.renderLocal(
+      '@startuml\nA -> B\n@enduml\n@startwbs\n* broken\n@endwbs\n@startyaml\nkey: value\n@endyaml',
+      '/path/to/plantuml.jar'
+    );
+
+    expect(server.render).toHaveBeenCalledTimes(3);
+    expect(html).toContain('<text>A -> B</text>');
+    expect(html).toContain('<text>key: value</text>');
+    expect(html).toContain('Syntax error');
+
+    PlantUMLRenderer.setServerInstance(null);
+    javaSpy.mockRestore();
+    jarSpy.mockRestore();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Local !include files are inlined before the source is encoded
+   * - The copy button keeps the fence source as written
+   * - Included files are reported so the preview can watch them
+   */
+  test('should render included files while copying the original source', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantuml-render-'));
+    const includedFile = path.join(dir, 'style.puml');
+    fs.writeFileSync(includedFile, 'skinparam monochrome true\n');
+    const content = '@startuml\n!include style.puml\nA -> B\n@enduml';
+    const dependencies = new Set<string>();
+
+    const html = await PlantUMLRenderer.render(content, 'online', undefined, { baseDir: dir, dependencies });
+    const expected = PlantUMLRenderer.renderOnline('@startuml\nskinparam monochrome true\nA -> B\n@enduml');
+
+    expect(html.match(/src="([^"]+)"/)?.[1]).toBe(expected.match(/src="([^"]+)"/)?.[1]);
+    expect(html).toContain('data-diagram-source="@startuml\n!include style.puml');
+    expect(Array.from(dependencies)).toEqual([includedFile]);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - A missing include renders an error box instead of failing the document
+   * - The missing file's location is still reported, so creating it refreshes the preview
+   */
+  test('should watch a missing include after rendering its error', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantuml-render-'));
+    const dependencies = new Set<string>();
+
+    const html = await PlantUMLRenderer.render(
+      '@startuml\n!include missing.puml\n@enduml',
+      'online',
+      undefined,
+      { baseDir: dir, dependencies }
+    );
+
+    expect(html).toContain('Cannot find included file: missing.puml');
+    expect(Array.from(dependencies)).toEqual([path.join(dir, 'missing.puml')]);
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Unchanged local diagrams are served from the cache instead of the server
+   */
+  test('should not request unchanged local diagrams from the server again', async () => {
+    const { JavaDetector } = await import('../../utils/JavaDetector');
+    const javaSpy = jest.spyOn(JavaDetector, 'isJavaInstalled').mockResolvedValue(true);
+    const jarSpy = jest.spyOn(JavaDetector, 'validatePlantUMLJar').mockReturnValue(true);
+    const server = {
+      isServerReady: (): boolean => true,
+      render: jest.fn().mockResolvedValue('<svg><text>cached</text></svg>'),
+    };
+    PlantUMLRenderer.setServerInstance(server as unknown as PlantUMLServer);
+    PlantUMLRenderer.setCache(new DiagramCache());
+
+    const first = await PlantUMLRenderer.renderLocal('@startuml\nA -> B\n@enduml', '/path/to/plantuml.jar');
+    const second = await PlantUMLRenderer.renderLocal('@startuml\nA -> B\n@enduml', '/path/to/plantuml.jar');
+    await PlantUMLRenderer.renderLocal('@startuml\nA -> C\n@enduml', '/path/to/plantuml.jar');
+
+    expect(server.render).toHaveBeenCalledTimes(2);
+    expect(first).toContain('<text>cached</text>');
+    expect(second).toContain('<text>cached</text>');
+
+    PlantUMLRenderer.setCache(null);
+    PlantUMLRenderer.setServerInstance(null);
+    javaSpy.mockRestore();
+    jarSpy.mockRestore();
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The preview shows online diagrams as server images without waiting for the server
+   * - Exports fetch online SVG through the cache, so unchanged diagrams are requested once
+   * - Scripts, event handlers and foreignObject content of the remote SVG are removed
+   * - A diagram that cannot be fetched is reported as missing instead of failing
+   */
+  test('should fetch online SVG through the cache only when asked', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(
+        '<?xml version="1.0"?><svg onload="alert(1)"><script>alert(2)</script>' +
+          '<foreignObject><div>html</div></foreignObject><a href="javascript:alert(3)"><text>online</text></a></svg>'
+      )
+    );
+    PlantUMLRenderer.setCache(new DiagramCache());
+
+    try {
+      const html = await PlantUMLRenderer.render('@startuml\nA -> B\n@enduml', 'online');
+      expect(html).toContain('<img');
+      expect(fetchSpy).not.toHaveBeenCalled();
+
+      const url = html.match(/src="([^"]+)"/)?.[1] ?? '';
+      const first = await PlantUMLRenderer.fetchOnlineSvg(url);
+      const second = await PlantUMLRenderer.fetchOnlineSvg(url);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(fetchSpy).toHaveBeenCalledWith(url, expect.anything());
+      expect(first).toBe('<svg><a><text>online</text></a></svg>');
+      expect(second).toBe(first);
+
+      fetchSpy.mockRejectedValueOnce(new Error('offline'));
+      expect(await PlantUMLRenderer.fetchOnlineSvg(`${url}0`)).toBeNull();
+    } finally {
+      PlantUMLRenderer.setCache(null);
+      fetchSpy.mockRestore();
+    }
+  });
+
   /**
    * Without this test, we would not be guaranteed that:
    * - renderJavaRequiredError() shows line count in error message
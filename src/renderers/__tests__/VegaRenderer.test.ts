@@ -0,0 +1,109 @@
+import { VegaRenderer } from '../VegaRenderer';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Test suite for VegaRenderer.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Chart specs are handed to the webview inside the shared diagram wrapper
+ * - Data files are inlined relative to the Markdown file and watched for changes
+ * - Invalid specs and unreadable data files are isolated in an error box
+ */
+describe('VegaRenderer', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'md-vega-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const parseSpec = (html: string): Record<string, unknown> => {
+    const match = html.match(/<script type="application\/json" class="vega-spec">([\s\S]*?)<\/script>/);
+    return JSON.parse(match ? match[1] : 'null');
+  };
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - The diagram-wrapper/diagram-clickable markup, copy source and export buttons are present
+   * - The grammar is passed to the webview in data-diagram-type
+   * - Spec strings cannot close the script element
+   */
+  test('should wrap the chart spec for the webview', async () => {
+    const content = '{"mark": "text", "encoding": {"text": {"value": "</script><b>"}}}';
+
+    const html = await VegaRenderer.render(content, 'vega-lite', { dependencies: new Set() });
+
+    expect(html).toContain('<div class="diagram-wrapper">');
+    expect(html).toMatch(/class="diagram-clickable vega-container" data-diagram-id="vega-\d+" data-diagram-type="vega-lite"/);
+    expect(html).toContain('data-diagram-source="{&quot;mark&quot;: &quot;text&quot;');
+    expect(html).toContain('data-format="svg"');
+    expect(html).toContain('data-format="png"');
+    expect(html).not.toContain('</script><b>');
+    expect(parseSpec(html)).toEqual(JSON.parse(content));
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Top-level and nested data URLs are resolved against the base directory
+   * - The format type is inferred from the extension unless the spec sets it
+   * - Remote URLs are left untouched and local files are reported as dependencies
+   */
+  test('should inline data files referenced by url', async () => {
+    fs.mkdirSync(path.join(tempDir, 'data'));
+    fs.writeFileSync(path.join(tempDir, 'data', 'bench.csv'), 'name,ms\nparse,12\n');
+    fs.writeFileSync(path.join(tempDir, 'data', 'extra.txt'), 'name|ms\nrender,30\n');
+    const dependencies = new Set<string>();
+    const content = JSON.stringify({
+      data: { url: 'data/bench.csv' },
+      layer: [
+        { data: { url: 'data/extra.txt', format: { type: 'dsv', delimiter: '|' } }, mark: 'bar' },
+        { data: { url: 'https://example.com/remote.json' }, mark: 'rule' },
+      ],
+    });
+
+    const html = await VegaRenderer.render(content, 'vega-lite', { baseDir: tempDir, dependencies });
+
+    expect(parseSpec(html)).toEqual({
+      data: { values: 'name,ms\nparse,12\n', format: { type: 'csv' } },
+      layer: [
+        { data: { values: 'name|ms\nrender,30\n', format: { type: 'dsv', delimiter: '|' } }, mark: 'bar' },
+        { data: { url: 'https://example.com/remote.json' }, mark: 'rule' },
+      ],
+    });
+    expect(Array.from(dependencies)).toEqual([
+      path.join(tempDir, 'data', 'bench.csv'),
+      path.join(tempDir, 'data', 'extra.txt'),
+    ]);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Invalid JSON, empty fences and missing data files produce visible errors
+   * - Missing data files are still watched so the chart appears once they exist
+   * - Relative data files in unsaved documents are reported instead of guessed
+   */
+  test('should show an error for invalid specs and missing data', async () => {
+    const dependencies = new Set<string>();
+
+    expect(await VegaRenderer.render('{"mark": ', 'vega', { dependencies })).toContain('Invalid JSON');
+    expect(await VegaRenderer.render('[]', 'vega', { dependencies })).toContain('must be a JSON object');
+    expect(await VegaRenderer.render('  ', 'vega', { dependencies })).toContain('Empty chart specification');
+
+    const missing = await VegaRenderer.render('{"data": [{"name": "t", "url": "missing.json"}]}', 'vega', {
+      baseDir: tempDir,
+      dependencies,
+    });
+    expect(missing).toContain('Vega Chart Error');
+    expect(missing).toContain('Cannot read chart data file: missing.json');
+    expect(missing).toContain('View chart specification');
+    expect(Array.from(dependencies)).toEqual([path.join(tempDir, 'missing.json')]);
+
+    const unsaved = await VegaRenderer.render('{"data": {"url": "bench.csv"}}', 'vega-lite', { dependencies });
+    expect(unsaved).toContain('Cannot resolve chart data without a saved document: bench.csv');
+  });
+});
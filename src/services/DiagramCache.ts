@@ -0,0 +1,167 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Inputs that identify one rendered diagram.
+ */
+export interface DiagramCacheKeyParts {
+  /** Renderer name, e.g. 'plantuml-local' or 'mermaid' */
+  renderer: string;
+  /** Renderer version; changing it invalidates earlier entries */
+  version: string;
+  /** Preview theme the diagram was rendered for */
+  theme: string;
+  /** Diagram source code */
+  source: string;
+  /** Serialized front matter of the document, for renderers that read it */
+  frontMatter?: string;
+}
+
+/**
+ * Options for creating a diagram cache.
+ */
+export interface DiagramCacheOptions {
+  /** Directory for the on-disk tier; omit to keep the cache in memory only */
+  storageDir?: string;
+  /** Maximum number of entries held in memory */
+  maxEntries?: number;
+}
+
+/**
+ * Content-addressed cache for rendered diagrams.
+ *
+ * Entries are keyed by a hash of the diagram source, theme and renderer version,
+ * so unchanged diagrams are never sent to a renderer twice. Entries are held in
+ * an in-memory LRU map and, when a storage directory is configured, also written
+ * to disk so they survive window reloads.
+ */
+export class DiagramCache {
+  private static readonly DEFAULT_MAX_ENTRIES = 500;
+
+  private readonly memory = new Map<string, string>();
+  private readonly maxEntries: number;
+  private readonly storageDir: string | undefined;
+
+  constructor(options: DiagramCacheOptions = {}) {
+    this.storageDir = options.storageDir;
+    this.maxEntries = options.maxEntries ?? DiagramCache.DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Create the cache key for a diagram.
+   *
+   * @param parts - Renderer, version, theme and source of the diagram
+   * @returns Hex-encoded SHA-256 key
+   */
+  public static createKey(parts: DiagramCacheKeyParts): string {
+    const keyParts = [parts.renderer, parts.version, parts.theme, parts.source];
+    // Only part of the key when present, so existing entries stay valid
+    if (parts.frontMatter !== undefined) {
+      keyParts.push(parts.frontMatter);
+    }
+    return createHash('sha256').update(JSON.stringify(keyParts)).digest('hex');
+  }
+
+  /**
+   * Look up a rendered diagram.
+   *
+   * Memory is checked first; disk hits are promoted into memory.
+   *
+   * @param key - Key from createKey()
+   * @returns Cached output or undefined on a miss
+   */
+  public async get(key: string): Promise<string | undefined> {
+    const cached = this.memory.get(key);
+    if (cached !== undefined) {
+      // Re-insert to mark the entry as most recently used
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      return cached;
+    }
+
+    if (!this.storageDir) {
+      return undefined;
+    }
+
+    try {
+      const stored = await fs.promises.readFile(this.getFilePath(key), 'utf-8');
+      this.remember(key, stored);
+      return stored;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a rendered diagram.
+   *
+   * Disk write failures are logged and otherwise ignored; the memory tier
+   * always receives the entry.
+   *
+   * @param key - Key from createKey()
+   * @param value - Rendered output
+   */
+  public async set(key: string, value: string): Promise<void> {
+    this.remember(key, value);
+
+    if (!this.storageDir) {
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await fs.promises.writeFile(this.getFilePath(key), value, 'utf-8');
+    } catch (error) {
+      console.warn('[DiagramCache] Failed to write cache entry:', error);
+    }
+  }
+
+  /**
+   * Remove all entries from memory and disk.
+   */
+  public async clear(): Promise<void> {
+    this.memory.clear();
+
+    if (this.storageDir) {
+      await fs.promises.rm(this.storageDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Get the number of entries held in memory.
+   *
+   * @returns Number of in-memory entries
+   */
+  public size(): number {
+    return this.memory.size;
+  }
+
+  /**
+   * Add an entry to the memory tier, evicting the least recently used entry when full.
+   *
+   * @param key - Cache key
+   * @param value - Rendered output
+   */
+  private remember(key: string, value: string): void {
+    this.memory.delete(key);
+    this.memory.set(key, value);
+
+    if (this.memory.size > this.maxEntries) {
+      const oldestKey = this.memory.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memory.delete(oldestKey);
+      }
+    }
+  }
+
+  /**
+   * Get the disk path for a cache entry.
+   *
+   * @param key - Cache key
+   * @returns Absolute file path
+   */
+  private getFilePath(key: string): string {
+    return path.join(this.storageDir as string, `${key}.svg`);
+  }
+}
@@ -1,5 +1,6 @@
 import { spawn, ChildProcess } from 'child_process';
 import * as net from 'net';
+import { deflateSync } from 'zlib';
 
 /**
  * PlantUML local server manager with persistent process.
@@ -104,8 +105,10 @@ export class PlantUMLServer {
   /**
    * Render PlantUML diagram via HTTP request (asynchronous).
    *
-   * Sends a POST request to the local PlantUML server with the diagram source.
-   * This is significantly faster than spawning a new Java process each time.
+   * Sends a GET request with the encoded diagram to the local PlantUML server
+   * (-picoweb mode serves /plantuml/svg/{encoded}). This is significantly faster
+   * than spawning a new Java process each time, and several diagrams can be
+   * rendered concurrently without blocking the extension host.
    *
    * @param source - PlantUML diagram source code
    * @returns Promise resolving to SVG string
@@ -116,12 +119,11 @@ export class PlantUMLServer {
     }
 
     try {
-      const response = await fetch(`http://localhost:${this.port}/svg`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8'
-        },
-        body: source
+      const encoded = this.encodePlantUML(source);
+      console.log(`[PlantUML Server] Encoded ${source.length} bytes to ${encoded.length} chars`);
+
+      const response = await fetch(`http://localhost:${this.port}/plantuml/svg/~1${encoded}`, {
+        method: 'GET'
       });
 
       if (!response.ok) {
@@ -129,6 +131,7 @@ export class PlantUMLServer {
       }
 
       const svg = await response.text();
+      console.log(`[PlantUML Server] Received response: ${svg.length} bytes`);
 
       if (!svg || svg.trim() === '') {
         throw new Error('Server returned empty response');
@@ -148,8 +151,6 @@ export class PlantUMLServer {
    * @returns Encoded string for URL
    */
   private encodePlantUML(source: string): string {
-    const { deflateSync } = require('zlib');
-
     // PlantUML custom base64 alphabet
     const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
 
@@ -174,60 +175,6 @@ export class PlantUMLServer {
     return result;
   }
 
-  /**
-   * Render PlantUML diagram via HTTP request (synchronous wrapper).
-   *
-   * Uses GET request with encoded diagram (PlantUML -picoweb mode only supports GET).
-   *
-   * @param source - PlantUML diagram source code
-   * @returns SVG string
-   */
-  renderSync(source: string): string {
-    if (!this.isReady) {
-      throw new Error('PlantUML server is not running. Call start() first.');
-    }
-
-    try {
-      const { execSync } = require('child_process');
-
-      // Encode diagram source
-      const encoded = this.encodePlantUML(source);
-      console.log(`[PlantUML Server] Encoded ${source.length} bytes to ${encoded.length} chars`);
-
-      // PlantUML -picoweb uses /plantuml/svg/{encoded} endpoint
-      const url = `http://localhost:${this.port}/plantuml/svg/~1${encoded}`;
-      console.log(`[PlantUML Server] Sending GET request to ${url.substring(0, 100)}...`);
-
-      let svg: string;
-
-      if (process.platform === 'win32') {
-        // Windows: Use PowerShell
-        const psCommand = `(Invoke-WebRequest -Uri '${url}' -UseBasicParsing).Content`;
-        svg = execSync(`powershell -Command "${psCommand}"`, {
-          encoding: 'utf-8',
-          maxBuffer: 10 * 1024 * 1024
-        });
-      } else {
-        // Unix/Linux/Mac: Use curl
-        svg = execSync(`curl -s "${url}"`, {
-          encoding: 'utf-8',
-          maxBuffer: 10 * 1024 * 1024
-        });
-      }
-
-      console.log(`[PlantUML Server] Received response: ${svg.length} bytes`);
-
-      if (!svg || svg.trim() === '') {
-        throw new Error('Server returned empty response');
-      }
-
-      return svg;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`PlantUML server request failed: ${errorMessage}`);
-    }
-  }
-
   /**
    * Stop the PlantUML server.
    *
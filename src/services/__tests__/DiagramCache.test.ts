@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiagramCache } from '../DiagramCache';
+
+/**
+ * Test suite for DiagramCache.
+ *
+ * Without these tests, we would not be guaranteed that:
+ * - Cache keys change whenever the source, theme or renderer version changes
+ * - The memory tier evicts the least recently used entry
+ * - Entries written to the disk tier survive a new cache instance
+ */
+describe('DiagramCache', () => {
+  const baseKey = { renderer: 'mermaid', version: '10.9.5', theme: 'github-light', source: 'graph TD' };
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'diagram-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Identical inputs map to the same key
+   * - A theme switch or renderer upgrade never serves stale diagrams
+   */
+  test('should derive keys from source, theme and renderer version', () => {
+    const key = DiagramCache.createKey(baseKey);
+
+    expect(DiagramCache.createKey({ ...baseKey })).toBe(key);
+    expect(DiagramCache.createKey({ ...baseKey, source: 'graph LR' })).not.toBe(key);
+    expect(DiagramCache.createKey({ ...baseKey, theme: 'github-dark' })).not.toBe(key);
+    expect(DiagramCache.createKey({ ...baseKey, version: '11.0.0' })).not.toBe(key);
+    expect(DiagramCache.createKey({ ...baseKey, renderer: 'plantuml-local' })).not.toBe(key);
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Memory use stays bounded
+   * - Recently read entries are kept over older ones
+   */
+  test('should evict the least recently used entry from memory', async () => {
+    const cache = new DiagramCache({ maxEntries: 2 });
+
+    await cache.set('a', '<svg>a</svg>');
+    await cache.set('b', '<svg>b</svg>');
+    await cache.get('a');
+    await cache.set('c', '<svg>c</svg>');
+
+    expect(cache.size()).toBe(2);
+    expect(await cache.get('a')).toBe('<svg>a</svg>');
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe('<svg>c</svg>');
+  });
+
+  /**
+   * Without this test, we would not be guaranteed that:
+   * - Rendered diagrams survive a window reload when the disk tier is enabled
+   * - Clearing the cache also removes the disk entries
+   */
+  test('should persist entries to disk and clear them', async () => {
+    const key = DiagramCache.createKey(baseKey);
+    await new DiagramCache({ storageDir }).set(key, '<svg>persisted</svg>');
+
+    const reloaded = new DiagramCache({ storageDir });
+    expect(await reloaded.get(key)).toBe('<svg>persisted</svg>');
+
+    await reloaded.clear();
+    expect(await new DiagramCache({ storageDir }).get(key)).toBeUndefined();
+  });
+});
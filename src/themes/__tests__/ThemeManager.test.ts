@@ -57,6 +57,19 @@ describe('ThemeManager', () => {
       expect(content).toContain('body');
       expect(content).toContain('font-family');
     });
+
+    /**
+     * If this test didn't exist, we wouldn't guarantee that every theme
+     * styles all alert types.
+     */
+    it('should style alerts in every theme', () => {
+      ThemeManager.AVAILABLE_THEMES.forEach((theme) => {
+        const content = ThemeManager.getThemeContent(mockContext, theme);
+        ['note', 'tip', 'important', 'warning', 'caution'].forEach((type) => {
+          expect(content).toContain(`.markdown-alert.markdown-alert-${type} .markdown-alert-title`);
+        });
+      });
+    });
   });
 
   describe('getDefaultTheme', () => {
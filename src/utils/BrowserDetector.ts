@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Chromium-based browser detector for PDF export.
+ *
+ * PDF export drives a locally installed Chrome, Edge or Chromium in headless
+ * mode instead of downloading a browser, so it works on offline machines.
+ */
+export class BrowserDetector {
+  /**
+   * Get well-known browser install locations for the current platform.
+   *
+   * @returns Candidate executable paths, most preferred first
+   */
+  public static getCandidatePaths(): string[] {
+    switch (process.platform) {
+      case 'win32': {
+        const programFiles = [
+          process.env['PROGRAMFILES'],
+          process.env['PROGRAMFILES(X86)'],
+          process.env['LOCALAPPDATA'],
+        ].filter((dir): dir is string => !!dir);
+
+        return programFiles.flatMap((dir) => [
+          path.join(dir, 'Google', 'Chrome', 'Application', 'chrome.exe'),
+          path.join(dir, 'Microsoft', 'Edge', 'Application', 'msedge.exe'),
+          path.join(dir, 'Chromium', 'Application', 'chrome.exe'),
+        ]);
+      }
+      case 'darwin':
+        return [
+          '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+          '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+          '/Applications/Chromium.app/Contents/MacOS/Chromium',
+        ];
+      default:
+        return [
+          '/usr/bin/google-chrome',
+          '/usr/bin/google-chrome-stable',
+          '/usr/bin/chromium',
+          '/usr/bin/chromium-browser',
+          '/usr/bin/microsoft-edge',
+          '/snap/bin/chromium',
+        ];
+    }
+  }
+
+  /**
+   * Find a Chromium-based browser executable.
+   *
+   * A configured path takes precedence; it is returned only if it exists.
+   *
+   * @param configuredPath - Optional user-configured executable path
+   * @returns Absolute executable path or null if no browser was found
+   */
+  public static findExecutable(configuredPath?: string): string | null {
+    if (configuredPath && configuredPath.trim() !== '') {
+      return this.isExecutableFile(configuredPath) ? configuredPath : null;
+    }
+
+    const found = this.getCandidatePaths().find((candidate) => this.isExecutableFile(candidate));
+    return found ?? null;
+  }
+
+  /**
+   * Check that a path points to an existing file.
+   *
+   * @param filePath - Path to check
+   * @returns True if the file exists
+   */
+  private static isExecutableFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where to look for files referenced by `!include` directives.
+ */
+export interface PlantUMLIncludeOptions {
+  /** Directory of the Markdown document (relative includes are resolved against it first) */
+  baseDir?: string;
+  /** Additional directories searched in order when a file is not found relative to its includer */
+  includePaths?: string[];
+  /**
+   * Receives every file read and every location searched for an included file,
+   * also when resolution fails, so fixing or creating the file can be watched for
+   */
+  dependencies?: Set<string>;
+}
+
+/**
+ * PlantUML source with all local includes inlined.
+ */
+export interface ResolvedPlantUMLSource {
+  source: string;
+  /** Absolute paths of every file that was read, for change watching */
+  includedFiles: string[];
+}
+
+/**
+ * Inlines PlantUML `!include` and `!includesub` directives that reference local files.
+ *
+ * Neither the local server nor the online encoder can read files next to the
+ * Markdown document, so included files are read here and substituted before
+ * the source is rendered. Supported forms:
+ * - `!include file.puml`, `!include file.puml!1`, `!include file.puml!diagramId`
+ * - `!include_many file.puml` and `!include_once file.puml`
+ * - `!includesub file.puml!PART` (text between `!startsub PART` and `!endsub`)
+ *
+ * Standard library (`!include <C4/C4_Container>`) and URL includes are left for
+ * PlantUML to resolve.
+ */
+export class PlantUMLIncludeResolver {
+  private static readonly INCLUDE_PATTERN =
+    /^(\s*)!(include|include_many|include_once|includesub)\s+(.+?)\s*$/;
+
+  /**
+   * Resolve all local includes in a PlantUML source.
+   *
+   * @param source - PlantUML source from a Markdown fence
+   * @param options - Base directory and include search paths
+   * @returns Promise resolving to the expanded source and the files it read
+   * @throws Error if an included file cannot be found or includes form a cycle
+   */
+  public static async resolve(
+    source: string,
+    options: PlantUMLIncludeOptions
+  ): Promise<ResolvedPlantUMLSource> {
+    const includedFiles = new Set<string>();
+    const expanded = await this.resolveText(source, options.baseDir, options, [], includedFiles);
+    return { source: expanded, includedFiles: Array.from(includedFiles) };
+  }
+
+  /**
+   * Expand the include directives of one source text.
+   *
+   * @param text - PlantUML text
+   * @param currentDir - Directory of the file the text came from
+   * @param options - Include search options
+   * @param stack - Files currently being expanded (for cycle detection)
+   * @param includedFiles - Every file read so far
+   * @returns Promise resolving to the expanded text
+   */
+  private static async resolveText(
+    text: string,
+    currentDir: string | undefined,
+    options: PlantUMLIncludeOptions,
+    stack: string[],
+    includedFiles: Set<string>
+  ): Promise<string> {
+    const lines = text.split('\n');
+    const output: string[] = [];
+
+    for (const line of lines) {
+      // Sub-part markers only matter to !includesub
+      if (/^\s*!(startsub|endsub)\b/.test(line)) {
+        continue;
+      }
+
+      const match = line.match(this.INCLUDE_PATTERN);
+      if (!match || this.isExternalTarget(match[3])) {
+        output.push(line);
+        continue;
+      }
+
+      const [, , directive, rawTarget] = match;
+      const { file, selector } = this.parseTarget(rawTarget);
+
+      const filePath = await this.findFile(file, currentDir, options);
+      if (!filePath) {
+        throw new Error(`Cannot find included file: ${file}`);
+      }
+
+      if (stack.includes(filePath)) {
+        const cycle = [...stack, filePath].map((entry) => path.basename(entry)).join(' -> ');
+        throw new Error(`Include cycle detected: ${cycle}`);
+      }
+
+      if (directive === 'include_once' && includedFiles.has(filePath)) {
+        continue;
+      }
+      includedFiles.add(filePath);
+      options.dependencies?.add(filePath);
+
+      const content = (await fs.promises.readFile(filePath, 'utf-8')).replace(/\r\n/g, '\n');
+      const part =
+        directive === 'includesub'
+          ? this.extractSub(content, selector, file)
+          : this.extractDiagram(content, selector, file);
+
+      output.push(
+        await this.resolveText(part, path.dirname(filePath), options, [...stack, filePath], includedFiles)
+      );
+    }
+
+    return output.join('\n');
+  }
+
+  /**
+   * Check whether an include target is resolved by PlantUML itself.
+   *
+   * @param target - Include target as written
+   * @returns True for standard library and URL includes
+   */
+  private static isExternalTarget(target: string): boolean {
+    return target.startsWith('<') || /^https?:\/\//i.test(target);
+  }
+
+  /**
+   * Split an include target into its file name and `!selector` suffix.
+   *
+   * @param target - Include target as written (may be quoted)
+   * @returns File name and optional selector
+   */
+  private static parseTarget(target: string): { file: string; selector?: string } {
+    const unquoted = target.replace(/^"(.*)"$/, '$1');
+    const separator = unquoted.lastIndexOf('!');
+    if (separator <= 0) {
+      return { file: unquoted };
+    }
+    return { file: unquoted.substring(0, separator), selector: unquoted.substring(separator + 1) };
+  }
+
+  /**
+   * Find an included file relative to its includer, then in the include paths.
+   *
+   * @param file - File name as written in the directive
+   * @param currentDir - Directory of the including file
+   * @param options - Include search options
+   * @returns Promise resolving to the absolute path, or null if not found
+   */
+  private static async findFile(
+    file: string,
+    currentDir: string | undefined,
+    options: PlantUMLIncludeOptions
+  ): Promise<string | null> {
+    const candidates = path.isAbsolute(file)
+      ? [file]
+      : [currentDir, ...(options.includePaths ?? [])]
+          .filter((dir): dir is string => !!dir)
+          .map((dir) => path.resolve(dir, file));
+
+    for (const candidate of candidates) {
+      options.dependencies?.add(candidate);
+      try {
+        const stats = await fs.promises.stat(candidate);
+        if (stats.isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not found in this location, try the next one
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Select the diagram body to include from a file.
+   *
+   * Files without @start… tags are included whole. Otherwise the first diagram
+   * is used, or the one chosen by index (`!1`) or id (`@startuml(id=NAME)`).
+   *
+   * @param content - Included file content
+   * @param selector - Optional diagram index or id
+   * @param file - File name (for error messages)
+   * @returns Diagram body without its @start…/@end… lines
+   */
+  private static extractDiagram(content: string, selector: string | undefined, file: string): string {
+    const pattern = /@start([a-z]+)(?:\(id=([^)]+)\))?[^\n]*\n([\s\S]*?)@end\1\b/gi;
+    const diagrams = Array.from(content.matchAll(pattern), (match) => ({
+      id: match[2],
+      body: match[3].replace(/\n$/, ''),
+    }));
+
+    if (diagrams.length === 0) {
+      return content.replace(/\n$/, '');
+    }
+
+    if (selector === undefined) {
+      return diagrams[0].body;
+    }
+
+    const diagram = /^\d+$/.test(selector)
+      ? diagrams[parseInt(selector, 10)]
+      : diagrams.find((entry) => entry.id === selector);
+    if (!diagram) {
+      throw new Error(`Diagram "${selector}" not found in included file: ${file}`);
+    }
+    return diagram.body;
+  }
+
+  /**
+   * Collect the `!startsub NAME` … `!endsub` sections of a file.
+   *
+   * @param content - Included file content
+   * @param name - Sub-part name
+   * @param file - File name (for error messages)
+   * @returns Concatenated section bodies
+   */
+  private static extractSub(content: string, name: string | undefined, file: string): string {
+    if (!name) {
+      throw new Error(`!includesub requires a sub-part name: ${file}`);
+    }
+
+    const pattern = /^\s*!startsub\s+(\S+)\s*\n([\s\S]*?)^\s*!endsub\b/gm;
+    const sections = Array.from(content.matchAll(pattern))
+      .filter((match) => match[1] === name)
+      .map((match) => match[2].replace(/\n$/, ''));
+
+    if (sections.length === 0) {
+      throw new Error(`Sub-part "${name}" not found in included file: ${file}`);
+    }
+    return sections.join('\n');
+  }
+}
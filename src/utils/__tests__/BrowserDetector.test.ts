@@ -0,0 +1,48 @@
+import * as path from 'path';
+import { BrowserDetector } from '../BrowserDetector';
+
+/**
+ * Test suite for BrowserDetector.
+ *
+ * This test verifies browser executable lookup used by PDF export.
+ */
+describe('BrowserDetector', () => {
+  describe('findExecutable', () => {
+    /**
+     * If this test didn't exist, we wouldn't guarantee that a configured
+     * executable path is used when it exists.
+     */
+    it('should return the configured path when the file exists', () => {
+      const existingFile = path.join(__dirname, 'BrowserDetector.test.ts');
+      expect(BrowserDetector.findExecutable(existingFile)).toBe(existingFile);
+    });
+
+    /**
+     * If this test didn't exist, we wouldn't guarantee that an invalid
+     * configured path is reported instead of silently falling back.
+     */
+    it('should return null for a configured path that does not exist', () => {
+      expect(BrowserDetector.findExecutable('/non/existent/chrome')).toBeNull();
+    });
+
+    /**
+     * If this test didn't exist, we wouldn't guarantee that directories
+     * are not mistaken for browser executables.
+     */
+    it('should return null for a configured directory', () => {
+      expect(BrowserDetector.findExecutable(__dirname)).toBeNull();
+    });
+  });
+
+  describe('getCandidatePaths', () => {
+    /**
+     * If this test didn't exist, we wouldn't guarantee that auto-detection
+     * has locations to search on the current platform.
+     */
+    it('should return candidate paths for the current platform', () => {
+      const candidates = BrowserDetector.getCandidatePaths();
+      expect(candidates.length).toBeGreaterThan(0);
+      candidates.forEach((candidate) => expect(path.isAbsolute(candidate)).toBe(true));
+    });
+  });
+});
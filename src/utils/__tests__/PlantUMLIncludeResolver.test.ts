@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlantUMLIncludeResolver } from '../PlantUMLIncludeResolver';
+
+/**
+ * Test suite for PlantUMLIncludeResolver.
+ *
+ * This test verifies that local PlantUML includes are inlined before rendering.
+ */
+describe('PlantUMLIncludeResolver', () => {
+  let rootDir: string;
+  let docsDir: string;
+
+  const writeFile = (relativePath: string, content: string): string => {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantuml-include-'));
+    docsDir = path.join(rootDir, 'docs');
+    fs.mkdirSync(docsDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that includes are
+   * resolved relative to the Markdown document and then relative to each
+   * included file, and that every file read is reported for watching.
+   */
+  it('should inline nested includes relative to the including file', async () => {
+    const style = writeFile('common/style.puml', '@startuml\nskinparam monochrome true\n!include colors.puml\n@enduml\n');
+    const colors = writeFile('common/colors.puml', 'skinparam backgroundColor #EEE\n');
+
+    const result = await PlantUMLIncludeResolver.resolve(
+      '@startuml\n!include ../common/style.puml\nA -> B\n@enduml',
+      { baseDir: docsDir }
+    );
+
+    expect(result.source).toBe(
+      '@startuml\nskinparam monochrome true\nskinparam backgroundColor #EEE\nA -> B\n@enduml'
+    );
+    expect(result.includedFiles).toEqual([style, colors]);
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that configured include
+   * paths are searched when a file is not next to the document.
+   */
+  it('should search the configured include paths', async () => {
+    writeFile('shared/actors.iuml', 'actor User\n');
+
+    const result = await PlantUMLIncludeResolver.resolve('!include actors.iuml', {
+      baseDir: docsDir,
+      includePaths: [path.join(rootDir, 'shared')],
+    });
+
+    expect(result.source).toBe('actor User');
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that !includesub and
+   * diagram selectors pick only the requested part of a file.
+   */
+  it('should include sub-parts and selected diagrams', async () => {
+    writeFile(
+      'docs/parts.puml',
+      [
+        '@startuml(id=first)',
+        '!startsub BASE',
+        'class Base',
+        '!endsub',
+        'class Other',
+        '@enduml',
+        '@startuml(id=second)',
+        'class Second',
+        '@enduml',
+      ].join('\n')
+    );
+
+    const sub = await PlantUMLIncludeResolver.resolve('!includesub parts.puml!BASE', { baseDir: docsDir });
+    const byId = await PlantUMLIncludeResolver.resolve('!include parts.puml!second', { baseDir: docsDir });
+    const byIndex = await PlantUMLIncludeResolver.resolve('!include parts.puml!0', { baseDir: docsDir });
+
+    expect(sub.source).toBe('class Base');
+    expect(byId.source).toBe('class Second');
+    expect(byIndex.source).toBe('class Base\nclass Other');
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that include cycles are
+   * reported instead of recursing forever.
+   */
+  it('should reject include cycles', async () => {
+    writeFile('docs/a.puml', '!include b.puml\n');
+    writeFile('docs/b.puml', '!include a.puml\n');
+
+    await expect(
+      PlantUMLIncludeResolver.resolve('!include a.puml', { baseDir: docsDir })
+    ).rejects.toThrow('Include cycle detected: a.puml -> b.puml -> a.puml');
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that missing files are
+   * reported and that !include_once skips repeated includes.
+   */
+  it('should report missing files and honor include_once', async () => {
+    writeFile('docs/once.puml', 'class Once\n');
+
+    const result = await PlantUMLIncludeResolver.resolve(
+      '!include_once once.puml\n!include_once once.puml',
+      { baseDir: docsDir }
+    );
+
+    expect(result.source).toBe('class Once');
+    await expect(
+      PlantUMLIncludeResolver.resolve('!include missing.puml', { baseDir: docsDir })
+    ).rejects.toThrow('Cannot find included file: missing.puml');
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that a failed resolution
+   * still reports the files read and the locations searched, so creating or
+   * fixing the broken include refreshes the preview.
+   */
+  it('should record dependencies when resolution fails', async () => {
+    const sharedDir = path.join(rootDir, 'shared');
+    const outer = writeFile('docs/outer.puml', '!include inner.puml\n');
+    const a = writeFile('docs/a.puml', '!include b.puml\n');
+    const b = writeFile('docs/b.puml', '!include a.puml\n');
+
+    const missing = new Set<string>();
+    await expect(
+      PlantUMLIncludeResolver.resolve('!include outer.puml', {
+        baseDir: docsDir,
+        includePaths: [sharedDir],
+        dependencies: missing,
+      })
+    ).rejects.toThrow('Cannot find included file: inner.puml');
+    expect(Array.from(missing)).toEqual([
+      outer,
+      path.join(docsDir, 'inner.puml'),
+      path.join(sharedDir, 'inner.puml'),
+    ]);
+
+    const cycle = new Set<string>();
+    await expect(
+      PlantUMLIncludeResolver.resolve('!include a.puml', { baseDir: docsDir, dependencies: cycle })
+    ).rejects.toThrow('Include cycle detected');
+    expect(Array.from(cycle)).toEqual([a, b]);
+  });
+
+  /**
+   * If this test didn't exist, we wouldn't guarantee that standard library
+   * and URL includes are left for PlantUML to resolve.
+   */
+  it('should keep standard library and URL includes unchanged', async () => {
+    const source = '!include <C4/C4_Container>\n!include https://example.com/style.puml';
+
+    const result = await PlantUMLIncludeResolver.resolve(source, { baseDir: docsDir });
+
+    expect(result.source).toBe(source);
+    expect(result.includedFiles).toEqual([]);
+  });
+});
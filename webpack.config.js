@@ -19,7 +19,10 @@ const config = {
   },
   devtool: 'nosources-source-map', // Lightweight source map for production
   externals: {
-    vscode: 'commonjs vscode' // VSCode module is excluded from bundle
+    vscode: 'commonjs vscode', // VSCode module is excluded from bundle
+    // Optional native add-ons of ws (used by puppeteer-core); ws falls back when missing
+    bufferutil: 'commonjs bufferutil',
+    'utf-8-validate': 'commonjs utf-8-validate'
   },
   resolve: {
     extensions: ['.ts', '.js']